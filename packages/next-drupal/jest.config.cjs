@@ -20,6 +20,7 @@ module.exports = {
   collectCoverage: true,
   collectCoverageFrom: ["./src/**"],
   coveragePathIgnorePatterns: [
+    "./src/bin.ts",
     "./src/deprecated/*",
     "./src/deprecated.ts",
     "./src/navigation.ts",
@@ -0,0 +1,476 @@
+import { NextDrupalRollbackError } from "./errors"
+import type {
+  JsonApiBatchMode,
+  JsonApiBatchOperation,
+  JsonApiBatchOptions,
+  JsonApiBatchReference,
+  JsonApiBatchResourceBody,
+  JsonApiBatchResourceIdentifier,
+  JsonApiBatchSendOptions,
+  JsonApiCreateFileResourceBody,
+  JsonApiCreateResourceBody,
+  JsonApiResource,
+  JsonApiUpdateResourceBody,
+  NextDrupalClient,
+} from "./types"
+
+// https://jsonapi.org/ext/atomic/
+export const ATOMIC_EXTENSION = "https://jsonapi.org/ext/atomic"
+
+const ATOMIC_MEDIA_TYPE = `application/vnd.api+json; ext="${ATOMIC_EXTENSION}"`
+
+// Servers without the operations endpoint, or the extension, respond with one
+// of these status codes.
+const UNSUPPORTED_STATUS_CODES = [404, 405, 415]
+
+// Clients of servers that do not support atomic operations.
+const unsupportedClients = new WeakSet<NextDrupalClient>()
+
+// A JSON:API document with a single resource.
+interface JsonApiDocument {
+  data: {
+    type: string
+    id: string
+    attributes?: Record<string, unknown>
+    relationships?: Record<string, { data: unknown }>
+  }
+}
+
+// Files are uploaded before the atomic operations are sent.
+type AtomicBatchOperation = Exclude<JsonApiBatchOperation, { op: "createFile" }>
+
+interface BatchState {
+  // The ids of the resources created so far, keyed by local id.
+  ids: Map<string, string>
+  results: (JsonApiDocument | null)[]
+  // Undoes the operations sent so far.
+  rollbacks: (() => Promise<unknown>)[]
+}
+
+/**
+ * Creates, updates and deletes resources as a single unit. Resources created
+ * in the batch can be referenced by later operations using the returned
+ * local id reference, e.g. in relationships.
+ *
+ * If the server supports the JSON:API Atomic Operations extension, the
+ * operations are sent in one request and either all succeed or none do.
+ * Otherwise, a request is sent per operation and the operations already sent
+ * are rolled back when one fails.
+ */
+export class JsonApiBatch {
+  drupal: NextDrupalClient
+
+  mode: JsonApiBatchMode
+
+  endpoint: string
+
+  operations: JsonApiBatchOperation[] = []
+
+  constructor(
+    drupal: NextDrupalClient,
+    { mode = "auto", endpoint = "/operations" }: JsonApiBatchOptions = {}
+  ) {
+    this.drupal = drupal
+    this.mode = mode
+    this.endpoint = endpoint
+  }
+
+  create(type: string, body: JsonApiBatchResourceBody): JsonApiBatchReference {
+    const lid = body.data.lid ?? this.createLid()
+
+    this.operations.push({ op: "create", type, lid, body })
+
+    return { type, lid }
+  }
+
+  // Files are uploaded before the other operations are sent, since the
+  // binary upload is not supported by atomic operations.
+  createFile(
+    type: string,
+    body: JsonApiCreateFileResourceBody
+  ): JsonApiBatchReference {
+    const lid = this.createLid()
+
+    this.operations.push({ op: "createFile", type, lid, body })
+
+    return { type, lid }
+  }
+
+  update(
+    type: string,
+    target: string | JsonApiBatchReference,
+    body: JsonApiBatchResourceBody
+  ) {
+    this.operations.push({ op: "update", type, target, body })
+  }
+
+  // Deleted resources cannot be restored when rolling back, so add deletes
+  // after the other operations.
+  delete(type: string, target: string | JsonApiBatchReference) {
+    this.operations.push({ op: "delete", type, target })
+  }
+
+  /**
+   * Sends the operations.
+   *
+   * @param {JsonApiBatchSendOptions} options Options for the requests.
+   * @returns {Promise<(T | null)[]>} The result of each operation, in order. Deletes return null.
+   */
+  async send<T = JsonApiResource>(
+    options?: JsonApiBatchSendOptions
+  ): Promise<(T | null)[]> {
+    options = {
+      deserialize: true,
+      withAuth: true,
+      ...options,
+    }
+
+    const state: BatchState = { ids: new Map(), results: [], rollbacks: [] }
+    let pending = this.operations.map((_, index) => index)
+
+    try {
+      if (
+        this.mode === "atomic" ||
+        (this.mode === "auto" && !unsupportedClients.has(this.drupal))
+      ) {
+        const files = pending.filter(
+          (index) => this.operations[index].op === "createFile"
+        )
+        for (const index of files) {
+          await this.sendOperation(index, state, options)
+        }
+        pending = pending.filter((index) => !files.includes(index))
+
+        if (await this.sendAtomicOperations(pending, state, options)) {
+          pending = []
+        } else {
+          this.drupal.debug(
+            "Atomic operations are not supported. Sending a request per operation."
+          )
+          unsupportedClients.add(this.drupal)
+        }
+      }
+
+      for (const index of pending) {
+        await this.sendOperation(index, state, options)
+      }
+    } catch (error) {
+      throw await this.rollback(state, error)
+    }
+
+    return state.results.map((json) =>
+      json && options.deserialize ? this.drupal.deserialize(json) : json
+    ) as (T | null)[]
+  }
+
+  // Random, so that the local ids do not collide with the given local ids.
+  private createLid() {
+    return crypto.randomUUID()
+  }
+
+  // Returns false if the server does not support atomic operations and the
+  // operations can be sent using a request per operation.
+  private async sendAtomicOperations(
+    indexes: number[],
+    state: BatchState,
+    options: JsonApiBatchSendOptions
+  ): Promise<boolean> {
+    if (!indexes.length) {
+      return true
+    }
+
+    const operations = indexes.map((index) =>
+      this.toAtomicOperation(
+        this.operations[index] as AtomicBatchOperation,
+        state
+      )
+    )
+
+    const endpoint = await this.drupal.buildEndpoint({ path: this.endpoint })
+
+    this.drupal.debug(`Sending ${operations.length} atomic operations.`)
+
+    let response = await this.drupal.fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": ATOMIC_MEDIA_TYPE,
+        Accept: ATOMIC_MEDIA_TYPE,
+      },
+      body: JSON.stringify({ "atomic:operations": operations }),
+      withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
+    })
+
+    if (
+      this.mode === "auto" &&
+      UNSUPPORTED_STATUS_CODES.includes(response.status)
+    ) {
+      // Reading the body also releases the connection of the response.
+      const body = await response.text()
+
+      if (!isAtomicErrorResponse(response, body)) {
+        return false
+      }
+
+      // The operations failed, e.g. the target of an update does not exist.
+      response = new Response(body, response)
+    }
+
+    await this.drupal.throwIfJsonErrors(
+      response,
+      "Error while sending atomic operations: "
+    )
+
+    // Servers respond without content if no operation returns data.
+    const json = response.status === 204 ? {} : await response.json()
+    const results: { data?: unknown }[] = json["atomic:results"] ?? []
+
+    indexes.forEach((index, i) => {
+      state.results[index] = results[i]?.data
+        ? (results[i] as JsonApiDocument)
+        : null
+    })
+
+    return true
+  }
+
+  private toAtomicOperation(
+    operation: AtomicBatchOperation,
+    state: BatchState
+  ) {
+    const { type } = operation
+
+    if (operation.op === "create") {
+      return {
+        op: "add",
+        data: {
+          ...resolveBody(operation.body, state.ids, false).data,
+          type,
+          lid: operation.lid,
+        },
+      }
+    }
+
+    const ref = resolveTarget(type, operation, state.ids, false)
+
+    if (operation.op === "update") {
+      return {
+        op: "update",
+        data: {
+          ...resolveBody(operation.body, state.ids, false).data,
+          ...ref,
+        },
+      }
+    }
+
+    return { op: "remove", ref }
+  }
+
+  private async sendOperation(
+    index: number,
+    state: BatchState,
+    { deserialize, ...options }: JsonApiBatchSendOptions
+  ) {
+    const operation = this.operations[index]
+    const { type } = operation
+    const requestOptions = { ...options, deserialize: false }
+    // Rollbacks are sent even if the batch was aborted.
+    const rollbackOptions = { ...requestOptions, signal: undefined }
+
+    if (operation.op === "create" || operation.op === "createFile") {
+      const json = (operation.op === "create"
+        ? await this.drupal.createResource(
+            type,
+            resolveBody(
+              operation.body,
+              state.ids,
+              true
+            ) as JsonApiCreateResourceBody,
+            requestOptions
+          )
+        : await this.drupal.createFileResource(
+            type,
+            operation.body,
+            requestOptions
+          )) as unknown as JsonApiDocument
+
+      state.ids.set(operation.lid, json.data.id)
+      state.results[index] = json
+      state.rollbacks.push(() =>
+        this.drupal.deleteResource(
+          json.data.type,
+          json.data.id,
+          rollbackOptions
+        )
+      )
+      return
+    }
+
+    const { id } = resolveTarget(type, operation, state.ids, true) as {
+      id: string
+    }
+
+    if (operation.op === "update") {
+      const previous = (await this.drupal.getResource(
+        type,
+        id,
+        requestOptions
+      )) as unknown as JsonApiDocument
+
+      state.results[index] = (await this.drupal.updateResource(
+        type,
+        id,
+        resolveBody(
+          operation.body,
+          state.ids,
+          true
+        ) as JsonApiUpdateResourceBody,
+        requestOptions
+      )) as unknown as JsonApiDocument
+      state.rollbacks.push(() =>
+        this.drupal.updateResource(
+          type,
+          id,
+          getPreviousBody(previous, operation.body),
+          rollbackOptions
+        )
+      )
+      return
+    }
+
+    await this.drupal.deleteResource(type, id, requestOptions)
+    state.results[index] = null
+  }
+
+  // Undoes the operations sent so far, in reverse order, and returns the
+  // error to throw.
+  private async rollback(state: BatchState, error: Error): Promise<Error> {
+    const errors: Error[] = []
+
+    if (state.rollbacks.length) {
+      this.drupal.debug(`Rolling back ${state.rollbacks.length} operations.`)
+    }
+
+    for (const rollback of state.rollbacks.reverse()) {
+      try {
+        await rollback()
+      } catch (rollbackError) {
+        errors.push(rollbackError)
+      }
+    }
+
+    return errors.length ? new NextDrupalRollbackError(error, errors) : error
+  }
+}
+
+// Replaces references to resources created earlier in the batch with their
+// ids. Other references are kept if strict is false, otherwise they throw.
+function resolveIdentifier(
+  identifier: JsonApiBatchResourceIdentifier,
+  ids: Map<string, string>,
+  strict: boolean
+): JsonApiBatchResourceIdentifier {
+  if (!("lid" in identifier)) {
+    return identifier
+  }
+
+  if (ids.has(identifier.lid)) {
+    return { type: identifier.type, id: ids.get(identifier.lid) }
+  }
+
+  if (strict) {
+    throw new Error(
+      `The local id '${identifier.lid}' does not reference a resource created earlier in the batch.`
+    )
+  }
+
+  return identifier
+}
+
+function resolveTarget(
+  type: string,
+  { target }: { target: string | JsonApiBatchReference },
+  ids: Map<string, string>,
+  strict: boolean
+) {
+  return typeof target === "string"
+    ? { type, id: target }
+    : resolveIdentifier({ type, lid: target.lid }, ids, strict)
+}
+
+function resolveBody(
+  { data: { lid, relationships, ...data } }: JsonApiBatchResourceBody,
+  ids: Map<string, string>,
+  strict: boolean
+) {
+  if (!relationships) {
+    return { data }
+  }
+
+  return {
+    data: {
+      ...data,
+      relationships: Object.fromEntries(
+        Object.entries(relationships).map(([field, relationship]) => [
+          field,
+          {
+            ...relationship,
+            data: Array.isArray(relationship.data)
+              ? relationship.data.map((identifier) =>
+                  resolveIdentifier(identifier, ids, strict)
+                )
+              : relationship.data &&
+                resolveIdentifier(relationship.data, ids, strict),
+          },
+        ])
+      ),
+    },
+  }
+}
+
+// Returns a body that restores the fields changed by an update.
+function getPreviousBody(
+  previous: JsonApiDocument,
+  { data }: JsonApiBatchResourceBody
+): JsonApiUpdateResourceBody {
+  return {
+    data: {
+      attributes: Object.fromEntries(
+        Object.keys(data.attributes ?? {}).map((field) => [
+          field,
+          previous.data.attributes?.[field] ?? null,
+        ])
+      ),
+      relationships: Object.fromEntries(
+        Object.keys(data.relationships ?? {}).map((field) => [
+          field,
+          { data: previous.data.relationships?.[field]?.data ?? null },
+        ])
+      ) as JsonApiUpdateResourceBody["data"]["relationships"],
+    },
+  }
+}
+
+// Servers that support atomic operations respond to failed operations with
+// errors that point to the operations, or with the atomic media type. Other
+// responses mean the endpoint, or the extension, is not supported.
+function isAtomicErrorResponse(response: Response, body: string) {
+  let json: { errors?: { source?: { pointer?: string } }[] }
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return false
+  }
+
+  if (!Array.isArray(json?.errors)) {
+    return false
+  }
+
+  return (
+    response.headers.get("content-type")?.includes(ATOMIC_EXTENSION) ||
+    json.errors.some(({ source }) =>
+      source?.pointer?.startsWith("/atomic:operations")
+    )
+  )
+}
@@ -0,0 +1,36 @@
+export const DRUPAL_CACHE_TAGS_HEADER = "X-Drupal-Cache-Tags"
+
+// Parses a space-separated list of cache tags, e.g. "node:1 node_list".
+export function parseCacheTags(value?: string | null): string[] {
+  return value ? [...new Set(value.split(/\s+/).filter(Boolean))] : []
+}
+
+export function getCacheTagsFromResponse(response: Response): string[] {
+  return parseCacheTags(response.headers.get(DRUPAL_CACHE_TAGS_HEADER))
+}
+
+// Returns the cache tags Drupal sent with the data returned by the client.
+export function getCacheTags(data: unknown): string[] {
+  return (
+    (data && typeof data === "object" && (data as WithCacheTags).cacheTags) ||
+    []
+  )
+}
+
+// Attaches cache tags to data. The property is not enumerable, so the tags
+// are not serialized along with the data.
+export function setCacheTags<T>(data: T, tags: string[]): T {
+  if (data && typeof data === "object" && tags.length) {
+    Object.defineProperty(data, "cacheTags", {
+      value: tags,
+      configurable: true,
+      writable: true,
+    })
+  }
+
+  return data
+}
+
+interface WithCacheTags {
+  cacheTags?: string[]
+}
@@ -0,0 +1,144 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import { parseArgs } from "node:util"
+import {
+  fetchResourceSchemas,
+  generateTypes,
+  getResourceSchemas,
+} from "./generate-types"
+import { NextDrupal } from "./next-drupal"
+
+const USAGE = `Usage: next-drupal generate-types [options]
+
+Generates the TypeScript types of the resource types of a Drupal site, using
+the JSON:API Schema module, or a snapshot of the schemas.
+
+Options:
+  --base-url <url>       The base URL of the Drupal site.
+                         Defaults to NEXT_PUBLIC_DRUPAL_BASE_URL.
+  --client-id <id>       The client id used to fetch the schemas.
+                         Defaults to DRUPAL_CLIENT_ID.
+  --client-secret <key>  The client secret used to fetch the schemas.
+                         Defaults to DRUPAL_CLIENT_SECRET.
+  --schema <file>        Generates the types from a snapshot instead: a file
+                         saved with --save-schema, or an OpenAPI document.
+  --save-schema <file>   Saves a snapshot of the fetched schemas.
+  --prefix <prefix>      A prefix for the names of the interfaces.
+                         Defaults to "Drupal".
+  --out <file>           The file to write the types to.
+                         Defaults to the standard output.
+  -h, --help             Shows this help.`
+
+/**
+ * Runs the next-drupal command.
+ *
+ * @param {string[]} args The arguments of the command.
+ * @returns {Promise<number>} The exit code.
+ */
+export async function runCli(args: string[]) {
+  let parsed: ReturnType<typeof parseCliArgs>
+
+  try {
+    parsed = parseCliArgs(args)
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`)
+    return 1
+  }
+
+  const {
+    positionals: [command],
+    values: { help, ...options },
+  } = parsed
+
+  if (help) {
+    console.log(USAGE)
+    return 0
+  }
+
+  if (command !== "generate-types") {
+    console.error(
+      `${command ? `Unknown command '${command}'.` : "Missing command."}\n\n${USAGE}`
+    )
+    return 1
+  }
+
+  try {
+    await generateTypesCommand(options)
+  } catch (error) {
+    console.error(error.message)
+    return 1
+  }
+
+  return 0
+}
+
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "base-url": { type: "string" },
+      "client-id": { type: "string" },
+      "client-secret": { type: "string" },
+      schema: { type: "string" },
+      "save-schema": { type: "string" },
+      prefix: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+}
+
+async function generateTypesCommand({
+  "base-url": baseUrl = process.env.NEXT_PUBLIC_DRUPAL_BASE_URL,
+  "client-id": clientId = process.env.DRUPAL_CLIENT_ID,
+  "client-secret": clientSecret = process.env.DRUPAL_CLIENT_SECRET,
+  schema,
+  "save-schema": saveSchema,
+  prefix,
+  out,
+}: Record<string, string>) {
+  let schemas
+
+  if (schema) {
+    schemas = getResourceSchemas(JSON.parse(await readFile(schema, "utf8")))
+  } else {
+    if (!baseUrl) {
+      throw new Error(
+        "Missing the base URL. Set --base-url or NEXT_PUBLIC_DRUPAL_BASE_URL."
+      )
+    }
+
+    const auth =
+      clientId && clientSecret ? { clientId, clientSecret } : undefined
+    const drupal = new NextDrupal(baseUrl, { auth })
+
+    schemas = await fetchResourceSchemas(drupal, { withAuth: !!auth })
+
+    if (saveSchema) {
+      await write(saveSchema, `${JSON.stringify(schemas, null, 2)}\n`)
+    }
+  }
+
+  if (!Object.keys(schemas).length) {
+    throw new Error("No resource types found.")
+  }
+
+  const types = generateTypes(schemas, { prefix })
+
+  if (!out) {
+    process.stdout.write(types)
+    return
+  }
+
+  await write(out, types)
+
+  console.error(
+    `Generated the types of ${Object.keys(schemas).length} resource types in ${out}.`
+  )
+}
+
+async function write(file: string, content: string) {
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, content)
+}
@@ -1,12 +1,12 @@
 import { getResourceCollection } from "./get-resource-collection"
 import type { GetStaticPathsContext, GetStaticPathsResult } from "next"
-import type { AccessToken, JsonApiParams, Locale } from "../types"
+import type { AccessToken, JsonApiParamsObject, Locale } from "../types"
 
 export async function getPathsFromContext(
   types: string | string[],
   context: GetStaticPathsContext,
   options: {
-    params?: JsonApiParams
+    params?: JsonApiParamsObject
     accessToken?: AccessToken
   } = {}
 ): Promise<GetStaticPathsResult["paths"]> {
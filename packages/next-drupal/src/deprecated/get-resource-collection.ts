@@ -5,7 +5,11 @@ import {
   getJsonApiPathForResourceType,
 } from "./utils"
 import type { GetStaticPropsContext } from "next"
-import type { AccessToken, JsonApiParams, JsonApiResource } from "../types"
+import type {
+  AccessToken,
+  JsonApiParamsObject,
+  JsonApiResource,
+} from "../types"
 import type { JsonApiWithLocaleOptions } from "../types/deprecated"
 
 export async function getResourceCollection<T = JsonApiResource[]>(
@@ -51,7 +55,7 @@ export async function getResourceCollectionFromContext<T = JsonApiResource[]>(
   context: GetStaticPropsContext,
   options?: {
     deserialize?: boolean
-    params?: JsonApiParams
+    params?: JsonApiParamsObject
   }
 ): Promise<T> {
   options = {
@@ -7,7 +7,11 @@ import {
   getPathFromContext,
 } from "./utils"
 import type { GetStaticPropsContext } from "next"
-import type { AccessToken, JsonApiParams, JsonApiResource } from "../types"
+import type {
+  AccessToken,
+  JsonApiParamsObject,
+  JsonApiResource,
+} from "../types"
 import type { JsonApiWithLocaleOptions } from "../types/deprecated"
 
 export async function getResourceFromContext<T extends JsonApiResource>(
@@ -16,7 +20,7 @@ export async function getResourceFromContext<T extends JsonApiResource>(
   options?: {
     prefix?: string
     deserialize?: boolean
-    params?: JsonApiParams
+    params?: JsonApiParamsObject
     accessToken?: AccessToken
     isVersionable?: boolean
   }
@@ -12,7 +12,10 @@ export async function enableDraftMode(
   drupal: NextDrupalBase
 ): Promise<Response | never> {
   // Validate the draft request.
-  const response = await drupal.validateDraftUrl(request.nextUrl.searchParams)
+  const response = await drupal.validateDraftUrl(request.nextUrl.searchParams, {
+    method: request.method,
+    path: new URL(request.url).pathname,
+  })
 
   // If validation fails, don't enable draft mode.
   if (!response.ok) {
@@ -38,7 +41,7 @@ export async function enableDraftMode(
 
   // Send Drupal's data to the draft-mode page.
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { secret, scope, plugin, ...draftData } = Object.fromEntries(
+  const { secret, scope, plugin, signature, ...draftData } = Object.fromEntries(
     searchParams.entries()
   )
   cookies().set({
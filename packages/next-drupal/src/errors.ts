@@ -0,0 +1,62 @@
+import type { DrupalRedirect } from "./types"
+
+export class NextDrupalTimeoutError extends Error {
+  timeout: number
+  url: string
+
+  constructor(timeout: number, url: string) {
+    super(`Request timed out after ${timeout}ms: ${url}`)
+
+    this.name = "NextDrupalTimeoutError"
+    this.timeout = timeout
+    this.url = url
+  }
+}
+
+export class NextDrupalRollbackError extends Error {
+  // The error that failed the batch.
+  error: Error
+  // The errors of the operations that could not be rolled back.
+  errors: Error[]
+
+  constructor(error: Error, errors: Error[]) {
+    super(
+      `Failed to roll back ${errors.length} operation${errors.length === 1 ? "" : "s"} after: ${error.message}`
+    )
+
+    this.name = "NextDrupalRollbackError"
+    this.error = error
+    this.errors = errors
+  }
+}
+
+export class NextDrupalFixtureError extends Error {
+  // The file of the missing fixture.
+  file: string
+
+  constructor(method: string, url: string, file: string) {
+    super(
+      `No fixture recorded for ${method} ${url}. Record it with the "record" mode to create ${file}.`
+    )
+
+    this.name = "NextDrupalFixtureError"
+    this.file = file
+  }
+}
+
+// Thrown when the path of a resource redirects to another path. See
+// getRedirectProps() and followRedirect().
+export class RedirectError extends Error implements DrupalRedirect {
+  from: string
+  to: string
+  status: number
+
+  constructor({ from, to, status }: DrupalRedirect) {
+    super(`${from} redirects to ${to} with status ${status}.`)
+
+    this.name = "RedirectError"
+    this.from = from
+    this.to = to
+    this.status = status
+  }
+}
@@ -0,0 +1,180 @@
+import { createHash } from "node:crypto"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { NextDrupalFixtureError } from "./errors"
+import type { Fetcher, Fixture, FixtureFetcherOptions } from "./types"
+
+const DEFAULT_REDACT_PARAMS = [
+  "client_secret",
+  "code",
+  "password",
+  "refresh_token",
+]
+
+const DEFAULT_REDACT_FIELDS = ["access_token", "refresh_token"]
+
+// Replaces the values of redacted fields of JSON responses.
+const REDACTED = "redacted"
+
+// Responses with these statuses cannot have a body.
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+/**
+ * Creates a fetcher that records the responses of Drupal as fixture files,
+ * and replays them without sending any request, e.g. for tests.
+ *
+ * Fixtures are matched by the method, the URL and the body of the request.
+ * Replaying a request that was not recorded throws a NextDrupalFixtureError.
+ *
+ * const drupal = new NextDrupal(baseUrl, {
+ *   fetcher: createFixtureFetcher({
+ *     dir: "tests/fixtures",
+ *     mode: process.env.RECORD_FIXTURES ? "record" : "replay",
+ *   }),
+ * })
+ *
+ * @param {FixtureFetcherOptions} options Options for the fetcher.
+ * @returns {Fetcher} The fetcher.
+ */
+export function createFixtureFetcher({
+  dir,
+  mode = "replay",
+  fetcher = fetch,
+  redactParams = DEFAULT_REDACT_PARAMS,
+  redactFields = DEFAULT_REDACT_FIELDS,
+}: FixtureFetcherOptions): Fetcher {
+  return async (input, init = {}) => {
+    // The body of a Request input is moved to the request, so the request is
+    // sent instead of the input.
+    const request = new Request(input, init)
+    const method = request.method
+    const url = request.url
+    const body = redact(
+      await request.clone().text(),
+      request.headers.get("content-type"),
+      redactParams
+    )
+    const file = join(dir, getFixtureName(method, url, body))
+
+    if (mode === "replay") {
+      return replay(method, url, file)
+    }
+
+    const response = await fetcher(request)
+
+    await record(
+      { request: { method, url, body: body || undefined }, response },
+      file,
+      redactFields
+    )
+
+    return response
+  }
+}
+
+async function replay(method: string, url: string, file: string) {
+  let fixture: Fixture
+
+  try {
+    fixture = JSON.parse(await readFile(file, "utf8"))
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      throw new NextDrupalFixtureError(method, url, file)
+    }
+
+    throw error
+  }
+
+  const { status, statusText, headers, json, body } = fixture.response
+
+  return new Response(
+    NULL_BODY_STATUSES.includes(status)
+      ? null
+      : json !== undefined
+        ? JSON.stringify(json)
+        : body,
+    { status, statusText, headers }
+  )
+}
+
+async function record(
+  { request, response }: { request: Fixture["request"]; response: Response },
+  file: string,
+  redactFields: string[]
+) {
+  const body = await response.clone().text()
+  // Cookies could be used to impersonate the user of the request.
+  const headers = Object.fromEntries(
+    [...response.headers].filter(([name]) => name !== "set-cookie")
+  )
+
+  const fixture: Fixture = {
+    request,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...parseBody(body, redactFields),
+    },
+  }
+
+  await mkdir(join(file, ".."), { recursive: true })
+  await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`)
+}
+
+function parseBody(
+  body: string,
+  redactFields: string[]
+): Pick<Fixture["response"], "json" | "body"> {
+  if (!body) {
+    return {}
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return { body }
+  }
+
+  // Removes credentials from JSON bodies, e.g. of token responses.
+  if (json && typeof json === "object" && !Array.isArray(json)) {
+    json = Object.fromEntries(
+      Object.entries(json).map(([key, value]) => [
+        key,
+        redactFields.includes(key) ? REDACTED : value,
+      ])
+    )
+  }
+
+  return { json }
+}
+
+// Removes credentials from form bodies, e.g. of token requests.
+function redact(body: string, contentType: string, params: string[]) {
+  if (!body || !contentType?.startsWith("application/x-www-form-urlencoded")) {
+    return body
+  }
+
+  const search = new URLSearchParams(body)
+  for (const param of params) {
+    search.delete(param)
+  }
+
+  return search.toString()
+}
+
+// Names fixtures after the request, e.g. get-jsonapi-node-article-1a2b3c4d.json.
+function getFixtureName(method: string, url: string, body: string) {
+  const hash = createHash("sha256")
+    .update(`${method} ${url}\n${body}`)
+    .digest("hex")
+    .slice(0, 8)
+  const slug = `${method}-${new URL(url).pathname}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80)
+
+  return `${slug}-${hash}.json`
+}
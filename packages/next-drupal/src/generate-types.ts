@@ -0,0 +1,431 @@
+import type {
+  DrupalResourceSchemas,
+  FetchResourceSchemasOptions,
+  GenerateTypesOptions,
+  JsonSchema,
+  NextDrupalClient,
+} from "./types"
+
+const DEFAULT_PREFIX = "Drupal"
+
+// Matches resource types, e.g. "node--article".
+const RESOURCE_TYPE_PATTERN = /^\w+--\w+$/
+
+const HEADER = `// This file is generated by \`next-drupal generate-types\`. Do not edit it,
+// run the command again to update it.`
+
+interface SchemaContext {
+  // The document of the schema, to resolve references.
+  root: JsonSchema
+  names: Record<string, string>
+  usesJsonApiResource: boolean
+}
+
+/**
+ * Fetches the schemas of the resource types of the JSON:API index, using the
+ * JSON:API Schema module.
+ *
+ * @param {NextDrupal} drupal The client.
+ * @param {FetchResourceSchemasOptions} options Options for the requests.
+ * @returns {Promise<DrupalResourceSchemas>} The schemas, by resource type.
+ */
+export async function fetchResourceSchemas(
+  drupal: NextDrupalClient,
+  options: FetchResourceSchemasOptions = {}
+): Promise<DrupalResourceSchemas> {
+  const index = await drupal.getIndex()
+  const links = Object.entries(index.links ?? {}).filter(([type]) =>
+    RESOURCE_TYPE_PATTERN.test(type)
+  )
+
+  drupal.debug(`Fetching ${links.length} resource schemas.`)
+
+  const schemas = await Promise.all(
+    links.map(async ([type, link]) => {
+      const href = typeof link === "string" ? link : link.href
+      const response = await drupal.fetch(`${href}/resource/schema`, {
+        withAuth: options.withAuth,
+        signal: options.signal,
+        timeout: options.timeout,
+      })
+
+      await drupal.throwIfJsonErrors(
+        response,
+        `Error while fetching schema of ${type}:`
+      )
+
+      return [type, await response.json()]
+    })
+  )
+
+  return Object.fromEntries(schemas)
+}
+
+/**
+ * Returns the resource schemas of a snapshot: the schemas by resource type
+ * returned by fetchResourceSchemas(), or an OpenAPI document.
+ *
+ * @param {JsonSchema} document The snapshot.
+ * @returns {DrupalResourceSchemas} The schemas, by resource type.
+ */
+export function getResourceSchemas(
+  document: JsonSchema
+): DrupalResourceSchemas {
+  if (!document.openapi && !document.swagger) {
+    return document as DrupalResourceSchemas
+  }
+
+  const { definitions, components } = document as {
+    definitions?: DrupalResourceSchemas
+    components?: { schemas?: DrupalResourceSchemas }
+  }
+
+  return Object.fromEntries(
+    Object.entries(definitions ?? components?.schemas ?? {})
+      .filter(([type]) => RESOURCE_TYPE_PATTERN.test(type))
+      // Keeps the definitions of the document to resolve references.
+      .map(([type, schema]) => [type, { ...schema, definitions, components }])
+  )
+}
+
+/**
+ * Generates the interfaces of resource types, and adds them to
+ * DrupalResourceTypes.
+ *
+ * @param {DrupalResourceSchemas} schemas The schemas, by resource type.
+ * @param {GenerateTypesOptions} options Options for the types.
+ * @returns {string} The source of the types.
+ */
+export function generateTypes(
+  schemas: DrupalResourceSchemas,
+  { prefix = DEFAULT_PREFIX }: GenerateTypesOptions = {}
+) {
+  const types = Object.keys(schemas).sort()
+  const names = Object.fromEntries(
+    types.map((type) => [type, `${prefix}${toPascalCase(type)}`])
+  )
+
+  let usesJsonApiResource = false
+  const interfaces = types.map((type) => {
+    const context = { root: schemas[type], names, usesJsonApiResource: false }
+    const source = printInterface(type, context)
+
+    usesJsonApiResource ||= context.usesJsonApiResource
+
+    return source
+  })
+
+  const registry = [
+    `declare module "next-drupal" {`,
+    "  interface DrupalResourceTypes {",
+    ...types.map((type) => `    ${JSON.stringify(type)}: ${names[type]}`),
+    "  }",
+    "}",
+  ]
+
+  return [
+    HEADER,
+    usesJsonApiResource
+      ? `import type { JsonApiResource } from "next-drupal"`
+      : // A file without imports or exports would declare the module instead
+        // of augmenting it.
+        !types.length && "export {}",
+    ...interfaces,
+    registry.join("\n"),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    .concat("\n")
+}
+
+function printInterface(type: string, context: SchemaContext) {
+  const { root, names } = context
+  const attributes = getMember(root, "attributes", context)
+  const relationships = getMember(root, "relationships", context)
+
+  const members = [
+    "  id: string",
+    `  type: ${JSON.stringify(type)}`,
+    ...Object.entries(attributes?.properties ?? {})
+      .filter(([name]) => name !== "id" && name !== "type")
+      .map(([name, schema]) =>
+        printProperty(name, schema, printType(schema, context, 1), 1, {
+          required: attributes.required?.includes(name),
+        })
+      ),
+    ...Object.entries(relationships?.properties ?? {}).map(([name, schema]) =>
+      printProperty(name, schema, printRelationshipType(schema, context), 1, {
+        required: relationships.required?.includes(name),
+      })
+    ),
+  ]
+
+  return `${printComment(resolve(root, context), 0)}export interface ${names[type]} {\n${members.join("\n")}\n}`
+}
+
+// Fields of resources are null if they are empty, or an empty array if they
+// have multiple values. Properties of other objects are optional instead.
+function printProperty(
+  name: string,
+  schema: JsonSchema,
+  type: string,
+  depth: number,
+  { required = false, nested = false } = {}
+) {
+  const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+  const nullable =
+    !required &&
+    !nested &&
+    type !== "unknown" &&
+    !(type.endsWith("[]") && split(type, " | ").length === 1)
+
+  return `${printComment(schema, depth)}${"  ".repeat(depth)}${key}${
+    nested && !required ? "?" : ""
+  }: ${nullable ? addToUnion(type, "null") : type}`
+}
+
+function printComment(schema: JsonSchema, depth: number) {
+  const indent = "  ".repeat(depth)
+  const lines = [schema.title, schema.description]
+    .filter((text): text is string => typeof text === "string" && !!text)
+    .map((text) => text.replace(/\*\//g, "*\\/").replace(/\s+/g, " ").trim())
+
+  if (!lines.length) {
+    return ""
+  }
+
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`
+  }
+
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join(`\n${indent} *\n`)}\n${indent} */\n`
+}
+
+function printType(
+  schema: JsonSchema,
+  context: SchemaContext,
+  depth: number
+): string {
+  schema = resolve(schema, context)
+
+  if ("const" in schema) {
+    return JSON.stringify(schema.const)
+  }
+
+  if (schema.enum) {
+    return toUnion(schema.enum.map((value) => JSON.stringify(value)))
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    return toUnion(
+      (schema.oneOf ?? schema.anyOf).map((item) =>
+        printType(item, context, depth)
+      )
+    )
+  }
+
+  if (schema.allOf) {
+    return schema.allOf
+      .map((item) => wrapUnion(printType(item, context, depth)))
+      .join(" & ")
+  }
+
+  const types = toArray(
+    schema.type ?? (schema.properties ? "object" : undefined)
+  )
+  if (!types.length) {
+    return "unknown"
+  }
+
+  return toUnion(
+    types.map((type) => {
+      switch (type) {
+        case "string":
+        case "boolean":
+        case "null":
+          return type
+        case "integer":
+        case "number":
+          return "number"
+        case "array":
+          return `${wrapUnion(
+            schema.items ? printType(schema.items, context, depth) : "unknown"
+          )}[]`
+        case "object":
+          return printObjectType(schema, context, depth)
+        default:
+          return "unknown"
+      }
+    })
+  )
+}
+
+function printObjectType(
+  schema: JsonSchema,
+  context: SchemaContext,
+  depth: number
+) {
+  const properties = Object.entries(schema.properties ?? {})
+  if (!properties.length) {
+    return "Record<string, unknown>"
+  }
+
+  const members = properties.map(([name, property]) =>
+    printProperty(
+      name,
+      property,
+      printType(property, context, depth + 1),
+      depth + 1,
+      { required: schema.required?.includes(name), nested: true }
+    )
+  )
+
+  return `{\n${members.join("\n")}\n${"  ".repeat(depth)}}`
+}
+
+// Relationships are typed as the resources of the types they reference.
+function printRelationshipType(schema: JsonSchema, context: SchemaContext) {
+  const data = getMember(schema, "data", context)
+  const variants = flatten(data, context).filter(
+    (variant) => toArray(variant.type).join() !== "null"
+  )
+  const many = variants.some(
+    (variant) => variant.items || toArray(variant.type).includes("array")
+  )
+
+  const types = variants
+    .flatMap((variant) =>
+      flatten(variant.items ?? variant, context).map((item) =>
+        resolve(getMember(item, "type", context) ?? {}, context)
+      )
+    )
+    .flatMap((type) => ("const" in type ? [type.const] : type.enum ?? []))
+    .filter((type): type is string => typeof type === "string")
+
+  const names = [...new Set(types)].map(
+    (type) => context.names[type] ?? "JsonApiResource"
+  )
+
+  if (!names.length || names.includes("JsonApiResource")) {
+    context.usesJsonApiResource = true
+  }
+
+  const type = names.length ? toUnion(names) : "JsonApiResource"
+
+  return many ? `${wrapUnion(type)}[]` : type
+}
+
+// Returns a property of an object schema, or of the schemas it is composed
+// of, e.g. the attributes of a JSON:API Schema resource schema.
+function getMember(
+  schema: JsonSchema,
+  name: string,
+  context: SchemaContext
+): JsonSchema | undefined {
+  for (const item of flatten(schema, context)) {
+    const member = item.properties?.[name]
+
+    if (member) {
+      return resolve(member, context)
+    }
+  }
+
+  return undefined
+}
+
+// Returns the schema and the schemas it is composed of.
+function flatten(schema: JsonSchema, context: SchemaContext): JsonSchema[] {
+  if (!schema) {
+    return []
+  }
+
+  schema = resolve(schema, context)
+
+  return [
+    schema,
+    ...[
+      ...(schema.allOf ?? []),
+      ...(schema.oneOf ?? []),
+      ...(schema.anyOf ?? []),
+    ].flatMap((item) => flatten(item, context)),
+  ]
+}
+
+// Resolves references to the document of the schema, e.g.
+// "#/definitions/attributes". Other references are not resolved.
+function resolve(schema: JsonSchema, context: SchemaContext): JsonSchema {
+  const seen = new Set<string>()
+
+  while (schema.$ref?.startsWith("#") && !seen.has(schema.$ref)) {
+    seen.add(schema.$ref)
+
+    const resolved = schema.$ref
+      .replace(/^#\/?/, "")
+      .split("/")
+      .filter(Boolean)
+      .reduce<JsonSchema>(
+        (value, key) => value?.[decodePointer(key)] as JsonSchema,
+        context.root
+      )
+
+    if (!resolved) {
+      return {}
+    }
+
+    schema = resolved
+  }
+
+  return schema
+}
+
+function decodePointer(key: string) {
+  return key.replace(/~1/g, "/").replace(/~0/g, "~")
+}
+
+function toPascalCase(type: string) {
+  return type
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("")
+}
+
+function toUnion(types: string[]) {
+  return [...new Set(types)].join(" | ")
+}
+
+function addToUnion(type: string, member: string) {
+  return split(type, " | ").includes(member) ? type : `${type} | ${member}`
+}
+
+function wrapUnion(type: string) {
+  return split(type, " | ").length > 1 || split(type, " & ").length > 1
+    ? `(${type})`
+    : type
+}
+
+// Splits a union or an intersection into its members, ignoring the types of
+// the properties of object types.
+function split(type: string, separator: " | " | " & ") {
+  const members = [""]
+  let depth = 0
+
+  for (const part of type.split(/( \| | & |[{}()])/)) {
+    if (part === "{" || part === "(") {
+      depth++
+    } else if (part === "}" || part === ")") {
+      depth--
+    }
+
+    if (part === separator && !depth) {
+      members.push("")
+    } else {
+      members[members.length - 1] += part
+    }
+  }
+
+  return members
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : ([] as T[]).concat(value)
+}
@@ -1,8 +1,21 @@
+export * from "./batch"
+export * from "./cache-tags"
 export * from "./draft-constants"
+export * from "./errors"
+export * from "./generate-types"
 export * from "./jsonapi-errors"
+export * from "./jsonapi-params"
+export * from "./metadata"
 export * from "./next-drupal-base"
 export * from "./next-drupal"
 export * from "./next-drupal-pages"
+export * from "./redirect-helpers"
+export * from "./request-queue"
+export * from "./resource-loader"
+export * from "./signature"
+export * from "./sitemap"
+export * from "./subrequests"
+export * from "./token-store"
 
 export type * from "./types"
 
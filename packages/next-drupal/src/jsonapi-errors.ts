@@ -5,27 +5,55 @@ export interface JsonApiError {
   code?: string
   title?: string
   detail?: string
+  source?: JsonApiErrorSource
+  meta?: Record<string, unknown>
   links?: JsonApiLinks
 }
 
+export interface JsonApiErrorSource {
+  // A JSON Pointer to the value in the request body, e.g. "/data/attributes/title".
+  pointer?: string
+  parameter?: string
+  header?: string
+}
+
 // https://jsonapi.org/format/#document-links
 export interface JsonApiLinks {
   [key: string]: string | Record<string, string>
 }
 
+export interface JsonApiErrorsOptions {
+  // The URL of the request that failed.
+  url?: string
+  // The method of the request that failed.
+  method?: string
+  // The number of seconds to wait before retrying a rate limited request.
+  retryAfter?: number
+  // The raw body of the response.
+  body?: string
+}
+
 export class JsonApiErrors extends Error {
   errors: JsonApiError[] | string
   statusCode: number
+  url?: string
+  method?: string
+  body?: string
 
   constructor(
     errors: JsonApiError[] | string,
     statusCode: number,
-    messagePrefix: string = ""
+    messagePrefix: string = "",
+    { url, method, body }: JsonApiErrorsOptions = {}
   ) {
     super()
 
+    this.name = "JsonApiErrors"
     this.errors = errors
     this.statusCode = statusCode
+    this.url = url
+    this.method = method
+    this.body = body
     this.message =
       (messagePrefix ? `${messagePrefix} ` : "") +
       JsonApiErrors.formatMessage(errors)
@@ -36,14 +64,122 @@ export class JsonApiErrors extends Error {
       return errors
     }
 
-    const [error] = errors
+    return errors
+      .map((error) => {
+        let message = `${error.status} ${error.title}`
+
+        if (error.detail) {
+          message += `\n${error.detail}`
+        }
+
+        return message
+      })
+      .join("\n")
+  }
+
+  /**
+   * Creates the error class matching the status code, e.g. a NotFoundError
+   * for a 404 response.
+   *
+   * @param {JsonApiError[] | string} errors The errors, or an error message.
+   * @param {number} statusCode The status code of the response.
+   * @param {string} messagePrefix A prefix for the error message.
+   * @param {JsonApiErrorsOptions} options The request that failed.
+   * @returns {JsonApiErrors} The error.
+   */
+  static create(
+    errors: JsonApiError[] | string,
+    statusCode: number,
+    messagePrefix: string = "",
+    options: JsonApiErrorsOptions = {}
+  ): JsonApiErrors {
+    const ErrorClass =
+      {
+        401: UnauthorizedError,
+        403: ForbiddenError,
+        404: NotFoundError,
+        422: ValidationError,
+        429: RateLimitError,
+      }[statusCode] ?? (statusCode >= 500 ? ServerError : JsonApiErrors)
+
+    return new ErrorClass(errors, statusCode, messagePrefix, options)
+  }
+}
+
+export class UnauthorizedError extends JsonApiErrors {
+  name = "UnauthorizedError"
+}
+
+export class ForbiddenError extends JsonApiErrors {
+  name = "ForbiddenError"
+}
+
+export class NotFoundError extends JsonApiErrors {
+  name = "NotFoundError"
+}
 
-    let message = `${error.status} ${error.title}`
+export class ValidationError extends JsonApiErrors {
+  name = "ValidationError"
 
-    if (error.detail) {
-      message += `\n${error.detail}`
+  /**
+   * The error messages by field, using the source pointer of each error, e.g.
+   * `{ title: ["This value should not be null."] }`.
+   */
+  get fieldErrors(): Record<string, string[]> {
+    const fieldErrors: Record<string, string[]> = {}
+
+    for (const error of typeof this.errors === "string" ? [] : this.errors) {
+      const [, field] =
+        error.source?.pointer?.match(
+          /^\/data\/(?:attributes|relationships)\/(.+)$/
+        ) ?? []
+
+      if (!field) {
+        continue
+      }
+
+      const name = field.split("/").join(".")
+      let message = error.detail ?? error.title ?? ""
+
+      // Drupal prefixes the message with the property path, e.g. "body.0.value: ".
+      const [prefix, path] = message.match(/^([\w.]+): /) ?? []
+      if (path?.split(".")[0] === name.split(".")[0]) {
+        message = message.slice(prefix.length)
+      }
+
+      fieldErrors[name] = [...(fieldErrors[name] ?? []), message]
     }
 
-    return message
+    return fieldErrors
+  }
+}
+
+export class RateLimitError extends JsonApiErrors {
+  name = "RateLimitError"
+  retryAfter?: number
+
+  constructor(
+    errors: JsonApiError[] | string,
+    statusCode: number,
+    messagePrefix: string = "",
+    options: JsonApiErrorsOptions = {}
+  ) {
+    super(errors, statusCode, messagePrefix, options)
+
+    this.retryAfter = options.retryAfter
   }
 }
+
+export class ServerError extends JsonApiErrors {
+  name = "ServerError"
+}
+
+// Checks the properties of the error, since the error classes of the
+// separate package entries, e.g. next-drupal/draft, are not the same.
+export function isJsonApiError(error: unknown): error is JsonApiErrors {
+  return (
+    error instanceof Error &&
+    typeof (error as JsonApiErrors).statusCode === "number" &&
+    "errors" in error
+  )
+}
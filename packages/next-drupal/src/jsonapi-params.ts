@@ -0,0 +1,293 @@
+import type {
+  JsonApiFilterConjunction,
+  JsonApiFilterOperator,
+  JsonApiFilterValue,
+  JsonApiParams,
+  JsonApiParamsObject,
+  JsonApiSortDirection,
+} from "./types"
+
+export const JSONAPI_FILTER_OPERATORS: JsonApiFilterOperator[] = [
+  "=",
+  "<>",
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "STARTS_WITH",
+  "CONTAINS",
+  "ENDS_WITH",
+  "IN",
+  "NOT IN",
+  "BETWEEN",
+  "NOT BETWEEN",
+  "IS NULL",
+  "IS NOT NULL",
+]
+
+const ERROR_MESSAGE_SUFFIX =
+  "See https://www.drupal.org/docs/core-modules-and-themes/core-modules/jsonapi-module/filtering"
+
+interface FilterCondition {
+  path: string
+  value?: JsonApiFilterValue
+  operator: JsonApiFilterOperator
+  memberOf?: string
+}
+
+interface FilterGroup {
+  conjunction: JsonApiFilterConjunction
+  memberOf?: string
+}
+
+// A fluent builder for JSON:API query params. Instances can be passed
+// directly to the `params` option of every NextDrupal method.
+export class JsonApiParamsBuilder {
+  private _filters = new Map<string, FilterCondition>()
+  private _groups = new Map<string, FilterGroup>()
+  private _include = new Set<string>()
+  private _fields = new Map<string, string[]>()
+  private _sort: string[] = []
+  private _page: { limit?: number; offset?: number } = {}
+  private _resourceVersion?: string
+  private _custom: JsonApiParamsObject = {}
+
+  addFilter(
+    path: string,
+    value?: JsonApiFilterValue,
+    operator: JsonApiFilterOperator = "=",
+    memberOf?: string
+  ) {
+    validateFilter(path, value, operator)
+
+    // Conditions are keyed by path. Repeated paths get a numbered key.
+    let key = path
+    for (let i = 2; this._filters.has(key) || this._groups.has(key); i++) {
+      key = `${path}_${i}`
+    }
+
+    this._filters.set(key, { path, value, operator, memberOf })
+
+    return this
+  }
+
+  addGroup(
+    name: string,
+    conjunction: JsonApiFilterConjunction = "AND",
+    memberOf?: string
+  ) {
+    if (conjunction !== "AND" && conjunction !== "OR") {
+      throw new Error(
+        `'${conjunction}' is not a valid filter group conjunction. Use 'AND' or 'OR'.`
+      )
+    }
+
+    if (this._groups.has(name) || this._filters.has(name)) {
+      throw new Error(`A filter named '${name}' has already been added.`)
+    }
+
+    this._groups.set(name, { conjunction, memberOf })
+
+    return this
+  }
+
+  addInclude(fields: string | string[]) {
+    for (const field of Array.isArray(fields) ? fields : [fields]) {
+      this._include.add(field)
+    }
+
+    return this
+  }
+
+  addFields(type: string, fields: string[]) {
+    this._fields.set(type, [...(this._fields.get(type) ?? []), ...fields])
+
+    return this
+  }
+
+  addSort(path: string, direction: JsonApiSortDirection = "ASC") {
+    if (direction !== "ASC" && direction !== "DESC") {
+      throw new Error(
+        `'${direction}' is not a valid sort direction. Use 'ASC' or 'DESC'.`
+      )
+    }
+
+    this._sort.push(direction === "DESC" ? `-${path}` : path)
+
+    return this
+  }
+
+  addPageLimit(limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`The page limit must be a positive integer.`)
+    }
+
+    this._page.limit = limit
+
+    return this
+  }
+
+  addPageOffset(offset: number) {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`The page offset must be a non-negative integer.`)
+    }
+
+    this._page.offset = offset
+
+    return this
+  }
+
+  addResourceVersion(resourceVersion: string) {
+    this._resourceVersion = resourceVersion
+
+    return this
+  }
+
+  addCustomParam(params: JsonApiParamsObject) {
+    this._custom = { ...this._custom, ...params }
+
+    return this
+  }
+
+  getQueryObject(): JsonApiParamsObject {
+    const query: JsonApiParamsObject = {}
+
+    for (const [name, group] of this._groups) {
+      this.validateMemberOf(name, group.memberOf)
+
+      query[`filter[${name}][group][conjunction]`] = group.conjunction
+
+      if (group.memberOf) {
+        query[`filter[${name}][group][memberOf]`] = group.memberOf
+      }
+    }
+
+    for (const [key, { path, value, operator, memberOf }] of this._filters) {
+      this.validateMemberOf(key, memberOf)
+
+      // Use the shorthand syntax for simple equality conditions.
+      if (operator === "=" && !memberOf && key === path) {
+        query[`filter[${path}]`] = value
+        continue
+      }
+
+      query[`filter[${key}][condition][path]`] = path
+      query[`filter[${key}][condition][operator]`] = operator
+
+      if (operator !== "IS NULL" && operator !== "IS NOT NULL") {
+        query[`filter[${key}][condition][value]`] = value
+      }
+
+      if (memberOf) {
+        query[`filter[${key}][condition][memberOf]`] = memberOf
+      }
+    }
+
+    if (this._include.size) {
+      query.include = [...this._include].join(",")
+    }
+
+    for (const [type, fields] of this._fields) {
+      query[`fields[${type}]`] = fields.join(",")
+    }
+
+    if (this._sort.length) {
+      query.sort = this._sort.join(",")
+    }
+
+    if (this._page.limit !== undefined) {
+      query["page[limit]"] = this._page.limit
+    }
+
+    if (this._page.offset !== undefined) {
+      query["page[offset]"] = this._page.offset
+    }
+
+    if (this._resourceVersion) {
+      query.resourceVersion = this._resourceVersion
+    }
+
+    return { ...query, ...this._custom }
+  }
+
+  private validateMemberOf(name: string, memberOf?: string) {
+    if (memberOf && !this._groups.has(memberOf)) {
+      throw new Error(
+        `The filter '${name}' is a member of the unknown group '${memberOf}'. Add the group using addGroup().`
+      )
+    }
+  }
+}
+
+// Returns the plain query object for params passed to the client. Includes
+// and sparse fieldsets passed as arrays are joined.
+export function toJsonApiParamsObject(
+  params?: JsonApiParams
+): JsonApiParamsObject {
+  if (params && typeof params.getQueryObject === "function") {
+    return params.getQueryObject()
+  }
+
+  const query = params as JsonApiParamsObject
+
+  if (!Array.isArray(query?.include) && !query?.fields) {
+    return query
+  }
+
+  const { include, fields = {}, ...rest } = query
+
+  return {
+    ...rest,
+    ...(include !== undefined && { include: [].concat(include).join(",") }),
+    ...Object.fromEntries(
+      Object.entries(fields).map(([type, names]) => [
+        `fields[${type}]`,
+        [].concat(names).join(","),
+      ])
+    ),
+  }
+}
+
+function validateFilter(
+  path: string,
+  value: JsonApiFilterValue,
+  operator: JsonApiFilterOperator
+) {
+  if (!path) {
+    throw new Error(`A filter path is required.`)
+  }
+
+  if (!JSONAPI_FILTER_OPERATORS.includes(operator)) {
+    throw new Error(
+      `'${operator}' is not a valid filter operator for '${path}'. ${ERROR_MESSAGE_SUFFIX}`
+    )
+  }
+
+  if (operator === "IS NULL" || operator === "IS NOT NULL") {
+    return
+  }
+
+  if (operator === "IN" || operator === "NOT IN") {
+    if (!Array.isArray(value) || !value.length) {
+      throw new Error(
+        `The '${operator}' operator for '${path}' requires a non-empty array value. ${ERROR_MESSAGE_SUFFIX}`
+      )
+    }
+    return
+  }
+
+  if (operator === "BETWEEN" || operator === "NOT BETWEEN") {
+    if (!Array.isArray(value) || value.length !== 2) {
+      throw new Error(
+        `The '${operator}' operator for '${path}' requires an array value with two items. ${ERROR_MESSAGE_SUFFIX}`
+      )
+    }
+    return
+  }
+
+  if (value === undefined || value === null || Array.isArray(value)) {
+    throw new Error(
+      `The '${operator}' operator for '${path}' requires a single value. ${ERROR_MESSAGE_SUFFIX}`
+    )
+  }
+}
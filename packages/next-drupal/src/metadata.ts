@@ -0,0 +1,269 @@
+import { createElement } from "react"
+import type { Metadata } from "next"
+import type { ReactElement } from "react"
+import type { DrupalMetatag, NextMetadataOptions } from "./types"
+
+interface MetatagResource {
+  title?: string
+  metatag?: DrupalMetatag[] | null
+}
+
+// Metatags whose content is a URL.
+const URL_METATAGS = [
+  "og:url",
+  "og:image",
+  "og:image:url",
+  "og:image:secure_url",
+  "twitter:image",
+]
+
+const OPEN_GRAPH_PROPERTIES = {
+  "og:title": "title",
+  "og:description": "description",
+  "og:url": "url",
+  "og:site_name": "siteName",
+  "og:type": "type",
+  "og:locale": "locale",
+  "article:published_time": "publishedTime",
+  "article:modified_time": "modifiedTime",
+  "article:expiration_time": "expirationTime",
+  "article:section": "section",
+}
+
+// Open Graph properties with more than one value.
+const OPEN_GRAPH_LISTS = {
+  "og:locale:alternate": "alternateLocale",
+  "article:author": "authors",
+  "article:tag": "tags",
+}
+
+// Structured properties of the previous og:image, e.g. og:image:width.
+const OPEN_GRAPH_IMAGE_PROPERTIES = {
+  "og:image:secure_url": "secureUrl",
+  "og:image:type": "type",
+  "og:image:width": "width",
+  "og:image:height": "height",
+  "og:image:alt": "alt",
+}
+
+const TWITTER_PROPERTIES = {
+  "twitter:card": "card",
+  "twitter:title": "title",
+  "twitter:description": "description",
+  "twitter:site": "site",
+  "twitter:site:id": "siteId",
+  "twitter:creator": "creator",
+  "twitter:creator:id": "creatorId",
+}
+
+// The props of HTML attributes that React names differently.
+const REACT_PROPS = {
+  charset: "charSet",
+  crossorigin: "crossOrigin",
+  hreflang: "hrefLang",
+  "http-equiv": "httpEquiv",
+}
+
+/**
+ * Converts the `metatag` field of a resource to the metadata of a page, e.g.
+ * for `generateMetadata` in the App Router. The title of the resource is used
+ * if it has no title metatag.
+ *
+ * @param {MetatagResource} resource The resource.
+ * @param {NextMetadataOptions} options Options for the metadata.
+ * @returns {Metadata} The metadata.
+ */
+export function toNextMetadata(
+  resource: MetatagResource,
+  options: NextMetadataOptions = {}
+): Metadata {
+  const metadata: Metadata = {}
+  const languages: Record<string, string> = {}
+  const openGraph: Record<string, unknown> = {}
+  const openGraphImages: Record<string, unknown>[] = []
+  const twitter: Record<string, unknown> = {}
+  const twitterImages: Record<string, unknown>[] = []
+  const other: Record<string, string> = {}
+  let canonical: string
+
+  for (const { tag, attributes } of getMetatags(resource, options)) {
+    if (tag === "link") {
+      if (attributes.rel === "canonical") {
+        canonical = attributes.href
+      } else if (attributes.rel === "alternate" && attributes.hreflang) {
+        languages[attributes.hreflang] = attributes.href
+      }
+      continue
+    }
+
+    const name = attributes.name ?? attributes.property
+    const content = attributes.content
+
+    if (tag !== "meta" || !name || content === undefined) {
+      continue
+    }
+
+    if (name === "og:image" || name === "og:image:url") {
+      openGraphImages.push({ url: content })
+    } else if (name in OPEN_GRAPH_IMAGE_PROPERTIES) {
+      setImageProperty(
+        openGraphImages,
+        OPEN_GRAPH_IMAGE_PROPERTIES[name],
+        content
+      )
+    } else if (name in OPEN_GRAPH_PROPERTIES) {
+      openGraph[OPEN_GRAPH_PROPERTIES[name]] = content
+    } else if (name in OPEN_GRAPH_LISTS) {
+      const key = OPEN_GRAPH_LISTS[name]
+      openGraph[key] = [...((openGraph[key] as string[]) ?? []), content]
+    } else if (name === "twitter:image") {
+      twitterImages.push({ url: content })
+    } else if (name === "twitter:image:alt") {
+      setImageProperty(twitterImages, "alt", content)
+    } else if (name in TWITTER_PROPERTIES) {
+      twitter[TWITTER_PROPERTIES[name]] = content
+    } else if (name === "title" || name === "description") {
+      metadata[name] = content
+    } else if (name === "robots") {
+      metadata.robots = content
+    } else if (name === "keywords") {
+      metadata.keywords = content.split(",").map((keyword) => keyword.trim())
+    } else if (!/^(og|article|twitter):/.test(name)) {
+      other[name] = content
+    }
+  }
+
+  metadata.title ??= resource.title
+
+  if (canonical || Object.keys(languages).length) {
+    metadata.alternates = {
+      ...(canonical && { canonical }),
+      ...(Object.keys(languages).length && { languages }),
+    }
+  }
+
+  if (openGraphImages.length) {
+    openGraph.images = openGraphImages
+  }
+
+  if (Object.keys(openGraph).length) {
+    metadata.openGraph = openGraph as Metadata["openGraph"]
+  }
+
+  if (twitterImages.length) {
+    twitter.images = twitterImages
+  }
+
+  if (Object.keys(twitter).length) {
+    metadata.twitter = twitter as Metadata["twitter"]
+  }
+
+  if (Object.keys(other).length) {
+    metadata.other = other
+  }
+
+  return metadata
+}
+
+/**
+ * Converts the `metatag` field of a resource to the elements of the `<Head>`
+ * of a page, for the Pages Router.
+ *
+ * <Head>{toHeadElements(node, { baseUrl })}</Head>
+ *
+ * @param {MetatagResource} resource The resource.
+ * @param {NextMetadataOptions} options Options for the metadata.
+ * @returns {ReactElement[]} The elements.
+ */
+export function toHeadElements(
+  resource: MetatagResource,
+  options: NextMetadataOptions = {}
+): ReactElement[] {
+  const metatags = getMetatags(resource, options)
+  const title =
+    metatags.find(
+      ({ tag, attributes }) => tag === "meta" && attributes.name === "title"
+    )?.attributes.content ?? resource.title
+  const elements = title
+    ? [createElement("title", { key: "title" }, title)]
+    : []
+  const keys = new Set<string>()
+
+  for (const { tag, attributes } of metatags) {
+    if ((tag !== "meta" && tag !== "link") || attributes.name === "title") {
+      continue
+    }
+
+    // Next.js uses the keys to dedupe the elements of <Head>, so repeated
+    // tags, e.g. og:image, need a unique key.
+    const name = [
+      attributes.name ??
+        attributes.property ??
+        attributes["http-equiv"] ??
+        attributes.rel,
+      attributes.hreflang,
+    ]
+      .filter(Boolean)
+      .join(":")
+    let key = name
+    for (let i = 2; keys.has(key); i++) {
+      key = `${name}_${i}`
+    }
+    keys.add(key)
+
+    const props = Object.fromEntries(
+      Object.entries(attributes).map(([name, value]) => [
+        REACT_PROPS[name] ?? name,
+        value,
+      ])
+    )
+
+    elements.push(createElement(tag, { key, ...props }))
+  }
+
+  return elements
+}
+
+// Returns the metatags with absolute URLs.
+function getMetatags(
+  resource: MetatagResource,
+  { baseUrl }: NextMetadataOptions
+): DrupalMetatag[] {
+  return (resource.metatag ?? []).map(({ tag, attributes }) => {
+    const name = attributes.name ?? attributes.property
+
+    return {
+      tag,
+      attributes: {
+        ...attributes,
+        ...(attributes.href && { href: resolveUrl(attributes.href, baseUrl) }),
+        ...(URL_METATAGS.includes(name) &&
+          attributes.content && {
+            content: resolveUrl(attributes.content, baseUrl),
+          }),
+      },
+    }
+  })
+}
+
+function resolveUrl(url: string, baseUrl?: string) {
+  // Absolute and protocol-relative URLs are not changed.
+  if (!baseUrl || /^([a-z][a-z\d+.-]*:)?\/\//i.test(url)) {
+    return url
+  }
+
+  // Absolute paths, e.g. `/node/1`, are joined to the base path of the URL.
+  return new URL(url.replace(/^\//, ""), `${baseUrl.replace(/\/$/, "")}/`).href
+}
+
+function setImageProperty(
+  images: Record<string, unknown>[],
+  name: string,
+  value: string
+) {
+  const image = images[images.length - 1]
+
+  if (image) {
+    image[name] = name === "width" || name === "height" ? Number(value) : value
+  }
+}
@@ -0,0 +1,188 @@
+import { NextResponse } from "next/server"
+import { getRedirect, getRedirectStatusCode } from "./redirect-helpers"
+import type { NextRequest } from "next/server"
+import type { NextDrupalClient, RedirectMiddlewareOptions } from "./types"
+
+interface MiddlewareRedirect {
+  destination: string
+  statusCode: number
+}
+
+// Next.js assets, API routes and files, e.g. `/favicon.ico`.
+const SKIPPED_PATH = /^\/(_next|api)(\/|$)|\.[^/]+$/
+
+interface CachedRedirect {
+  // Pending translations are cached too, so that concurrent requests for a
+  // path translate it once.
+  redirect: Promise<MiddlewareRedirect | null>
+  expiresOn: number
+}
+
+/**
+ * Creates a middleware that redirects paths to their destination before they
+ * are routed, so that old paths do not render a page. Redirects of the
+ * Redirect module use their status code, and paths that are not the alias of
+ * their resource, e.g. `/node/1`, are redirected to the alias with a 301.
+ *
+ * The redirects of paths are cached in memory. Paths that fail to translate
+ * are routed without a redirect. Paths under `/_next` and `/api`, and paths
+ * with a file extension, are not translated unless `skipPath` is set.
+ *
+ * // middleware.ts
+ * export const middleware = createRedirectMiddleware(drupal)
+ *
+ * @param {NextDrupal} drupal The client.
+ * @param {RedirectMiddlewareOptions} options Options for the middleware.
+ * @returns {Function} The middleware.
+ */
+export function createRedirectMiddleware(
+  drupal: NextDrupalClient,
+  {
+    withAuth = drupal.withAuth,
+    timeout,
+    cacheSize = 1000,
+    cacheTtl = 60,
+    redirectAliases = true,
+    skipPath = (pathname) => SKIPPED_PATH.test(pathname),
+  }: RedirectMiddlewareOptions = {}
+): (request: NextRequest) => Promise<NextResponse | undefined> {
+  // The redirects of paths, from the least to the most recently used.
+  const cache = new Map<string, CachedRedirect>()
+  // The paths of Drupal have its base path, e.g. `/drupal`.
+  const drupalBasePath = new URL(drupal.baseUrl).pathname.replace(/\/$/, "")
+
+  // Returns the destination of a redirect from the path, or null if the
+  // destination is the path itself.
+  function getDestination(path: string, destination: string) {
+    if (/^https?:\/\//.test(destination)) {
+      return destination
+    }
+
+    const [, pathname, rest] = destination.match(/^([^?#]*)(.*)$/)
+    let sitePath = pathname
+    if (drupalBasePath && `${pathname}/`.startsWith(`${drupalBasePath}/`)) {
+      sitePath = pathname.slice(drupalBasePath.length) || "/"
+    }
+
+    // Paths are compared without their trailing slash, which Next.js adds or
+    // removes depending on `trailingSlash`.
+    if (decodeURI(trimSlash(sitePath)) === decodeURI(trimSlash(path))) {
+      return null
+    }
+
+    // Keep the trailing slash of the path, so that Next.js does not redirect
+    // again.
+    if (path.length > 1 && path.endsWith("/")) {
+      sitePath = `${trimSlash(sitePath)}/`
+    }
+
+    return `${sitePath}${rest}`
+  }
+
+  async function translate(path: string): Promise<MiddlewareRedirect | null> {
+    const translatedPath = await drupal.translatePath(path, {
+      withAuth,
+      timeout,
+    })
+    const redirect = getRedirect(translatedPath)
+
+    if (redirect) {
+      const destination = getDestination(path, redirect.to)
+
+      return (
+        destination && {
+          destination,
+          statusCode: getRedirectStatusCode(redirect.status),
+        }
+      )
+    }
+
+    // The front page is routed at "/", and not at its alias.
+    if (
+      !redirectAliases ||
+      !translatedPath?.entity ||
+      translatedPath.isHomePath
+    ) {
+      return null
+    }
+
+    // The resolved URL has the alias of the resource.
+    const destination = getDestination(
+      path,
+      new URL(translatedPath.resolved).pathname
+    )
+
+    return destination && { destination, statusCode: 301 }
+  }
+
+  function getRedirectOfPath(path: string) {
+    const cached = cache.get(path)
+    cache.delete(path)
+
+    if (cached && cached.expiresOn > Date.now()) {
+      cache.set(path, cached)
+      return cached.redirect
+    }
+
+    const redirect = translate(path)
+    cache.set(path, { redirect, expiresOn: Date.now() + cacheTtl * 1000 })
+
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value)
+    }
+
+    // Failed translations are not cached, so that they are tried again.
+    redirect.catch(() => {
+      if (cache.get(path)?.redirect === redirect) {
+        cache.delete(path)
+      }
+    })
+
+    return redirect
+  }
+
+  return async (request) => {
+    const { basePath, locale, defaultLocale, pathname, search } =
+      request.nextUrl
+
+    if (
+      (request.method !== "GET" && request.method !== "HEAD") ||
+      skipPath(pathname)
+    ) {
+      return
+    }
+
+    // The Pages Router removes the locale from the pathname.
+    const prefix = locale && locale !== defaultLocale ? `/${locale}` : ""
+    const path = `${prefix}${pathname}`
+
+    let redirect: MiddlewareRedirect | null
+    try {
+      redirect = await getRedirectOfPath(path)
+    } catch (error) {
+      drupal.logger.error(
+        `Failed to resolve the redirect of ${path}: ${error.message}`
+      )
+      return
+    }
+
+    if (!redirect) {
+      return
+    }
+
+    const url = new URL(
+      /^https?:\/\//.test(redirect.destination)
+        ? redirect.destination
+        : `${basePath}${redirect.destination}`,
+      request.url
+    )
+    // Keep the query of the request, e.g. for tracking params.
+    url.search ||= search
+
+    return NextResponse.redirect(url, redirect.statusCode)
+  }
+}
+
+function trimSlash(path: string) {
+  return path.length > 1 ? path.replace(/\/$/, "") : path
+}
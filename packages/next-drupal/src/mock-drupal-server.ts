@@ -0,0 +1,1145 @@
+import { randomUUID } from "node:crypto"
+import { once } from "node:events"
+import { createServer } from "node:http"
+import { parse } from "qs"
+import type { IncomingMessage, Server, ServerResponse } from "node:http"
+import type {
+  DrupalTranslatedPath,
+  Fetcher,
+  Locale,
+  MockDrupalDocument,
+  MockDrupalMenuItem,
+  MockDrupalRedirect,
+  MockDrupalResource,
+  MockDrupalResourceIdentifier,
+  MockDrupalServerOptions,
+} from "./types"
+
+// Drupal returns at most 50 resources per page.
+const MAX_PAGE_LIMIT = 50
+
+const JSON_API_CONTENT_TYPE = "application/vnd.api+json"
+
+const STATUS_TEXTS = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  409: "Conflict",
+}
+
+type Query = ReturnType<typeof parse>
+
+interface RequestContext {
+  request: Request
+  url: URL
+  // The locale prefix of the path, e.g. "/es", or "".
+  prefix: string
+  locale: Locale
+  query: Query
+  authenticated: boolean
+}
+
+interface FilterCondition {
+  path: string
+  operator: string
+  value?: unknown
+  memberOf?: string
+}
+
+interface FilterGroup {
+  conjunction: string
+  memberOf?: string
+}
+
+interface Subresponse {
+  headers: Record<string, unknown[]>
+  body: string
+}
+
+/**
+ * An in-memory Drupal site for tests, serving JSON:API resources, menus,
+ * views, translated paths, access tokens and subrequests.
+ *
+ * const server = new MockDrupalServer({ resources })
+ * const drupal = new NextDrupal("https://drupal.test", {
+ *   fetcher: server.fetch,
+ * })
+ *
+ * Use listen() to serve the site over HTTP, e.g. to a Next.js site.
+ */
+export class MockDrupalServer {
+  defaultLocale: Locale
+
+  frontPage: string
+
+  menus: Record<string, MockDrupalMenuItem[]>
+
+  views: Record<string, MockDrupalResourceIdentifier[]>
+
+  redirects: MockDrupalRedirect[]
+
+  private _auth: MockDrupalServerOptions["auth"]
+
+  private _resources: MockDrupalResource[] = []
+
+  private _accessTokens = new Set<string>()
+
+  private _server?: Server
+
+  constructor({
+    resources = [],
+    menus = {},
+    views = {},
+    redirects = [],
+    defaultLocale = "en",
+    frontPage = "/home",
+    auth,
+  }: MockDrupalServerOptions = {}) {
+    this.defaultLocale = defaultLocale
+    this.frontPage = frontPage
+    this.menus = menus
+    this.views = views
+    this.redirects = redirects
+    this._auth = auth
+
+    this.addResources(resources)
+  }
+
+  /**
+   * Adds resources, or the resources of JSON:API documents. Resources with
+   * the same type, id and langcode are replaced.
+   *
+   * @param {(MockDrupalResource | MockDrupalDocument)[]} resources The resources.
+   */
+  addResources(resources: (MockDrupalResource | MockDrupalDocument)[]) {
+    for (const item of resources) {
+      const items =
+        "data" in item
+          ? [...[].concat(item.data ?? []), ...(item.included ?? [])]
+          : [item as MockDrupalResource]
+
+      for (const resource of items) {
+        this._resources = this._resources.filter(
+          (existing) =>
+            !isSameResource(existing, resource) ||
+            getLangcode(existing) !== getLangcode(resource)
+        )
+        // Updates must not change the seeded resources.
+        this._resources.push(structuredClone(resource))
+      }
+    }
+  }
+
+  // A fetcher for the server, see the `fetcher` option of the client.
+  fetch: Fetcher = async (input, init) => this.handle(new Request(input, init))
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const [, segment] = url.pathname.split("/")
+    const prefix = this.getLocales().includes(segment) ? `/${segment}` : ""
+    const path = url.pathname.slice(prefix.length).replace(/\/$/, "")
+    const context: RequestContext = {
+      request,
+      url,
+      prefix,
+      locale: prefix ? segment : this.defaultLocale,
+      query: parse(url.search, { ignoreQueryPrefix: true, depth: 10 }),
+      authenticated: this.isAuthenticated(request),
+    }
+    const method = request.method
+
+    if (path === "/oauth/token" && method === "POST") {
+      return this.handleAccessToken(request)
+    }
+
+    if (path === "/router/translate-path" && method === "GET") {
+      return this.handleTranslatePath(context)
+    }
+
+    if (path === "/subrequests" && method === "POST") {
+      return this.handleSubrequests(context)
+    }
+
+    const [api, entityType, bundle, id, ...rest] = path.split("/").slice(1)
+
+    if (api !== "jsonapi" || rest.length) {
+      return errorResponse(404, `No route found for "${method} ${path}".`)
+    }
+
+    if (!entityType) {
+      return this.handleIndex(context)
+    }
+
+    if (entityType === "menu_items" && bundle && !id) {
+      return this.handleMenu(bundle)
+    }
+
+    if (entityType === "views" && bundle && id) {
+      return this.handleView(`${bundle}--${id}`, context)
+    }
+
+    const type = `${entityType}--${bundle}`
+
+    if (!id && method === "GET") {
+      return this.handleCollection(type, context)
+    }
+
+    if (!id && method === "POST") {
+      return this.handleCreate(type, context)
+    }
+
+    if (id && method === "GET") {
+      return this.handleResource(type, id, context)
+    }
+
+    if (id && method === "PATCH") {
+      return this.handleUpdate(type, id, context)
+    }
+
+    if (id && method === "DELETE") {
+      return this.handleDelete(type, id)
+    }
+
+    return errorResponse(405, `The "${method}" method is not allowed.`)
+  }
+
+  /**
+   * Serves the site over HTTP.
+   *
+   * @param {number} port The port. Defaults to a random port.
+   * @returns {Promise<string>} The base URL of the site.
+   */
+  async listen(port = 0): Promise<string> {
+    this._server = createServer((request, response) => {
+      this.handleHttpRequest(request, response).catch((error) => {
+        response.statusCode = 500
+        response.end(error.message)
+      })
+    })
+
+    await new Promise<void>((resolve) =>
+      this._server.listen(port, "127.0.0.1", resolve)
+    )
+
+    const address = this._server.address() as { port: number }
+
+    return `http://127.0.0.1:${address.port}`
+  }
+
+  async close() {
+    const server = this._server
+    this._server = undefined
+
+    if (server) {
+      server.close()
+      await once(server, "close")
+    }
+  }
+
+  private async handleHttpRequest(
+    incoming: IncomingMessage,
+    outgoing: ServerResponse
+  ) {
+    // File uploads are not supported, so bodies are read as text.
+    let body = ""
+    for await (const chunk of incoming) {
+      body += chunk
+    }
+
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(incoming.headers)) {
+      headers.set(name, [].concat(value).join(", "))
+    }
+
+    const response = await this.handle(
+      new Request(`http://${incoming.headers.host}${incoming.url}`, {
+        method: incoming.method,
+        headers,
+        body: body || undefined,
+      })
+    )
+
+    outgoing.writeHead(
+      response.status,
+      response.statusText,
+      Object.fromEntries(response.headers)
+    )
+    outgoing.end(await response.text())
+  }
+
+  private async handleAccessToken(request: Request) {
+    const body = new URLSearchParams(await request.text())
+    const [clientId, clientSecret] = getBasicCredentials(request) ?? [
+      body.get("client_id"),
+      body.get("client_secret"),
+    ]
+
+    if (
+      this._auth &&
+      (clientId !== this._auth.clientId ||
+        clientSecret !== this._auth.clientSecret)
+    ) {
+      return jsonResponse(
+        {
+          error: "invalid_client",
+          error_description: "Client authentication failed",
+          message: "Client authentication failed",
+        },
+        401
+      )
+    }
+
+    const accessToken = randomUUID()
+    this._accessTokens.add(accessToken)
+
+    return jsonResponse({
+      token_type: "Bearer",
+      expires_in: 300,
+      access_token: accessToken,
+      ...(body.get("grant_type") !== "client_credentials" && {
+        refresh_token: randomUUID(),
+      }),
+    })
+  }
+
+  private handleTranslatePath(context: RequestContext) {
+    const path = String(context.query.path ?? "")
+    const pathname = new URL(path, context.url.origin).pathname
+    // Redirects are resolved to their destination, and listed in `redirect`.
+    const redirect = this.redirects.find(({ from }) => from === pathname)
+    const redirects = redirect && [
+      {
+        from: redirect.from,
+        to: redirect.to,
+        status: String(redirect.status ?? 301),
+      },
+    ]
+
+    if (/^https?:\/\//.test(redirect?.to)) {
+      return jsonResponse({ resolved: redirect.to, redirect: redirects })
+    }
+
+    const url = new URL(redirect?.to ?? path, context.url.origin)
+    const [, segment] = url.pathname.split("/")
+    const prefix = this.getLocales().includes(segment) ? `/${segment}` : ""
+    const locale = prefix ? segment : this.defaultLocale
+    const alias =
+      url.pathname.slice(prefix.length).replace(/^\/$/, "") || this.frontPage
+
+    // Resources are found by their alias, or their system path, e.g. /node/1.
+    const candidates = this._resources.filter(
+      (resource) =>
+        getAlias(resource) === alias || getSystemPath(resource) === alias
+    )
+    const resource =
+      candidates.find((candidate) => getLangcode(candidate) === locale) ??
+      candidates[0]
+
+    if (!resource || !this.canView(resource, context)) {
+      return jsonResponse(
+        {
+          message: `Unable to resolve path ${path}.`,
+          details:
+            "None of the available methods were able to find a match for this path.",
+        },
+        404
+      )
+    }
+
+    const [entityType, bundle] = resource.type.split("--")
+    const entityPath = getAlias(resource) ?? getSystemPath(resource)
+    const canonical = `${context.url.origin}${prefix}${entityPath}`
+    const translatedPath: DrupalTranslatedPath = {
+      resolved: canonical,
+      isHomePath: entityPath === this.frontPage,
+      entity: {
+        canonical,
+        type: entityType,
+        bundle,
+        id: String(getInternalId(resource) ?? resource.id),
+        uuid: resource.id,
+        langcode: getLangcode(resource),
+        path: entityPath,
+      },
+      label: (getAttribute(resource, "title") ??
+        getAttribute(resource, "name")) as string,
+      jsonapi: {
+        individual: `${context.url.origin}${prefix}/jsonapi/${entityType}/${bundle}/${resource.id}`,
+        resourceName: resource.type,
+        pathPrefix: "jsonapi",
+        basePath: "/jsonapi",
+        entryPoint: `${context.url.origin}/jsonapi`,
+      },
+      ...(redirects && { redirect: redirects }),
+    }
+
+    return jsonResponse(translatedPath, 200, getCacheTags([resource]))
+  }
+
+  private handleIndex(context: RequestContext) {
+    const base = `${context.url.origin}${context.prefix}/jsonapi`
+    const types = [...new Set(this._resources.map(({ type }) => type))]
+
+    return jsonApiResponse({
+      data: [],
+      links: {
+        self: { href: base },
+        ...Object.fromEntries(
+          types.map((type) => [
+            type,
+            { href: `${base}/${type.replace("--", "/")}` },
+          ])
+        ),
+      },
+    })
+  }
+
+  private handleMenu(menuName: string) {
+    const items = this.menus[menuName]
+
+    if (!items) {
+      return errorResponse(404, `The menu "${menuName}" does not exist.`)
+    }
+
+    const data = items.map(({ id, ...attributes }) => ({
+      type: "menu_link_content--menu_link_content",
+      id,
+      attributes: {
+        description: null,
+        enabled: true,
+        expanded: false,
+        menu_name: menuName,
+        meta: {},
+        options: {},
+        parent: "",
+        provider: "menu_link_content",
+        route: { name: "", parameters: {} },
+        weight: "0",
+        ...attributes,
+      },
+    }))
+
+    return jsonApiResponse({ data }, 200, [`config:system.menu.${menuName}`])
+  }
+
+  private handleView(name: string, context: RequestContext) {
+    const identifiers = this.views[name]
+
+    if (!identifiers) {
+      return errorResponse(404, `The view "${name}" does not exist.`)
+    }
+
+    const resources = identifiers
+      .map(({ type, id }) => this.findResource(type, id, context.locale))
+      .filter((resource) => resource && this.canView(resource, context))
+
+    return jsonApiResponse(
+      {
+        ...this.getDocument(resources, context),
+        meta: { count: resources.length },
+        links: { self: { href: context.url.href } },
+      },
+      200,
+      [`config:views.view.${name.split("--")[0]}`, ...getCacheTags(resources)]
+    )
+  }
+
+  private handleCollection(type: string, context: RequestContext) {
+    const { filter, sort, page = {} } = context.query as Record<string, Query>
+    const ids = [
+      ...new Set(
+        this._resources
+          .filter((resource) => resource.type === type)
+          .map(({ id }) => id)
+      ),
+    ]
+
+    let resources = ids
+      .map((id) => this.findResource(type, id, context.locale))
+      .filter((resource) => this.canView(resource, context))
+
+    if (filter) {
+      const matches = this.createFilter(filter as Query, context)
+      resources = resources.filter(matches)
+    }
+
+    if (typeof sort === "string") {
+      resources = this.sortResources(resources, sort, context)
+    }
+
+    const limit = Math.min(Number(page.limit) || MAX_PAGE_LIMIT, MAX_PAGE_LIMIT)
+    const offset = Number(page.offset) || 0
+    const links: Record<string, { href: string }> = {
+      self: { href: context.url.href },
+    }
+
+    if (offset + limit < resources.length) {
+      const next = new URL(context.url)
+      next.searchParams.set("page[offset]", String(offset + limit))
+      next.searchParams.set("page[limit]", String(limit))
+      links.next = { href: next.href }
+    }
+
+    const data = resources.slice(offset, offset + limit)
+
+    return jsonApiResponse({ ...this.getDocument(data, context), links }, 200, [
+      `${type.split("--")[0]}_list`,
+      ...getCacheTags(data),
+    ])
+  }
+
+  private handleResource(type: string, id: string, context: RequestContext) {
+    const resource = this.findResource(type, id, context.locale)
+
+    if (!resource) {
+      return errorResponse(
+        404,
+        `The "${type.split("--")[0]}" entity with ID "${id}" does not exist.`
+      )
+    }
+
+    if (!this.canView(resource, context)) {
+      return errorResponse(
+        403,
+        `The current user is not allowed to GET the selected resource.`
+      )
+    }
+
+    const document = this.getDocument(resource, context)
+
+    return jsonApiResponse(
+      document,
+      200,
+      getCacheTags([resource, ...document.included])
+    )
+  }
+
+  private async handleCreate(type: string, context: RequestContext) {
+    const { data } = JSON.parse(await context.request.text())
+
+    if (data?.type !== type) {
+      return errorResponse(
+        409,
+        `The provided type (${data?.type}) does not match the destination resource types (${type}).`
+      )
+    }
+
+    const resource: MockDrupalResource = {
+      type,
+      id: data.id ?? randomUUID(),
+      attributes: { langcode: context.locale, ...data.attributes },
+      relationships: data.relationships ?? {},
+    }
+
+    this.addResources([resource])
+
+    return jsonApiResponse(this.getDocument(resource, context), 201)
+  }
+
+  private async handleUpdate(
+    type: string,
+    id: string,
+    context: RequestContext
+  ) {
+    const resource = this.findResource(type, id, context.locale)
+
+    if (!resource) {
+      return errorResponse(
+        404,
+        `The "${type.split("--")[0]}" entity with ID "${id}" does not exist.`
+      )
+    }
+
+    const { data } = JSON.parse(await context.request.text())
+
+    resource.attributes = { ...resource.attributes, ...data?.attributes }
+    resource.relationships = {
+      ...resource.relationships,
+      ...data?.relationships,
+    }
+
+    return jsonApiResponse(this.getDocument(resource, context))
+  }
+
+  private handleDelete(type: string, id: string) {
+    if (!this.findResource(type, id, this.defaultLocale)) {
+      return errorResponse(
+        404,
+        `The "${type.split("--")[0]}" entity with ID "${id}" does not exist.`
+      )
+    }
+
+    this._resources = this._resources.filter(
+      (resource) => !isSameResource(resource, { type, id })
+    )
+
+    return new Response(null, { status: 204 })
+  }
+
+  // Sends the requests of a blueprint in order, see
+  // https://www.drupal.org/project/subrequests.
+  private async handleSubrequests(context: RequestContext) {
+    const blueprint = JSON.parse(await context.request.text())
+    const responses: Record<string, Subresponse[]> = {}
+    const json: Record<string, Subresponse> = {}
+
+    for (const {
+      requestId,
+      action = "view",
+      uri,
+      body,
+      headers = {},
+      waitFor = [],
+    } of blueprint) {
+      // Requests are not sent if a request they wait for failed.
+      if (
+        waitFor.some(
+          (id: string) =>
+            !responses[id]?.length ||
+            responses[id].some(
+              ({ headers }) => Number(headers.status[0]) >= 400
+            )
+        )
+      ) {
+        continue
+      }
+
+      const uris = replaceSubrequestValues(uri, responses)
+      const bodies =
+        body === undefined
+          ? [undefined]
+          : replaceSubrequestValues(body, responses)
+      const key =
+        uris.length > 1 || uris[0] !== uri
+          ? "uri"
+          : bodies[0] !== body
+            ? "body"
+            : null
+
+      responses[requestId] = []
+
+      for (const [index, requestUri] of uris.entries()) {
+        for (const requestBody of bodies) {
+          const response = await this.handle(
+            new Request(new URL(requestUri, context.url.origin), {
+              method: SUBREQUEST_METHODS[action],
+              headers: {
+                ...Object.fromEntries(context.request.headers),
+                ...headers,
+              },
+              body: requestBody,
+            })
+          )
+          const subresponse = {
+            headers: {
+              status: [response.status],
+              ...Object.fromEntries(
+                [...response.headers].map(([name, value]) => [name, [value]])
+              ),
+            },
+            body: await response.text(),
+          }
+
+          responses[requestId].push(subresponse)
+          json[key ? `${requestId}#${key}{${index}}` : requestId] = subresponse
+        }
+      }
+    }
+
+    return jsonResponse(json, 207)
+  }
+
+  // Returns the resource in a locale, or in the default language if it has
+  // no translation.
+  private findResource(type: string, id: string, locale: Locale) {
+    const translations = this._resources.filter((resource) =>
+      isSameResource(resource, { type, id })
+    )
+
+    return (
+      translations.find((resource) => getLangcode(resource) === locale) ??
+      translations.find(
+        (resource) => getAttribute(resource, "default_langcode") !== false
+      ) ??
+      translations[0]
+    )
+  }
+
+  // Unpublished resources are only visible to authenticated requests.
+  private canView(resource: MockDrupalResource, context: RequestContext) {
+    return getAttribute(resource, "status") !== false || context.authenticated
+  }
+
+  private isAuthenticated(request: Request) {
+    const authorization = request.headers.get("authorization")
+
+    if (!authorization) {
+      return false
+    }
+
+    if (!this._auth) {
+      return true
+    }
+
+    const [clientId, clientSecret] = getBasicCredentials(request) ?? []
+
+    return (
+      this._accessTokens.has(authorization.replace(/^Bearer /, "")) ||
+      (clientId === this._auth.clientId &&
+        clientSecret === this._auth.clientSecret)
+    )
+  }
+
+  private getLocales() {
+    return [
+      ...new Set([
+        this.defaultLocale,
+        ...this._resources.map(getLangcode).filter(Boolean),
+      ]),
+    ]
+  }
+
+  private getDocument(
+    data: MockDrupalResource | MockDrupalResource[],
+    context: RequestContext
+  ) {
+    const resources = [].concat(data)
+    const include =
+      typeof context.query.include === "string"
+        ? context.query.include.split(",").filter(Boolean)
+        : []
+    const included = new Map<string, MockDrupalResource>()
+
+    for (const path of include) {
+      let current = resources
+
+      for (const field of path.split(".")) {
+        current = current
+          .flatMap((resource) => getRelated(resource, field))
+          .map(({ type, id }) => this.findResource(type, id, context.locale))
+          .filter((resource) => resource && this.canView(resource, context))
+
+        for (const resource of current) {
+          if (!resources.some((item) => isSameResource(item, resource))) {
+            included.set(`${resource.type}:${resource.id}`, resource)
+          }
+        }
+      }
+    }
+
+    const format = (resource: MockDrupalResource) =>
+      this.formatResource(resource, context)
+
+    return {
+      jsonapi: { version: "1.0", meta: { links: {} } },
+      data: Array.isArray(data) ? resources.map(format) : format(data),
+      included: [...included.values()].map(format),
+    }
+  }
+
+  // Adds the links of the resource and applies sparse fieldsets.
+  private formatResource(
+    resource: MockDrupalResource,
+    context: RequestContext
+  ) {
+    const fields = (context.query.fields as Record<string, string>)?.[
+      resource.type
+    ]
+    const names = typeof fields === "string" ? fields.split(",") : null
+    const pick = <T>(values: Record<string, T> = {}) =>
+      names
+        ? Object.fromEntries(
+            Object.entries(values).filter(([name]) => names.includes(name))
+          )
+        : values
+
+    return {
+      type: resource.type,
+      id: resource.id,
+      links: {
+        self: {
+          href: `${context.url.origin}${context.prefix}/jsonapi/${resource.type.replace("--", "/")}/${resource.id}`,
+        },
+      },
+      attributes: pick(resource.attributes),
+      relationships: pick(resource.relationships),
+    }
+  }
+
+  // Returns a function matching the filter of a collection, see
+  // https://www.drupal.org/docs/core-modules-and-themes/core-modules/jsonapi-module/filtering.
+  private createFilter(filter: Query, context: RequestContext) {
+    const conditions = new Map<string, FilterCondition>()
+    const groups = new Map<string, FilterGroup>()
+
+    for (const [name, value] of Object.entries(filter)) {
+      // e.g. filter[status]=1 or filter[drupal_internal__nid][]=1
+      if (typeof value === "string" || Array.isArray(value)) {
+        const operator = Array.isArray(value) ? "IN" : "="
+        conditions.set(name, { path: name, operator, value })
+        continue
+      }
+
+      const { condition, group, ...shorthand } = value as {
+        condition?: Record<string, string>
+        group?: Record<string, string>
+        operator?: string
+        value?: string
+      }
+
+      if (condition) {
+        const { path = name, operator = "=", ...rest } = condition
+        conditions.set(name, { ...rest, path, operator })
+      } else if (group) {
+        const { conjunction = "AND", memberOf } = group
+        groups.set(name, { conjunction: conjunction.toUpperCase(), memberOf })
+      } else if ("value" in shorthand) {
+        // e.g. filter[title][value]=Deep&filter[title][operator]=CONTAINS
+        const { operator = "=", value } = shorthand
+        conditions.set(name, { path: name, operator, value })
+      }
+    }
+
+    const matchesGroup = (
+      resource: MockDrupalResource,
+      group: string,
+      conjunction: string
+    ) => {
+      const results = [
+        ...[...conditions.values()]
+          .filter(({ memberOf }) => memberOf === group)
+          .map((condition) =>
+            this.matchesCondition(resource, condition, context)
+          ),
+        ...[...groups.entries()]
+          .filter(([, { memberOf }]) => memberOf === group)
+          .map(([name, { conjunction }]) =>
+            matchesGroup(resource, name, conjunction)
+          ),
+      ]
+
+      return conjunction === "OR"
+        ? results.some(Boolean)
+        : results.every(Boolean)
+    }
+
+    return (resource: MockDrupalResource) =>
+      matchesGroup(resource, undefined, "AND")
+  }
+
+  private matchesCondition(
+    resource: MockDrupalResource,
+    { path, operator, value }: FilterCondition,
+    context: RequestContext
+  ) {
+    const values = this.getValues(resource, path, context).filter(
+      (item) => item !== null && item !== undefined
+    )
+    const expected = [].concat(value ?? []).map(String)
+
+    switch (operator.toUpperCase()) {
+      case "IS NULL":
+        return !values.length
+      case "IS NOT NULL":
+        return values.length > 0
+      case "<>":
+        return !values.some((item) => isEqual(item, expected[0]))
+      case "NOT IN":
+        return !values.some((item) =>
+          expected.some((option) => isEqual(item, option))
+        )
+      case "NOT BETWEEN":
+        return !values.some(
+          (item) =>
+            compare(item, expected[0]) >= 0 && compare(item, expected[1]) <= 0
+        )
+    }
+
+    return values.some((item) => {
+      const text = String(item).toLowerCase()
+      const search = String(expected[0]).toLowerCase()
+
+      switch (operator.toUpperCase()) {
+        case "=":
+          return isEqual(item, expected[0])
+        case ">":
+          return compare(item, expected[0]) > 0
+        case ">=":
+          return compare(item, expected[0]) >= 0
+        case "<":
+          return compare(item, expected[0]) < 0
+        case "<=":
+          return compare(item, expected[0]) <= 0
+        case "STARTS_WITH":
+          return text.startsWith(search)
+        case "CONTAINS":
+          return text.includes(search)
+        case "ENDS_WITH":
+          return text.endsWith(search)
+        case "IN":
+          return expected.some((option) => isEqual(item, option))
+        case "BETWEEN":
+          return (
+            compare(item, expected[0]) >= 0 && compare(item, expected[1]) <= 0
+          )
+        default:
+          return false
+      }
+    })
+  }
+
+  private sortResources(
+    resources: MockDrupalResource[],
+    sort: string,
+    context: RequestContext
+  ) {
+    const fields = sort.split(",").map((field) => ({
+      path: field.replace(/^-/, ""),
+      direction: field.startsWith("-") ? -1 : 1,
+    }))
+
+    return [...resources].sort((a, b) => {
+      for (const { path, direction } of fields) {
+        const result = compare(
+          this.getValues(a, path, context)[0],
+          this.getValues(b, path, context)[0]
+        )
+
+        if (result) {
+          return result * direction
+        }
+      }
+
+      return 0
+    })
+  }
+
+  // Returns the values of a field path, e.g. "title", "path.alias" or
+  // "uid.name". Relationships are resolved to their resources.
+  private getValues(
+    resource: MockDrupalResource,
+    path: string,
+    context: RequestContext
+  ) {
+    let values: unknown[] = [resource]
+
+    for (const field of path.split(".")) {
+      values = values.flatMap((value) => {
+        if (!value || typeof value !== "object") {
+          return []
+        }
+
+        if (!isResource(value)) {
+          return [].concat(value[field] ?? [])
+        }
+
+        if (field in (value.relationships ?? {})) {
+          return getRelated(value, field).map((identifier) => ({
+            ...this.findResource(
+              identifier.type,
+              identifier.id,
+              context.locale
+            ),
+            ...identifier,
+          }))
+        }
+
+        return [].concat(value.attributes?.[field] ?? value[field] ?? [])
+      })
+    }
+
+    return values
+  }
+}
+
+const SUBREQUEST_METHODS = {
+  view: "GET",
+  create: "POST",
+  update: "PATCH",
+  delete: "DELETE",
+  exists: "HEAD",
+  discover: "OPTIONS",
+}
+
+// Replaces values of other responses, e.g. {{router.body@$.entity.uuid}}.
+// Returns a value per matched value of the replacements.
+function replaceSubrequestValues(
+  value: string,
+  responses: Record<string, Subresponse[]>
+) {
+  let values = [value]
+
+  for (const [replacement, requestId, path] of value.matchAll(
+    /\{\{([^.}]+)\.body@(\$[^}]*)\}\}/g
+  )) {
+    const matches = (responses[requestId] ?? []).flatMap(({ body }) =>
+      queryJsonPath(parseJson(body), path)
+    )
+
+    values = values.flatMap((item) =>
+      matches.map((match) => item.replaceAll(replacement, String(match)))
+    )
+  }
+
+  return values
+}
+
+// Supports the JSONPath subset used by Subrequests, e.g. $.data[*].id.
+function queryJsonPath(data: unknown, path: string) {
+  let values = [data]
+
+  for (const [, key, index] of path.matchAll(/\.([^.[\]]+)|\[(\d+|\*)\]/g)) {
+    values = values.flatMap((value) => {
+      if (!value || typeof value !== "object") {
+        return []
+      }
+
+      if (index === "*") {
+        return Object.values(value)
+      }
+
+      const item = value[key ?? index]
+
+      return item === undefined ? [] : [item]
+    })
+  }
+
+  return values
+}
+
+function parseJson(body: string) {
+  try {
+    return JSON.parse(body)
+  } catch {
+    return null
+  }
+}
+
+function isResource(value: unknown): value is MockDrupalResource {
+  return (
+    typeof (value as MockDrupalResource)?.type === "string" &&
+    typeof (value as MockDrupalResource)?.id === "string"
+  )
+}
+
+function isSameResource(
+  a: MockDrupalResourceIdentifier,
+  b: MockDrupalResourceIdentifier
+) {
+  return a.type === b.type && a.id === b.id
+}
+
+function getAttribute(resource: MockDrupalResource, name: string) {
+  return resource.attributes?.[name]
+}
+
+function getAlias(resource: MockDrupalResource) {
+  return (getAttribute(resource, "path") as { alias?: string })?.alias
+}
+
+function getSystemPath(resource: MockDrupalResource) {
+  const id = getInternalId(resource)
+
+  return id === undefined ? undefined : `/${resource.type.split("--")[0]}/${id}`
+}
+
+function getLangcode(resource: MockDrupalResource) {
+  return resource.attributes?.langcode as string | undefined
+}
+
+function getRelated(
+  resource: MockDrupalResource,
+  field: string
+): MockDrupalResourceIdentifier[] {
+  return [].concat(resource.relationships?.[field]?.data ?? [])
+}
+
+// Returns the id of an entity in Drupal, e.g. drupal_internal__nid.
+function getInternalId(resource: MockDrupalResource) {
+  const name = Object.keys(resource.attributes ?? {}).find((name) =>
+    /^drupal_internal__[a-z]*id$/.test(name)
+  )
+
+  return name ? resource.attributes[name] : undefined
+}
+
+function getCacheTags(resources: MockDrupalResource[]) {
+  return resources.map(
+    (resource) =>
+      `${resource.type.split("--")[0]}:${getInternalId(resource) ?? resource.id}`
+  )
+}
+
+function getBasicCredentials(request: Request) {
+  const [scheme, credentials] =
+    request.headers.get("authorization")?.split(" ") ?? []
+
+  if (scheme !== "Basic" || !credentials) {
+    return undefined
+  }
+
+  return Buffer.from(credentials, "base64").toString().split(":")
+}
+
+function isEqual(value: unknown, expected: string) {
+  if (typeof value === "boolean") {
+    return expected === (value ? "1" : "0") || expected === String(value)
+  }
+
+  return String(value) === expected
+}
+
+function compare(a: unknown, b: unknown) {
+  if (a === b) {
+    return 0
+  }
+
+  if (a === undefined || a === null) {
+    return -1
+  }
+
+  if (b === undefined || b === null) {
+    return 1
+  }
+
+  const numbers = [Number(a), Number(b)]
+  if (typeof a !== "boolean" && numbers.every(Number.isFinite)) {
+    return numbers[0] - numbers[1]
+  }
+
+  return String(a).localeCompare(String(b))
+}
+
+function jsonResponse(
+  data: unknown,
+  status = 200,
+  tags: string[] = [],
+  contentType = "application/json"
+) {
+  return new Response(JSON.stringify(data), {
+    status,
+    statusText: STATUS_TEXTS[status] ?? "",
+    headers: {
+      "content-type": contentType,
+      ...(tags.length && {
+        "x-drupal-cache-tags": [...new Set(tags)].join(" "),
+      }),
+    },
+  })
+}
+
+function jsonApiResponse(data: unknown, status = 200, tags: string[] = []) {
+  return jsonResponse(data, status, tags, JSON_API_CONTENT_TYPE)
+}
+
+function errorResponse(status: number, detail: string) {
+  return jsonApiResponse(
+    {
+      jsonapi: { version: "1.0", meta: { links: {} } },
+      errors: [{ status: String(status), title: STATUS_TEXTS[status], detail }],
+    },
+    status
+  )
+}
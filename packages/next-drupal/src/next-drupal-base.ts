@@ -1,29 +1,62 @@
 import { stringify } from "qs"
+import { NextDrupalTimeoutError } from "./errors"
 import { JsonApiErrors } from "./jsonapi-errors"
+import { toJsonApiParamsObject } from "./jsonapi-params"
+import type { JsonApiError } from "./jsonapi-errors"
 import { logger as defaultLogger } from "./logger"
+import { RequestQueue } from "./request-queue"
+import { SIGNATURE_PARAM, verifySignature } from "./signature"
+import type { SignaturePayload } from "./signature"
+import { MemoryTokenStore } from "./token-store"
 import type {
   AccessToken,
   BaseUrl,
   EndpointSearchParams,
   FetchOptions,
-  JsonApiResponse,
   Locale,
   Logger,
   NextDrupalAuth,
   NextDrupalAuthAccessToken,
   NextDrupalAuthClientIdSecret,
+  NextDrupalAuthUserGrant,
   NextDrupalAuthUsernamePassword,
   NextDrupalBaseOptions,
+  NextDrupalMiddleware,
+  NextDrupalRequest,
+  NextDrupalRetryOptions,
   PathPrefix,
+  RequestQueueMetrics,
+  TokenStore,
 } from "./types"
 
 const DEFAULT_API_PREFIX = ""
 const DEFAULT_FRONT_PAGE = "/home"
 const DEFAULT_WITH_AUTH = false
+const DEFAULT_TOKEN_REFRESH_WINDOW = 30
+
+const DEFAULT_RETRY: Required<NextDrupalRetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+}
 
 // From simple_oauth.
 const DEFAULT_AUTH_URL = "/oauth/token"
 
+// The requests of the responses returned by fetch(), added to errors.
+const responseRequests = new WeakMap<
+  Response,
+  { url: string; method: string }
+>()
+
+// The raw bodies of the responses read by getErrorsFromResponse().
+const responseBodies = new WeakMap<Response, string>()
+
+// The maximum length of error messages summarizing a response body.
+const MAX_SUMMARY_LENGTH = 200
+
 // See https://jsonapi.org/format/#content-negotiation.
 const DEFAULT_HEADERS = {
   "Content-Type": "application/json",
@@ -43,6 +76,22 @@ export class NextDrupalBase {
 
   logger: Logger
 
+  maxConcurrentRequests: NextDrupalBaseOptions["maxConcurrentRequests"]
+
+  middleware: NextDrupalMiddleware[]
+
+  onTokenChange?: NextDrupalBaseOptions["onTokenChange"]
+
+  previewSecret?: string
+
+  retry: Required<NextDrupalRetryOptions>
+
+  timeout?: number
+
+  tokenRefreshWindow: number
+
+  tokenStore: TokenStore
+
   withAuth: boolean
 
   private _apiPrefix: string
@@ -51,11 +100,28 @@ export class NextDrupalBase {
 
   private _headers: Headers
 
+  // Request queues are created per host when maxConcurrentRequests is set.
+  private _requestQueues = new Map<string, RequestQueue>()
+
   private _token?: AccessToken
 
   private _tokenExpiresOn?: number
 
-  private _tokenRequestDetails?: NextDrupalAuthClientIdSecret
+  // In-flight token requests, so concurrent requests share a single token.
+  private _tokenRequests = new Map<string, Promise<AccessToken>>()
+
+  // User tokens are keyed by the auth object that was used to obtain them.
+  private _userTokens = new WeakMap<
+    NextDrupalAuthUserGrant,
+    { token: AccessToken; expiresOn: number }
+  >()
+
+  // In-flight user token requests, so concurrent requests share a single
+  // refresh. Refresh tokens are revoked once they are used.
+  private _userTokenRequests = new WeakMap<
+    NextDrupalAuthUserGrant,
+    Promise<AccessToken>
+  >()
 
   /**
    * Instantiates a new NextDrupalBase.
@@ -79,6 +145,14 @@ export class NextDrupalBase {
       frontPage = DEFAULT_FRONT_PAGE,
       headers = DEFAULT_HEADERS,
       logger = defaultLogger,
+      maxConcurrentRequests = Infinity,
+      middleware = [],
+      onTokenChange,
+      previewSecret,
+      retry = false,
+      timeout,
+      tokenRefreshWindow = DEFAULT_TOKEN_REFRESH_WINDOW,
+      tokenStore = new MemoryTokenStore(),
       withAuth = DEFAULT_WITH_AUTH,
     } = options
 
@@ -91,6 +165,19 @@ export class NextDrupalBase {
     this.isDebugEnabled = !!debug
     this.headers = headers
     this.logger = logger
+    this.maxConcurrentRequests = maxConcurrentRequests
+    this.middleware = [...middleware]
+    this.onTokenChange = onTokenChange
+    this.previewSecret = previewSecret
+    this.retry = {
+      ...DEFAULT_RETRY,
+      ...(typeof retry === "object"
+        ? retry
+        : { maxAttempts: retry ? DEFAULT_RETRY.maxAttempts : 1 }),
+    }
+    this.timeout = timeout
+    this.tokenRefreshWindow = tokenRefreshWindow
+    this.tokenStore = tokenStore
     this.withAuth = withAuth
 
     this.debug("Debug mode is on.")
@@ -112,8 +199,11 @@ export class NextDrupalBase {
       const checkUsernamePassword = auth as NextDrupalAuthUsernamePassword
       const checkAccessToken = auth as NextDrupalAuthAccessToken
       const checkClientIdSecret = auth as NextDrupalAuthClientIdSecret
+      const checkUserGrant = auth as NextDrupalAuthUserGrant
 
-      if (
+      if (checkUserGrant.grantType !== undefined) {
+        validateUserGrantAuth(checkUserGrant)
+      } else if (
         checkUsernamePassword.username !== undefined ||
         checkUsernamePassword.password !== undefined
       ) {
@@ -144,7 +234,9 @@ export class NextDrupalBase {
       }
 
       this._auth = {
-        ...(isClientIdSecretAuth(auth) ? { url: DEFAULT_AUTH_URL } : {}),
+        ...(isClientIdSecretAuth(auth) || isUserGrantAuth(auth)
+          ? { url: DEFAULT_AUTH_URL }
+          : {}),
         ...auth,
       }
     } else {
@@ -173,9 +265,15 @@ export class NextDrupalBase {
     return this._token
   }
 
+  use(middleware: NextDrupalMiddleware) {
+    this.middleware.push(middleware)
+
+    return this
+  }
+
   async fetch(
     input: RequestInfo,
-    { withAuth, ...init }: FetchOptions = {}
+    { withAuth, timeout = this.timeout, ...init }: FetchOptions = {}
   ): Promise<Response> {
     init.credentials = "include"
 
@@ -204,25 +302,210 @@ export class NextDrupalBase {
       input = `${this.baseUrl}${input}`
     }
 
-    if (this.fetcher) {
-      this.debug(`Using custom fetcher, fetching: ${input}`)
+    // Run the onRequest middleware in the order they were added.
+    let request: NextDrupalRequest = { input, init }
+    for (const { onRequest } of this.middleware) {
+      request = (await onRequest?.(request)) || request
+    }
+    input = request.input
+    init = request.init
+
+    // Abort the request after the timeout or when the given signal aborts.
+    const { signal } = init
+    let onAbort: () => void
+    let timer: ReturnType<typeof setTimeout>
+    let timedOut = false
+    if (timeout) {
+      const controller = new AbortController()
+
+      onAbort = () => controller.abort(signal.reason)
+      if (signal?.aborted) {
+        onAbort()
+      }
+      signal?.addEventListener("abort", onAbort)
+
+      timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeout)
+
+      init.signal = controller.signal
+    }
+
+    const queue = this.getRequestQueue(input)
+    if (queue) {
+      const waitTime = await queue.acquire()
+
+      if (waitTime) {
+        this.debug(`Request waited ${waitTime}ms in the request queue.`)
+      }
+    }
+
+    try {
+      let response = await this.fetchWithRetry(input, init)
+
+      for (const { onResponse } of this.middleware) {
+        response = (await onResponse?.(response, request)) || response
+      }
+
+      if (response instanceof Response) {
+        responseRequests.set(response, {
+          url: typeof input === "string" ? input : input.url,
+          method: (init.method ?? "GET").toUpperCase(),
+        })
+      }
+
+      return response
+    } catch (error) {
+      const reason = timedOut
+        ? new NextDrupalTimeoutError(
+            timeout,
+            typeof input === "string" ? input : input.url
+          )
+        : error
+
+      // An onError middleware can recover by returning a response.
+      for (const { onError } of this.middleware) {
+        const response = await onError?.(reason, request)
+
+        if (response) {
+          return response
+        }
+      }
+
+      throw reason
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+      queue?.release()
+    }
+  }
+
+  private async fetchWithRetry(
+    input: RequestInfo,
+    init: RequestInit
+  ): Promise<Response> {
+    const method = (
+      init.method ?? (typeof input === "string" ? "GET" : input.method)
+    ).toUpperCase()
+    const maxAttempts = this.retry.methods.includes(method)
+      ? this.retry.maxAttempts
+      : 1
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+
+      try {
+        if (this.fetcher) {
+          this.debug(`Using custom fetcher, fetching: ${input}`)
+
+          response = await this.fetcher(input, init)
+        } else {
+          this.debug(`Using default fetch, fetching: ${input}`)
+
+          response = await fetch(input, init)
+        }
+      } catch (error) {
+        // Aborted requests are not retried.
+        if (attempt >= maxAttempts || init.signal?.aborted) {
+          throw error
+        }
+
+        const delay = this.getRetryDelay(attempt)
+        this.debug(
+          `Request failed with "${error.message}". Retrying in ${delay}ms (attempt ${attempt + 1} of ${maxAttempts}).`
+        )
+        await sleep(delay)
+        continue
+      }
+
+      if (
+        attempt >= maxAttempts ||
+        !this.retry.statusCodes.includes(response.status)
+      ) {
+        return response
+      }
+
+      const delay = this.getRetryDelay(attempt, response)
+      this.debug(
+        `Request failed with status ${response.status}. Retrying in ${delay}ms (attempt ${attempt + 1} of ${maxAttempts}).`
+      )
+      // Release the connection of the retried response.
+      await response.body?.cancel()
+      await sleep(delay)
+    }
+  }
+
+  getRequestQueue(input: RequestInfo): RequestQueue | null {
+    if (this.maxConcurrentRequests === Infinity) {
+      return null
+    }
+
+    // Custom fetchers can be sent relative urls, which are not limited.
+    let host: string
+    try {
+      host = new URL(typeof input === "string" ? input : input.url).host
+    } catch {
+      return null
+    }
+
+    const limit =
+      typeof this.maxConcurrentRequests === "object"
+        ? this.maxConcurrentRequests[host] ??
+          this.maxConcurrentRequests["*"] ??
+          Infinity
+        : this.maxConcurrentRequests
+
+    if (limit === Infinity) {
+      return null
+    }
+
+    let queue = this._requestQueues.get(host)
+    if (!queue || queue.limit !== limit) {
+      queue = new RequestQueue(limit)
+      this._requestQueues.set(host, queue)
+    }
+
+    return queue
+  }
 
-      return await this.fetcher(input, init)
+  getRequestQueueMetrics(): Record<string, RequestQueueMetrics> {
+    const metrics: Record<string, RequestQueueMetrics> = {}
+
+    for (const [host, queue] of this._requestQueues) {
+      metrics[host] = queue.metrics
     }
 
-    this.debug(`Using default fetch, fetching: ${input}`)
+    return metrics
+  }
 
-    return await fetch(input, init)
+  getRetryDelay(attempt: number, response?: Response) {
+    const retryAfter = getRetryAfter(response)
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.retry.maxDelay)
+    }
+
+    // Exponential backoff with jitter.
+    const delay = Math.min(
+      this.retry.baseDelay * 2 ** (attempt - 1),
+      this.retry.maxDelay
+    )
+
+    return Math.round(delay / 2 + (Math.random() * delay) / 2)
   }
 
   async getAuthorizationHeader(auth: NextDrupalAuth) {
     let header: string
 
-    if (isBasicAuth(auth)) {
-      const basic = Buffer.from(`${auth.username}:${auth.password}`).toString(
-        "base64"
+    if (isUserGrantAuth(auth)) {
+      // Fetch, re-use or refresh the user's access token.
+      const token = await this.getUserAccessToken(auth)
+      header = `${token.token_type} ${token.access_token}`
+      this.debug(
+        `Using access token authorization header retrieved from the ${auth.grantType} grant.`
       )
-      header = `Basic ${basic}`
+    } else if (isBasicAuth(auth)) {
+      header = `Basic ${toBase64(`${auth.username}:${auth.password}`)}`
       this.debug("Using basic authorization header.")
     } else if (isClientIdSecretAuth(auth)) {
       // Fetch an access token and add it to the request. getAccessToken()
@@ -254,11 +537,12 @@ export class NextDrupalBase {
     const url = new URL(path, this.baseUrl)
 
     const search =
-      // Handle DrupalJsonApiParams objects.
+      // Handle JsonApiParamsBuilder and DrupalJsonApiParams objects, and
+      // includes and sparse fieldsets passed as arrays.
       searchParams &&
       typeof searchParams === "object" &&
-      "getQueryObject" in searchParams
-        ? searchParams.getQueryObject()
+      !(searchParams instanceof URLSearchParams)
+        ? toJsonApiParamsObject(searchParams)
         : searchParams
 
     if (search) {
@@ -381,43 +665,180 @@ export class NextDrupalBase {
       )
     }
 
-    const url = this.buildUrl(auth.url)
+    // Stored tokens are only re-used for the same site, token url, client and
+    // scope. Stores can be shared by clients of different sites.
+    const key = [
+      this.baseUrl,
+      auth.url ?? DEFAULT_AUTH_URL,
+      auth.clientId,
+      auth.scope ?? "",
+    ].join(":")
+
+    const stored = await this.tokenStore.get(key)
+    if (stored) {
+      if (!this.isTokenExpiring(stored.expiresOn)) {
+        this.debug(`Using existing access token.`)
+        return stored.token
+      }
 
-    // Ensure that the unexpired token was using the same scope and client
-    // credentials as the current request before re-using it.
-    if (
-      this.token &&
-      Date.now() < this._tokenExpiresOn &&
-      this._tokenRequestDetails?.clientId === auth?.clientId &&
-      this._tokenRequestDetails?.clientSecret === auth?.clientSecret &&
-      this._tokenRequestDetails?.scope === auth?.scope
-    ) {
-      this.debug(`Using existing access token.`)
-      return this.token
+      await this.tokenStore.delete(key)
+    }
+
+    // Share a pending token request instead of requesting another token.
+    if (this._tokenRequests.has(key)) {
+      this.debug(`Waiting for pending access token request.`)
+      return this._tokenRequests.get(key)
     }
 
     this.debug(`Fetching new access token.`)
 
-    // Use BasicAuth to retrieve the access token.
-    const clientCredentials: NextDrupalAuthUsernamePassword = {
-      username: auth.clientId,
-      password: auth.clientSecret,
+    const request = this.requestAccessToken(auth, {
+      grant_type: "client_credentials",
+    })
+    this._tokenRequests.set(key, request)
+
+    try {
+      const result = await request
+
+      this.token = result
+
+      await this.tokenStore.set(key, {
+        token: result,
+        expiresOn: this._tokenExpiresOn,
+      })
+
+      return result
+    } finally {
+      this._tokenRequests.delete(key)
+    }
+  }
+
+  async getUserAccessToken(
+    auth: NextDrupalAuthUserGrant
+  ): Promise<AccessToken> {
+    const existing = this._userTokens.get(auth)
+
+    if (existing && !this.isTokenExpiring(existing.expiresOn)) {
+      this.debug(`Using existing user access token.`)
+      return existing.token
+    }
+
+    // Share a pending token request instead of requesting another token.
+    if (this._userTokenRequests.has(auth)) {
+      this.debug(`Waiting for pending user access token request.`)
+      return this._userTokenRequests.get(auth)
+    }
+
+    const request = this.fetchUserAccessToken(auth, existing?.token)
+    this._userTokenRequests.set(auth, request)
+
+    try {
+      return await request
+    } finally {
+      this._userTokenRequests.delete(auth)
+    }
+  }
+
+  private async fetchUserAccessToken(
+    auth: NextDrupalAuthUserGrant,
+    existing?: AccessToken
+  ): Promise<AccessToken> {
+    let token: AccessToken
+
+    // Prefer refreshing an expired token over repeating the original grant.
+    const refreshToken =
+      existing?.refresh_token ??
+      (auth.grantType === "refresh_token" ? auth.refreshToken : undefined)
+
+    if (refreshToken) {
+      this.debug(`Refreshing user access token.`)
+
+      try {
+        token = await this.requestAccessToken(auth, {
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        })
+      } catch (error) {
+        // The password grant can start over with a new token. The other
+        // grants have no way to recover from a revoked refresh token.
+        if (auth.grantType !== "password") {
+          throw error
+        }
+
+        this.debug(`Could not refresh user access token: ${error.message}`)
+      }
+    }
+
+    if (!token && auth.grantType === "password") {
+      this.debug(`Fetching new user access token using the password grant.`)
+
+      token = await this.requestAccessToken(auth, {
+        grant_type: "password",
+        username: auth.username,
+        password: auth.password,
+      })
+    } else if (!token && auth.grantType === "authorization_code") {
+      this.debug(
+        `Fetching new user access token using the authorization_code grant.`
+      )
+
+      token = await this.requestAccessToken(auth, {
+        grant_type: "authorization_code",
+        code: auth.code,
+        redirect_uri: auth.redirectUri,
+        ...(auth.codeVerifier ? { code_verifier: auth.codeVerifier } : {}),
+      })
+    }
+
+    this._userTokens.set(auth, {
+      token,
+      expiresOn: Date.now() + token.expires_in * 1000,
+    })
+
+    if (this.onTokenChange) {
+      await this.onTokenChange(token, auth)
     }
-    const body = new URLSearchParams({ grant_type: "client_credentials" })
 
-    if (auth?.scope) {
+    return token
+  }
+
+  async requestAccessToken(
+    auth: NextDrupalAuthClientIdSecret | NextDrupalAuthUserGrant,
+    params: Record<string, string>
+  ): Promise<AccessToken> {
+    const url = this.buildUrl(auth.url ?? DEFAULT_AUTH_URL)
+
+    const body = new URLSearchParams(params)
+
+    if (auth.scope) {
       body.set("scope", auth.scope)
 
       this.debug(`Using scope: ${auth.scope}`)
     }
 
+    const headers = new Headers({
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    })
+
+    if (auth.clientSecret) {
+      // Use BasicAuth to authenticate the client.
+      const clientCredentials: NextDrupalAuthUsernamePassword = {
+        username: auth.clientId,
+        password: auth.clientSecret,
+      }
+      headers.set(
+        "Authorization",
+        await this.getAuthorizationHeader(clientCredentials)
+      )
+    } else {
+      // Public clients identify themselves in the request body.
+      body.set("client_id", auth.clientId)
+    }
+
     const response = await this.fetch(url.toString(), {
       method: "POST",
-      headers: {
-        Authorization: await this.getAuthorizationHeader(clientCredentials),
-        Accept: "application/json",
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
+      headers,
       body,
     })
 
@@ -426,18 +847,41 @@ export class NextDrupalBase {
       "Error while fetching new access token: "
     )
 
-    const result: AccessToken = await response.json()
-
-    this.token = result
-
-    this._tokenRequestDetails = auth
+    return await response.json()
+  }
 
-    return result
+  isTokenExpiring(expiresOn: number) {
+    return Date.now() >= expiresOn - this.tokenRefreshWindow * 1000
   }
 
-  async validateDraftUrl(searchParams: URLSearchParams): Promise<Response> {
+  async validateDraftUrl(
+    searchParams: URLSearchParams,
+    request: Pick<SignaturePayload, "method" | "path"> = {}
+  ): Promise<Response> {
     const path = searchParams.get("path")
 
+    // Signed draft urls do not include the secret. Verify the signature, then
+    // send the secret to Drupal so that it can validate the draft url.
+    if (this.previewSecret) {
+      const isValid = await verifySignature(
+        this.previewSecret,
+        searchParams.get(SIGNATURE_PARAM),
+        { ...request, searchParams }
+      )
+
+      if (!isValid) {
+        this.debug(`Invalid draft url signature for ${path}.`)
+
+        return new Response(JSON.stringify({ message: "Invalid signature." }), {
+          status: 401,
+        })
+      }
+
+      searchParams = new URLSearchParams(searchParams)
+      searchParams.delete(SIGNATURE_PARAM)
+      searchParams.set("secret", this.previewSecret)
+    }
+
     this.debug(`Fetching draft url validation for ${path}.`)
 
     // Fetch the headless CMS to check if the provided `path` exists
@@ -474,32 +918,78 @@ export class NextDrupalBase {
 
   async throwIfJsonErrors(response: Response, messagePrefix = "") {
     if (!response?.ok) {
-      const errors = await this.getErrorsFromResponse(response)
-      throw new JsonApiErrors(errors, response.status, messagePrefix)
+      throw await this.createErrorFromResponse(response, messagePrefix)
     }
   }
 
-  async getErrorsFromResponse(response: Response) {
-    const type = response.headers.get("content-type")
-    let error: JsonApiResponse | { message: string }
+  /**
+   * Creates the error of a failed response, with the request that failed and
+   * the raw body of the response.
+   *
+   * @param {Response} response The failed response.
+   * @param {string} messagePrefix A prefix for the error message.
+   * @returns {Promise<JsonApiErrors>} The error.
+   */
+  async createErrorFromResponse(response: Response, messagePrefix = "") {
+    const errors = await this.getErrorsFromResponse(response)
+    const request = responseRequests.get(response)
+    const retryAfter = getRetryAfter(response)
+
+    return JsonApiErrors.create(errors, response.status, messagePrefix, {
+      url: request?.url ?? (response.url || undefined),
+      method: request?.method,
+      retryAfter:
+        retryAfter === undefined ? undefined : Math.ceil(retryAfter / 1000),
+      body: responseBodies.get(response),
+    })
+  }
 
-    if (type === "application/json") {
-      error = await response.json()
+  async getErrorsFromResponse(
+    response: Response
+  ): Promise<JsonApiError[] | string> {
+    const mediaType = getMediaType(response.headers.get("content-type"))
+    const body = await response.text()
 
-      if (error?.message) {
-        return error.message as string
-      }
+    responseBodies.set(response, body)
+
+    if (mediaType === "text/html") {
+      return summarize(getHtmlSummary(body)) || response.statusText
+    }
+
+    const json =
+      mediaType === "application/json" || mediaType?.endsWith("+json")
+        ? parseJson(body)
+        : undefined
+
+    // Responses with other media types, or invalid JSON, e.g. a proxy error.
+    // HTTP/2 responses have no status text, so the body is used instead.
+    if (!json || typeof json !== "object") {
+      return response.statusText || summarize(body)
     }
 
-    // Construct error from response.
-    // Check for type to ensure this is a JSON:API formatted error.
+    // Check for errors to ensure this is a JSON:API formatted error.
     // See https://jsonapi.org/format/#errors.
-    else if (type === "application/vnd.api+json") {
-      error = (await response.json()) as JsonApiResponse
+    if (Array.isArray(json.errors) && json.errors.length) {
+      return json.errors as JsonApiError[]
+    }
 
-      if (error?.errors?.length) {
-        return error.errors
-      }
+    // See https://www.rfc-editor.org/rfc/rfc7807.
+    if (
+      mediaType === "application/problem+json" &&
+      (json.title || json.detail)
+    ) {
+      return [
+        {
+          status: String(json.status ?? response.status),
+          title: json.title ?? response.statusText,
+          detail: json.detail,
+          ...(json.type && { links: { type: json.type } }),
+        },
+      ]
+    }
+
+    if (typeof json.message === "string" && json.message) {
+      return json.message
     }
 
     return response.statusText
@@ -511,7 +1001,8 @@ export function isBasicAuth(
 ): auth is NextDrupalAuthUsernamePassword {
   return (
     (auth as NextDrupalAuthUsernamePassword)?.username !== undefined &&
-    (auth as NextDrupalAuthUsernamePassword)?.password !== undefined
+    (auth as NextDrupalAuthUsernamePassword)?.password !== undefined &&
+    !isUserGrantAuth(auth)
   )
 }
 
@@ -529,6 +1020,101 @@ export function isClientIdSecretAuth(
 ): auth is NextDrupalAuthClientIdSecret {
   return (
     (auth as NextDrupalAuthClientIdSecret)?.clientId !== undefined &&
-    (auth as NextDrupalAuthClientIdSecret)?.clientSecret !== undefined
+    (auth as NextDrupalAuthClientIdSecret)?.clientSecret !== undefined &&
+    !isUserGrantAuth(auth)
   )
 }
+
+export function isUserGrantAuth(
+  auth: NextDrupalAuth
+): auth is NextDrupalAuthUserGrant {
+  return (auth as NextDrupalAuthUserGrant)?.grantType !== undefined
+}
+
+// Returns the delay, in milliseconds, of the Retry-After header, in seconds or
+// as an HTTP date.
+function getRetryAfter(response?: Response) {
+  const retryAfter = response?.headers.get("Retry-After")
+  if (!retryAfter) {
+    return undefined
+  }
+
+  const seconds = Number(retryAfter)
+  const delay = Number.isNaN(seconds)
+    ? Date.parse(retryAfter) - Date.now()
+    : seconds * 1000
+
+  return Number.isNaN(delay) ? undefined : Math.max(delay, 0)
+}
+
+// Returns the media type of a Content-Type header, without its parameters,
+// e.g. "application/vnd.api+json" for "application/vnd.api+json; ext=...".
+function getMediaType(contentType: string | null) {
+  return contentType?.split(";")[0].trim().toLowerCase() || undefined
+}
+
+function parseJson(body: string) {
+  try {
+    return JSON.parse(body)
+  } catch (error) {
+    return undefined
+  }
+}
+
+// Returns the text of an HTML error page: its title, its heading or the text
+// of the page.
+function getHtmlSummary(html: string) {
+  const [, summary = html] =
+    html.match(/<title[^>]*>([\s\S]*?)<\/title>/i) ??
+    html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i) ??
+    []
+
+  return summary
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+// Returns the text on one line, truncated to the maximum summary length.
+function summarize(text: string) {
+  const summary = text.replace(/\s+/g, " ").trim()
+
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : summary
+}
+
+// Encodes a string as base64 without Buffer, which the Edge runtime does not
+// have. Characters are encoded as UTF-8 first, like Buffer does.
+function toBase64(value: string) {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function validateUserGrantAuth(auth: NextDrupalAuthUserGrant) {
+  const required = {
+    password: ["clientId", "username", "password"],
+    authorization_code: ["clientId", "code", "redirectUri"],
+    refresh_token: ["clientId", "refreshToken"],
+  }[auth.grantType]
+
+  if (!required) {
+    throw new Error(
+      `'${auth.grantType}' is not a supported grantType. See https://next-drupal.org/docs/client/auth`
+    )
+  }
+
+  if (required.some((key) => !auth[key])) {
+    throw new Error(
+      `${required.map((key) => `'${key}'`).join(", ")} are required for the ${auth.grantType} grant. See https://next-drupal.org/docs/client/auth`
+    )
+  }
+}
@@ -1,22 +1,28 @@
 import { Jsona } from "jsona"
 import { DRAFT_DATA_COOKIE_NAME } from "./draft-constants"
+import { RedirectError } from "./errors"
 import { DrupalMenuTree } from "./menu-tree"
+import { toJsonApiParamsObject } from "./jsonapi-params"
 import { NextDrupal } from "./next-drupal"
 import { isClientIdSecretAuth } from "./next-drupal-base"
+import { getRedirect } from "./redirect-helpers"
 import type {
   BaseUrl,
   DrupalClientOptions,
   DrupalMenuItem,
   DrupalMenuItemId,
   DrupalPathAlias,
+  DrupalResourceTypes,
   DrupalTranslatedPath,
   JsonApiOptions,
   JsonApiParams,
   JsonApiResource,
   JsonApiResourceWithPath,
   JsonApiWithAuthOption,
+  JsonApiWithTimeoutOptions,
   JsonDeserializer,
   Locale,
+  NextDrupalClient,
   PathPrefix,
 } from "./types"
 import type {
@@ -27,7 +33,9 @@ import type {
   NextApiResponse,
 } from "next"
 
-export class NextDrupalPages extends NextDrupal {
+export class NextDrupalPages<
+  Schema extends object = DrupalResourceTypes,
+> extends NextDrupal<Schema> {
   private serializer: DrupalClientOptions["serializer"]
 
   /**
@@ -82,6 +90,11 @@ export class NextDrupalPages extends NextDrupal {
       isVersionable?: boolean
     } & JsonApiOptions
   ): Promise<T> {
+    const redirect = typeof input === "string" ? null : getRedirect(input)
+    if (redirect) {
+      throw new RedirectError(redirect)
+    }
+
     const type = typeof input === "string" ? input : input.jsonapi.resourceName
 
     const previewData = context.previewData as {
@@ -96,13 +109,17 @@ export class NextDrupalPages extends NextDrupal {
       ...options,
     }
 
+    const params = toJsonApiParamsObject(options.params)
+
     const _options = {
       deserialize: options.deserialize,
       isVersionable: options.isVersionable,
       locale: context.locale,
       defaultLocale: context.defaultLocale,
       withAuth: options?.withAuth,
-      params: options?.params,
+      signal: options?.signal,
+      timeout: options?.timeout,
+      params,
     }
 
     // Check if resource is versionable.
@@ -111,11 +128,8 @@ export class NextDrupalPages extends NextDrupal {
 
     // If the resource is versionable and no resourceVersion is supplied via params.
     // Use the resourceVersion from previewData or fallback to the latest version.
-    if (
-      isVersionable &&
-      typeof options.params.resourceVersion === "undefined"
-    ) {
-      options.params.resourceVersion =
+    if (isVersionable && typeof params.resourceVersion === "undefined") {
+      params.resourceVersion =
         previewData?.resourceVersion || "rel:latest-version"
     }
 
@@ -134,7 +148,12 @@ export class NextDrupalPages extends NextDrupal {
       // Given we already have the path info, we can skip subrequests and just make a simple
       // request to the Drupal site to get the entity.
       if (input.entity?.uuid) {
-        return await this.getResource<T>(type, input.entity.uuid, _options)
+        // Resource types from Drupal are not in the Schema.
+        return await (this as NextDrupalClient).getResource<T>(
+          type,
+          input.entity.uuid,
+          _options
+        )
       }
     }
 
@@ -169,7 +188,8 @@ export class NextDrupalPages extends NextDrupal {
       ...options,
     }
 
-    return await this.getResourceCollection<T>(type, {
+    // The resource type is not checked against the Schema.
+    return await (this as NextDrupalClient).getResourceCollection<T>(type, {
       ...options,
       locale: context.locale,
       defaultLocale: context.defaultLocale,
@@ -193,7 +213,8 @@ export class NextDrupalPages extends NextDrupal {
     context: GetStaticPropsContext,
     options?: {
       pathPrefix?: PathPrefix
-    } & JsonApiWithAuthOption
+    } & JsonApiWithAuthOption &
+      JsonApiWithTimeoutOptions
   ): Promise<DrupalTranslatedPath | null> {
     options = {
       pathPrefix: "/",
@@ -205,6 +226,8 @@ export class NextDrupalPages extends NextDrupal {
 
     return await this.translatePath(path, {
       withAuth: this.getAuthFromContextAndOptions(context, options),
+      signal: options.signal,
+      timeout: options.timeout,
     })
   }
 
@@ -229,7 +252,8 @@ export class NextDrupalPages extends NextDrupal {
     options?: {
       params?: JsonApiParams
       pathPrefix?: PathPrefix
-    } & JsonApiWithAuthOption
+    } & JsonApiWithAuthOption &
+      JsonApiWithTimeoutOptions
   ): Promise<GetStaticPathsResult<{ slug: string[] }>["paths"]> {
     options = {
       withAuth: this.withAuth,
@@ -248,17 +272,23 @@ export class NextDrupalPages extends NextDrupal {
         // Note we don't need status filter here since this runs non-authenticated (by default).
         const params = {
           [`fields[${type}]`]: "path",
-          ...options?.params,
+          ...toJsonApiParamsObject(options?.params),
         }
 
-        // Handle localized path aliases
+        // Handle localized path aliases. The collections are iterated so
+        // every page of results is included, not just the first one.
         if (!context.locales?.length) {
-          const resources = await this.getResourceCollection<
-            JsonApiResourceWithPath[]
-          >(type, {
-            params,
-            withAuth: options.withAuth,
-          })
+          const resources: JsonApiResourceWithPath[] = []
+          const collection =
+            this.iterateResourceCollection<JsonApiResourceWithPath>(type, {
+              params,
+              withAuth: options.withAuth,
+              signal: options.signal,
+              timeout: options.timeout,
+            })
+          for await (const resource of collection) {
+            resources.push(resource)
+          }
 
           return this.buildStaticPathsFromResources(resources, {
             pathPrefix: options.pathPrefix,
@@ -267,15 +297,20 @@ export class NextDrupalPages extends NextDrupal {
 
         const paths = await Promise.all(
           context.locales.map(async (locale) => {
-            const resources = await this.getResourceCollection<
-              JsonApiResourceWithPath[]
-            >(type, {
-              deserialize: true,
-              locale,
-              defaultLocale: context.defaultLocale,
-              params,
-              withAuth: options.withAuth,
-            })
+            const resources: JsonApiResourceWithPath[] = []
+            const collection =
+              this.iterateResourceCollection<JsonApiResourceWithPath>(type, {
+                deserialize: true,
+                locale,
+                defaultLocale: context.defaultLocale,
+                params,
+                withAuth: options.withAuth,
+                signal: options.signal,
+                timeout: options.timeout,
+              })
+            for await (const resource of collection) {
+              resources.push(resource)
+            }
 
             return this.buildStaticPathsFromResources(resources, {
               locale,
@@ -347,9 +382,17 @@ export class NextDrupalPages extends NextDrupal {
     response: NextApiResponse,
     options?: Parameters<NextApiResponse["setDraftMode"]>[0]
   ) {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { path, resourceVersion, plugin, secret, scope, ...draftData } =
-      request.query
+    /* eslint-disable @typescript-eslint/no-unused-vars */
+    const {
+      path,
+      resourceVersion,
+      plugin,
+      secret,
+      scope,
+      signature,
+      ...draftData
+    } = request.query
+    /* eslint-enable @typescript-eslint/no-unused-vars */
     const useDraftMode = options?.enable
 
     try {
@@ -357,9 +400,11 @@ export class NextDrupalPages extends NextDrupal {
       response.clearPreviewData()
 
       // Validate the preview url.
-      const result = await this.validateDraftUrl(
-        new URL(request.url, `http://${request.headers.host}`).searchParams
-      )
+      const url = new URL(request.url, `http://${request.headers.host}`)
+      const result = await this.validateDraftUrl(url.searchParams, {
+        method: request.method,
+        path: url.pathname,
+      })
 
       const validationPayload = await result.json()
       const previewData = {
@@ -1,14 +1,32 @@
 import { Jsona } from "jsona"
 import { stringify } from "qs"
+import { JsonApiBatch } from "./batch"
+import {
+  getCacheTags,
+  getCacheTagsFromResponse,
+  parseCacheTags,
+  setCacheTags,
+} from "./cache-tags"
+import { RedirectError } from "./errors"
 import { JsonApiErrors } from "./jsonapi-errors"
+import { toJsonApiParamsObject } from "./jsonapi-params"
 import { DrupalMenuTree } from "./menu-tree"
 import { NextDrupalBase } from "./next-drupal-base"
+import { getRedirect } from "./redirect-helpers"
+import { ResourceLoader } from "./resource-loader"
+import { SubrequestsBuilder } from "./subrequests"
 import type {
   BaseUrl,
+  DataCacheEntry,
   DrupalFile,
   DrupalMenuItem,
+  DrupalResourceOf,
+  DrupalResourceOptions,
+  DrupalResourceTypeOf,
+  DrupalResourceTypes,
   DrupalTranslatedPath,
   DrupalView,
+  JsonApiBatchOptions,
   JsonApiCreateFileResourceBody,
   JsonApiCreateResourceBody,
   JsonApiOptions,
@@ -19,13 +37,18 @@ import type {
   JsonApiUpdateResourceBody,
   JsonApiWithAuthOption,
   JsonApiWithCacheOptions,
+  JsonApiWithPaginationOptions,
+  JsonApiWithTimeoutOptions,
   JsonDeserializer,
   Locale,
+  NextDrupalClient,
   NextDrupalOptions,
   PathPrefix,
+  ResourceLoaderOptions,
 } from "./types"
 
 const DEFAULT_API_PREFIX = "/jsonapi"
+const DEFAULT_CACHE_KEY_PREFIX = "next-drupal:"
 
 // See https://jsonapi.org/format/#content-negotiation.
 const DEFAULT_HEADERS = {
@@ -43,7 +66,11 @@ export function useJsonaDeserialize() {
   }
 }
 
-export class NextDrupal extends NextDrupalBase {
+// The Schema maps resource types to their resources, e.g. the types generated
+// by `next-drupal generate-types`, to type the resources of a resource type.
+export class NextDrupal<
+  Schema extends object = DrupalResourceTypes,
+> extends NextDrupalBase {
   cache?: NextDrupalOptions["cache"]
 
   deserializer: JsonDeserializer
@@ -54,6 +81,13 @@ export class NextDrupal extends NextDrupalBase {
 
   useSubrequests: boolean
 
+  // Cache keys that are being refreshed in the background.
+  private _revalidatingCacheKeys = new Set<string>()
+
+  // Pending writes of tag indexes, by tag key. Writes to the same index are
+  // queued, so that concurrent writes of the client do not lose cache keys.
+  private _tagIndexWrites = new Map<string, Promise<void>>()
+
   /**
    * Instantiates a new NextDrupal.
    *
@@ -118,6 +152,8 @@ export class NextDrupal extends NextDrupalBase {
       method: "POST",
       body: JSON.stringify(body),
       withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
     })
 
     await this.throwIfJsonErrors(response, "Error while creating resource: ")
@@ -161,6 +197,8 @@ export class NextDrupal extends NextDrupalBase {
       },
       body: body.data.attributes.file,
       withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
     })
 
     await this.throwIfJsonErrors(
@@ -205,6 +243,8 @@ export class NextDrupal extends NextDrupalBase {
       method: "PATCH",
       body: JSON.stringify(body),
       withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
     })
 
     await this.throwIfJsonErrors(response, "Error while updating resource: ")
@@ -242,6 +282,8 @@ export class NextDrupal extends NextDrupalBase {
     const response = await this.fetch(endpoint, {
       method: "DELETE",
       withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
     })
 
     await this.throwIfJsonErrors(response, "Error while deleting resource: ")
@@ -249,6 +291,32 @@ export class NextDrupal extends NextDrupalBase {
     return response.status === 204
   }
 
+  /**
+   * Creates a batch of operations that are sent as a single unit, using
+   * JSON:API atomic operations if the server supports them.
+   *
+   * @param {JsonApiBatchOptions} options Options for the batch.
+   * @returns {JsonApiBatch} The batch.
+   */
+  batch(options?: JsonApiBatchOptions) {
+    return new JsonApiBatch(this, options)
+  }
+
+  // Resource types of the Schema return their resource.
+  async getResource<Type extends DrupalResourceTypeOf<Schema>>(
+    type: Type,
+    uuid: string,
+    options?: DrupalResourceOptions<Schema, Type> &
+      JsonApiWithCacheOptions & { deserialize?: true }
+  ): Promise<DrupalResourceOf<Schema, Type>>
+  async getResource<
+    T extends JsonApiResource,
+    Type extends DrupalResourceTypeOf<Schema> = DrupalResourceTypeOf<Schema>,
+  >(
+    type: Type,
+    uuid: string,
+    options?: DrupalResourceOptions<Schema, Type> & JsonApiWithCacheOptions
+  ): Promise<T>
   async getResource<T extends JsonApiResource>(
     type: string,
     uuid: string,
@@ -262,55 +330,76 @@ export class NextDrupal extends NextDrupalBase {
       ...options,
     }
 
-    /* c8 ignore next 11 */
-    if (options.withCache) {
-      const cached = (await this.cache.get(options.cacheKey)) as string
-
-      if (cached) {
-        this.debug(`Returning cached resource ${type} with id ${uuid}.`)
-
-        const json = JSON.parse(cached)
+    const json = await this.getCachedJson(
+      `resource:${type}:${uuid}`,
+      options,
+      async () => {
+        const endpoint = await this.buildEndpoint({
+          locale:
+            options?.locale !== options?.defaultLocale
+              ? options.locale
+              : undefined,
+          resourceType: type,
+          path: `/${uuid}`,
+          searchParams: options?.params,
+        })
+
+        this.debug(`Fetching resource ${type} with id ${uuid}.`)
+
+        const response = await this.fetch(endpoint, {
+          withAuth: options.withAuth,
+          signal: options.signal,
+          timeout: options.timeout,
+        })
+
+        await this.throwIfJsonErrors(
+          response,
+          "Error while fetching resource: "
+        )
 
-        return options.deserialize ? this.deserialize(json) : json
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
       }
-    }
-
-    const endpoint = await this.buildEndpoint({
-      locale:
-        options?.locale !== options?.defaultLocale ? options.locale : undefined,
-      resourceType: type,
-      path: `/${uuid}`,
-      searchParams: options?.params,
-    })
-
-    this.debug(`Fetching resource ${type} with id ${uuid}.`)
-
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
-
-    await this.throwIfJsonErrors(response, "Error while fetching resource: ")
+    )
 
-    const json = await response.json()
+    return options.deserialize ? this.deserialize(json) : json
+  }
 
-    /* c8 ignore next 3 */
-    if (options.withCache) {
-      await this.cache.set(options.cacheKey, JSON.stringify(json))
-    }
+  /**
+   * Creates a loader that batches and deduplicates getResource() calls.
+   * Create a new loader for every request, e.g. using React's cache().
+   *
+   * @param {ResourceLoaderOptions} options Options for the loader.
+   * @returns {ResourceLoader} The loader.
+   */
+  createLoader(options?: ResourceLoaderOptions) {
+    return new ResourceLoader(this, options)
+  }
 
-    return options.deserialize ? this.deserialize(json) : json
+  /**
+   * Creates a builder for requests that are sent in one request using the
+   * Subrequests module, e.g. to fetch the data of a page in one round-trip.
+   *
+   * @returns {SubrequestsBuilder} The builder.
+   */
+  subrequests() {
+    return new SubrequestsBuilder(this)
   }
 
   async getResourceByPath<T extends JsonApiResource>(
     path: string,
     options?: {
       isVersionable?: boolean
-    } & JsonApiOptions
+    } & JsonApiOptions &
+      JsonApiWithCacheOptions
   ): Promise<T> {
     options = {
       deserialize: true,
       isVersionable: false,
       withAuth: this.withAuth,
+      withCache: false,
       params: {},
       ...options,
     }
@@ -319,20 +408,35 @@ export class NextDrupal extends NextDrupalBase {
       return null
     }
 
+    if (options.withCache) {
+      const data = await this.getCachedJson(
+        `resource-by-path:${path}`,
+        options,
+        () =>
+          this.getResourceByPath<T>(path, {
+            ...options,
+            deserialize: false,
+            withCache: false,
+          })
+      )
+
+      return options.deserialize ? (this.deserialize(data) as T) : data
+    }
+
     path = this.addLocalePrefix(path, {
       locale: options.locale,
       defaultLocale: options.defaultLocale,
     })
 
+    const { resourceVersion, ...params } = toJsonApiParamsObject(options.params)
+
     // If a resourceVersion is provided, assume entity type is versionable.
-    if (options.params.resourceVersion) {
+    if (resourceVersion) {
       options.isVersionable = true
     }
 
-    const { resourceVersion = "rel:latest-version", ...params } = options.params
-
     if (options.isVersionable) {
-      params.resourceVersion = resourceVersion
+      params.resourceVersion = resourceVersion ?? "rel:latest-version"
     }
 
     options.params = params
@@ -345,10 +449,17 @@ export class NextDrupal extends NextDrupalBase {
         return null
       }
 
+      // Redirects are thrown, so that pages can redirect to the destination.
+      const redirect = getRedirect(translatedPath)
+      if (redirect) {
+        throw new RedirectError(redirect)
+      }
+
       const uuid = translatedPath.entity.uuid
       const type = translatedPath.jsonapi.resourceName
 
-      return this.getResource<T>(uuid, type, options)
+      // Resource types from Drupal are not in the Schema.
+      return (this as NextDrupalClient).getResource<T>(type, uuid, options)
     }
 
     const resourceParams = stringify(params)
@@ -390,17 +501,25 @@ export class NextDrupal extends NextDrupalBase {
       redirect: "follow",
       body: JSON.stringify(payload),
       withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
     })
 
     const errorMessagePrefix = "Error while fetching resource by path:"
 
     if (response.status !== 207) {
-      const errors = await this.getErrorsFromResponse(response)
-      throw new JsonApiErrors(errors, response.status, errorMessagePrefix)
+      throw await this.createErrorFromResponse(response, errorMessagePrefix)
     }
 
     const json = await response.json()
 
+    const redirect = getRedirect(
+      json?.router?.body ? JSON.parse(json.router.body) : null
+    )
+    if (redirect) {
+      throw new RedirectError(redirect)
+    }
+
     if (!json?.["resolvedResource#uri{0}"]?.body) {
       const status = json?.router?.headers?.status?.[0]
       if (status === 404) {
@@ -409,26 +528,50 @@ export class NextDrupal extends NextDrupalBase {
       const message =
         (json?.router?.body && JSON.parse(json.router.body)?.message) ||
         "Unknown error"
-      throw new JsonApiErrors(message, status, errorMessagePrefix)
+      throw JsonApiErrors.create(message, status, errorMessagePrefix)
     }
 
-    const data = JSON.parse(json["resolvedResource#uri{0}"]?.body)
+    const data = setCacheTags(
+      JSON.parse(json["resolvedResource#uri{0}"]?.body),
+      parseCacheTags(
+        json["resolvedResource#uri{0}"]?.headers?.["x-drupal-cache-tags"]?.[0]
+      )
+    )
 
     if (data.errors) {
       const status = json?.["resolvedResource#uri{0}"]?.headers?.status?.[0]
       this.logOrThrowError(
-        new JsonApiErrors(data.errors, status, errorMessagePrefix)
+        JsonApiErrors.create(data.errors, status, errorMessagePrefix)
       )
     }
 
     return options.deserialize ? this.deserialize(data) : data
   }
 
+  // Resource types of the Schema return their resources.
+  async getResourceCollection<Type extends DrupalResourceTypeOf<Schema>>(
+    type: Type,
+    options?: {
+      deserialize?: true
+    } & DrupalResourceOptions<Schema, Type> &
+      JsonApiWithCacheOptions
+  ): Promise<DrupalResourceOf<Schema, Type>[]>
+  async getResourceCollection<
+    T = JsonApiResource[],
+    Type extends DrupalResourceTypeOf<Schema> = DrupalResourceTypeOf<Schema>,
+  >(
+    type: Type,
+    options?: {
+      deserialize?: boolean
+    } & DrupalResourceOptions<Schema, Type> &
+      JsonApiWithCacheOptions
+  ): Promise<T>
   async getResourceCollection<T = JsonApiResource[]>(
     type: string,
     options?: {
       deserialize?: boolean
-    } & JsonApiOptions
+    } & JsonApiOptions &
+      JsonApiWithCacheOptions
   ): Promise<T> {
     options = {
       withAuth: this.withAuth,
@@ -436,27 +579,134 @@ export class NextDrupal extends NextDrupalBase {
       ...options,
     }
 
-    const endpoint = await this.buildEndpoint({
+    const json = await this.getCachedJson(
+      `resource-collection:${type}`,
+      options,
+      async () => {
+        const endpoint = await this.buildEndpoint({
+          locale:
+            options?.locale !== options?.defaultLocale
+              ? options.locale
+              : undefined,
+          resourceType: type,
+          searchParams: options?.params,
+        })
+
+        this.debug(`Fetching resource collection of type ${type}.`)
+
+        const response = await this.fetch(endpoint, {
+          withAuth: options.withAuth,
+          signal: options.signal,
+          timeout: options.timeout,
+        })
+
+        await this.throwIfJsonErrors(
+          response,
+          "Error while fetching resource collection: "
+        )
+
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
+      }
+    )
+
+    return options.deserialize ? this.deserialize(json) : json
+  }
+
+  async *getResourceCollectionPages<T = JsonApiResource[]>(
+    type: string,
+    options?: {
+      deserialize?: boolean
+    } & JsonApiOptions &
+      JsonApiWithPaginationOptions
+  ): AsyncGenerator<T, void, undefined> {
+    options = {
+      withAuth: this.withAuth,
+      deserialize: true,
+      ...options,
+    }
+
+    let endpoint = await this.buildEndpoint({
       locale:
         options?.locale !== options?.defaultLocale ? options.locale : undefined,
       resourceType: type,
       searchParams: options?.params,
     })
 
-    this.debug(`Fetching resource collection of type ${type}.`)
+    let pageCount = 0
+    let itemCount = 0
 
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
+    while (endpoint) {
+      this.debug(
+        `Fetching page ${pageCount + 1} of resource collection of type ${type}.`
+      )
 
-    await this.throwIfJsonErrors(
-      response,
-      "Error while fetching resource collection: "
-    )
+      const response = await this.fetch(endpoint, {
+        withAuth: options.withAuth,
+        signal: options.signal,
+        timeout: options.timeout,
+      })
 
-    const json = await response.json()
+      await this.throwIfJsonErrors(
+        response,
+        "Error while fetching resource collection: "
+      )
 
-    return options.deserialize ? this.deserialize(json) : json
+      const json = await response.json()
+
+      // Drop any resources beyond the maxItems cap.
+      if (typeof options.maxItems === "number" && Array.isArray(json?.data)) {
+        json.data = json.data.slice(
+          0,
+          Math.max(options.maxItems - itemCount, 0)
+        )
+      }
+
+      pageCount++
+      itemCount += Array.isArray(json?.data) ? json.data.length : 0
+
+      yield options.deserialize ? this.deserialize(json) : json
+
+      if (
+        (typeof options.maxPages === "number" &&
+          pageCount >= options.maxPages) ||
+        (typeof options.maxItems === "number" && itemCount >= options.maxItems)
+      ) {
+        this.debug(`Reached pagination limit for resource type ${type}.`)
+        return
+      }
+
+      // See https://jsonapi.org/format/#fetching-pagination.
+      const next = json?.links?.next
+      endpoint = typeof next === "string" ? next : next?.href
+    }
+  }
+
+  async *iterateResourceCollection<T = JsonApiResource>(
+    type: string,
+    options?: {
+      deserialize?: boolean
+    } & JsonApiOptions &
+      JsonApiWithPaginationOptions
+  ): AsyncGenerator<T, void, undefined> {
+    options = {
+      deserialize: true,
+      ...options,
+    }
+
+    for await (const page of this.getResourceCollectionPages<
+      T[] | JsonApiResponse
+    >(type, options)) {
+      const items = options.deserialize
+        ? (page as T[])
+        : ((page as JsonApiResponse).data as T[])
+
+      for (const item of items ?? []) {
+        yield item
+      }
+    }
   }
 
   async getResourceCollectionPathSegments(
@@ -465,6 +715,7 @@ export class NextDrupal extends NextDrupalBase {
       pathPrefix?: PathPrefix
       params?: JsonApiParams
     } & JsonApiWithAuthOption &
+      JsonApiWithTimeoutOptions &
       (
         | {
             locales: Locale[]
@@ -500,16 +751,18 @@ export class NextDrupal extends NextDrupalBase {
         // Note we don't need status filter here since this runs non-authenticated (by default).
         const params = {
           [`fields[${type}]`]: "path",
-          ...options?.params,
+          ...toJsonApiParamsObject(options?.params),
         }
 
         const locales = options?.locales?.length ? options.locales : [undefined]
 
         return Promise.all(
           locales.map(async (locale) => {
-            let opts: Parameters<NextDrupal["getResourceCollection"]>[1] = {
+            let opts: Parameters<NextDrupal["iterateResourceCollection"]>[1] = {
               params,
               withAuth: options.withAuth,
+              signal: options.signal,
+              timeout: options.timeout,
             }
             if (locale) {
               opts = {
@@ -519,9 +772,17 @@ export class NextDrupal extends NextDrupalBase {
                 defaultLocale: options.defaultLocale,
               }
             }
-            const resources = await this.getResourceCollection<
-              JsonApiResourceWithPath[]
-            >(type, opts)
+
+            // Follow the pagination links so large sites are not truncated.
+            const resources: JsonApiResourceWithPath[] = []
+            const collection =
+              this.iterateResourceCollection<JsonApiResourceWithPath>(
+                type,
+                opts
+              )
+            for await (const resource of collection) {
+              resources.push(resource)
+            }
 
             return (
               resources
@@ -567,52 +828,77 @@ export class NextDrupal extends NextDrupalBase {
 
   async translatePath(
     path: string,
-    options?: JsonApiWithAuthOption
+    options?: JsonApiWithAuthOption &
+      JsonApiWithTimeoutOptions &
+      JsonApiWithCacheOptions
   ): Promise<DrupalTranslatedPath | null> {
     options = {
       withAuth: this.withAuth,
       ...options,
     }
 
-    const endpoint = this.buildUrl("/router/translate-path", {
-      path,
-    }).toString()
-
-    this.debug(`Fetching translated path, ${path}.`)
-
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
-
-    if (response.status === 404) {
-      // Do not throw errors here, otherwise Next.js will catch the error and
-      // throw a 500. We want a 404.
-      return null
-    }
+    return await this.getCachedJson(
+      `translate-path:${path}`,
+      options,
+      async () => {
+        const endpoint = this.buildUrl("/router/translate-path", {
+          path,
+        }).toString()
+
+        this.debug(`Fetching translated path, ${path}.`)
+
+        const response = await this.fetch(endpoint, {
+          withAuth: options.withAuth,
+          signal: options.signal,
+          timeout: options.timeout,
+        })
+
+        if (response.status === 404) {
+          // Do not throw errors here, otherwise Next.js will catch the error and
+          // throw a 500. We want a 404.
+          return null
+        }
 
-    await this.throwIfJsonErrors(response, "Error while fetching path: ")
+        await this.throwIfJsonErrors(response, "Error while fetching path: ")
 
-    return await response.json()
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
+      }
+    )
   }
 
-  async getIndex(locale?: Locale): Promise<JsonApiResponse> {
-    const endpoint = await this.buildEndpoint({
-      locale,
-    })
+  async getIndex(
+    locale?: Locale,
+    options?: JsonApiWithCacheOptions
+  ): Promise<JsonApiResponse> {
+    return await this.getCachedJson(
+      "index",
+      // As per https://www.drupal.org/node/2984034 /jsonapi is public.
+      { ...options, locale, withAuth: false },
+      async () => {
+        const endpoint = await this.buildEndpoint({
+          locale,
+        })
 
-    this.debug(`Fetching JSON:API index.`)
+        this.debug(`Fetching JSON:API index.`)
 
-    const response = await this.fetch(endpoint, {
-      // As per https://www.drupal.org/node/2984034 /jsonapi is public.
-      withAuth: false,
-    })
+        const response = await this.fetch(endpoint, {
+          withAuth: false,
+        })
 
-    await this.throwIfJsonErrors(
-      response,
-      `Failed to fetch JSON:API index at ${endpoint}: `
-    )
+        await this.throwIfJsonErrors(
+          response,
+          `Failed to fetch JSON:API index at ${endpoint}: `
+        )
 
-    return await response.json()
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
+      }
+    )
   }
 
   async buildEndpoint({
@@ -690,33 +976,44 @@ export class NextDrupal extends NextDrupalBase {
       ...options,
     }
 
-    /* c8 ignore next 9 */
-    if (options.withCache) {
-      const cached = (await this.cache.get(options.cacheKey)) as string
+    const data = await this.getCachedJson(
+      `menu:${menuName}`,
+      options,
+      async () => {
+        const endpoint = await this.buildEndpoint({
+          locale:
+            options?.locale !== options?.defaultLocale
+              ? options.locale
+              : undefined,
+          resourceType: "menu_items",
+          path: menuName,
+          searchParams: options.params,
+        })
+
+        this.debug(`Fetching menu items for ${menuName}.`)
+
+        const response = await this.fetch(endpoint, {
+          withAuth: options.withAuth,
+          signal: options.signal,
+          timeout: options.timeout,
+        })
+
+        await this.throwIfJsonErrors(
+          response,
+          "Error while fetching menu items: "
+        )
 
-      if (cached) {
-        this.debug(`Returning cached menu items for ${menuName}.`)
-        return JSON.parse(cached)
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
       }
-    }
-
-    const endpoint = await this.buildEndpoint({
-      locale:
-        options?.locale !== options?.defaultLocale ? options.locale : undefined,
-      resourceType: "menu_items",
-      path: menuName,
-      searchParams: options.params,
-    })
-
-    this.debug(`Fetching menu items for ${menuName}.`)
-
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
-
-    await this.throwIfJsonErrors(response, "Error while fetching menu items: ")
+    )
 
-    const data = await response.json()
+    // Menus cached by earlier versions hold the items and the tree.
+    if (isCachedMenu<T>(data)) {
+      return data
+    }
 
     const items = options.deserialize
       ? this.deserialize(data)
@@ -724,22 +1021,18 @@ export class NextDrupal extends NextDrupalBase {
 
     const tree = new DrupalMenuTree(items)
 
-    const menu = {
-      items,
-      tree: tree.length ? tree : undefined,
-    }
-
-    /* c8 ignore next 3 */
-    if (options.withCache) {
-      await this.cache.set(options.cacheKey, JSON.stringify(menu))
-    }
-
-    return menu
+    return setCacheTags(
+      {
+        items,
+        tree: tree.length ? tree : undefined,
+      },
+      getCacheTags(data)
+    )
   }
 
   async getView<T = JsonApiResource>(
     name: string,
-    options?: JsonApiOptions
+    options?: JsonApiOptions & JsonApiWithCacheOptions
   ): Promise<DrupalView<T>> {
     options = {
       withAuth: this.withAuth,
@@ -750,36 +1043,48 @@ export class NextDrupal extends NextDrupalBase {
 
     const [viewId, displayId] = name.split("--")
 
-    const endpoint = await this.buildEndpoint({
-      locale:
-        options?.locale !== options?.defaultLocale ? options.locale : undefined,
-      path: `/views/${viewId}/${displayId}`,
-      searchParams: options.params,
-    })
+    const data = await this.getCachedJson(`view:${name}`, options, async () => {
+      const endpoint = await this.buildEndpoint({
+        locale:
+          options?.locale !== options?.defaultLocale
+            ? options.locale
+            : undefined,
+        path: `/views/${viewId}/${displayId}`,
+        searchParams: options.params,
+      })
 
-    this.debug(`Fetching view, ${viewId}.${displayId}.`)
+      this.debug(`Fetching view, ${viewId}.${displayId}.`)
 
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
+      const response = await this.fetch(endpoint, {
+        withAuth: options.withAuth,
+        signal: options.signal,
+        timeout: options.timeout,
+      })
 
-    await this.throwIfJsonErrors(response, "Error while fetching view: ")
+      await this.throwIfJsonErrors(response, "Error while fetching view: ")
 
-    const data = await response.json()
+      return setCacheTags(
+        await response.json(),
+        getCacheTagsFromResponse(response)
+      )
+    })
 
     const results = options.deserialize ? this.deserialize(data) : data
 
-    return {
-      id: name,
-      results,
-      meta: data.meta,
-      links: data.links,
-    }
+    return setCacheTags(
+      {
+        id: name,
+        results,
+        meta: data.meta,
+        links: data.links,
+      },
+      getCacheTags(data)
+    )
   }
 
   async getSearchIndex<T = JsonApiResource[]>(
     name: string,
-    options?: JsonApiOptions
+    options?: JsonApiOptions & JsonApiWithCacheOptions
   ): Promise<T> {
     options = {
       withAuth: this.withAuth,
@@ -787,33 +1092,230 @@ export class NextDrupal extends NextDrupalBase {
       ...options,
     }
 
-    const endpoint = await this.buildEndpoint({
-      locale:
-        options?.locale !== options?.defaultLocale ? options.locale : undefined,
-      path: `/index/${name}`,
-      searchParams: options.params,
-    })
+    const json = await this.getCachedJson(
+      `search-index:${name}`,
+      options,
+      async () => {
+        const endpoint = await this.buildEndpoint({
+          locale:
+            options?.locale !== options?.defaultLocale
+              ? options.locale
+              : undefined,
+          path: `/index/${name}`,
+          searchParams: options.params,
+        })
+
+        this.debug(`Fetching search index, ${name}.`)
+
+        const response = await this.fetch(endpoint, {
+          withAuth: options.withAuth,
+          signal: options.signal,
+          timeout: options.timeout,
+        })
+
+        await this.throwIfJsonErrors(
+          response,
+          "Error while fetching search index: "
+        )
 
-    this.debug(`Fetching search index, ${name}.`)
+        return setCacheTags(
+          await response.json(),
+          getCacheTagsFromResponse(response)
+        )
+      }
+    )
 
-    const response = await this.fetch(endpoint, {
-      withAuth: options.withAuth,
-    })
+    return options.deserialize ? this.deserialize(json) : json
+  }
 
-    await this.throwIfJsonErrors(
-      response,
-      "Error while fetching search index: "
+  getCacheKey(
+    name: string,
+    options?: JsonApiWithAuthOption & {
+      locale?: Locale
+      defaultLocale?: Locale
+      params?: JsonApiParams
+    }
+  ) {
+    const auth =
+      options?.withAuth === true ? this.auth : options?.withAuth || null
+
+    // Hash the variable parts so auth credentials are not exposed in keys.
+    const hash = hashString(
+      stableStringify({
+        locale:
+          options?.locale !== options?.defaultLocale
+            ? options.locale
+            : undefined,
+        params: toJsonApiParamsObject(options?.params),
+        auth: typeof auth === "function" ? auth() : auth,
+      })
     )
 
-    const json = await response.json()
+    return `${DEFAULT_CACHE_KEY_PREFIX}${name}:${hash}`
+  }
 
-    return options.deserialize ? this.deserialize(json) : json
+  async getCachedJson<T>(
+    name: string,
+    options: Parameters<NextDrupal["getCacheKey"]>[1] & JsonApiWithCacheOptions,
+    load: () => Promise<T>
+  ): Promise<T> {
+    if (!options.withCache || !this.cache) {
+      return await load()
+    }
+
+    const cacheKey = options.cacheKey ?? this.getCacheKey(name, options)
+    const cached = await this.cache.get(cacheKey)
+
+    if (cached) {
+      const entry = parseCacheEntry<T>(cached)
+      const now = Date.now()
+
+      if (!entry.expiresOn || now < entry.expiresOn) {
+        this.debug(`Returning cached data for ${cacheKey}.`)
+
+        return setCacheTags(entry.value, entry.tags ?? [])
+      }
+
+      if (now < entry.expiresOn + (options.staleWhileRevalidate ?? 0) * 1000) {
+        this.debug(`Returning stale cached data for ${cacheKey}.`)
+
+        // Refresh the entry in the background, once per key.
+        if (!this._revalidatingCacheKeys.has(cacheKey)) {
+          this._revalidatingCacheKeys.add(cacheKey)
+          this.setCachedJson(cacheKey, options, load)
+            .catch((error) =>
+              this.logger.error(
+                `Failed to revalidate cached data for ${cacheKey}: ${error.message}`
+              )
+            )
+            .finally(() => this._revalidatingCacheKeys.delete(cacheKey))
+        }
+
+        return setCacheTags(entry.value, entry.tags ?? [])
+      }
+    }
+
+    return await this.setCachedJson(cacheKey, options, load)
+  }
+
+  private async setCachedJson<T>(
+    cacheKey: string,
+    options: JsonApiWithCacheOptions,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const value = await load()
+    const tags = getCacheTags(value)
+    const { cacheTtl, staleWhileRevalidate = 0 } = options
+
+    const entry: DataCacheEntry<T> = {
+      value,
+      expiresOn: cacheTtl ? Date.now() + cacheTtl * 1000 : undefined,
+      tags: tags.length ? tags : undefined,
+    }
+
+    // Let the cache evict the entry once it can no longer be served stale.
+    const ttl = cacheTtl ? cacheTtl + staleWhileRevalidate : undefined
+    await this.cache.set(cacheKey, JSON.stringify(entry), ttl)
+
+    await this.addCacheKeyToTags(cacheKey, tags, ttl)
+
+    return value
+  }
+
+  // Keeps an index of the cache keys of each cache tag, with the time their
+  // entries expire, so that cached entries can be invalidated by tag. Expired
+  // keys are removed, and the index expires with its last entry.
+  //
+  // The DataCache has no atomic append, so clients writing the same index
+  // concurrently, e.g. in other processes, can lose keys of each other.
+  private async addCacheKeyToTags(
+    cacheKey: string,
+    tags: string[],
+    ttl?: number
+  ) {
+    const expiresOn = ttl ? Date.now() + ttl * 1000 : null
+
+    await Promise.all(
+      tags.map((tag) => {
+        const tagKey = getCacheTagKey(tag)
+        const previous = this._tagIndexWrites.get(tagKey) ?? Promise.resolve()
+        const write = previous.then(async () => {
+          const now = Date.now()
+          const index = Object.fromEntries(
+            Object.entries(parseTagIndex(await this.cache.get(tagKey))).filter(
+              ([, keyExpiresOn]) => keyExpiresOn === null || keyExpiresOn > now
+            )
+          )
+          index[cacheKey] = expiresOn
+
+          const expiries = Object.values(index)
+          await this.cache.set(
+            tagKey,
+            JSON.stringify(index),
+            expiries.includes(null)
+              ? undefined
+              : Math.ceil((Math.max(...expiries) - now) / 1000)
+          )
+        })
+
+        // A failed write does not fail the writes queued after it.
+        const queued = write.catch(() => {})
+        this._tagIndexWrites.set(tagKey, queued)
+        queued.then(() => {
+          if (this._tagIndexWrites.get(tagKey) === queued) {
+            this._tagIndexWrites.delete(tagKey)
+          }
+        })
+
+        return write
+      })
+    )
+  }
+
+  /**
+   * Removes the cached entries tagged with any of the given cache tags, e.g.
+   * the tags Drupal invalidates when an entity is saved. Entries whose key was
+   * lost by concurrent writes of the tag index, e.g. by other processes, are
+   * not removed.
+   *
+   * @param {string[]} tags The cache tags to invalidate.
+   * @returns {Promise<string[]>} The cache keys of the removed entries.
+   */
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    if (!this.cache || !tags.length) {
+      return []
+    }
+
+    if (!this.cache.del) {
+      throw new Error("The cache must implement del() to invalidate tags.")
+    }
+
+    const tagKeys = tags.map(getCacheTagKey)
+    const cacheKeys = new Set<string>()
+
+    for (const tagKey of tagKeys) {
+      for (const cacheKey of Object.keys(
+        parseTagIndex(await this.cache.get(tagKey))
+      )) {
+        cacheKeys.add(cacheKey)
+      }
+    }
+
+    await Promise.all(
+      [...cacheKeys, ...tagKeys].map((key) => this.cache.del(key))
+    )
+
+    this.debug(
+      `Invalidated ${cacheKeys.size} cached entries for tags ${tags.join(", ")}.`
+    )
+
+    return [...cacheKeys]
   }
 
   deserialize(body, options?) {
     if (!body) return null
 
-    return this.deserializer(body, options)
+    return setCacheTags(this.deserializer(body, options), getCacheTags(body))
   }
 
   // Error handling.
@@ -829,3 +1331,60 @@ export class NextDrupal extends NextDrupalBase {
     throw error
   }
 }
+
+function parseCacheEntry<T>(cached: unknown): DataCacheEntry<T> {
+  const entry = typeof cached === "string" ? JSON.parse(cached) : cached
+
+  // Entries cached by earlier versions hold the value itself.
+  return entry && typeof entry === "object" && "value" in entry
+    ? entry
+    : { value: entry }
+}
+
+function getCacheTagKey(tag: string) {
+  return `${DEFAULT_CACHE_KEY_PREFIX}tag:${tag}`
+}
+
+function isCachedMenu<T>(data: unknown): data is { items: T[]; tree: T[] } {
+  return (
+    !!data && typeof data === "object" && "items" in data && !("data" in data)
+  )
+}
+
+// The cache keys of a tag, with the timestamp their entries expire, or null.
+function parseTagIndex(cached: unknown): Record<string, number | null> {
+  const index = typeof cached === "string" ? JSON.parse(cached) : cached
+
+  // Indexes written by earlier versions are lists of cache keys.
+  return Array.isArray(index)
+    ? Object.fromEntries(index.map((cacheKey) => [cacheKey, null]))
+    : index || {}
+}
+
+// Serializes a value with sorted object keys, so equal values match.
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : value
+  )
+}
+
+// A fast, non-cryptographic string hash (cyrb53).
+function hashString(value: string) {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507)
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507)
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
@@ -0,0 +1,64 @@
+import type { Redirect } from "next"
+import type { DrupalRedirect, DrupalTranslatedPath } from "./types"
+
+type RedirectStatusCode = Extract<
+  Redirect,
+  { statusCode: number }
+>["statusCode"]
+
+const REDIRECT_STATUS_CODES: number[] = [301, 302, 303, 307, 308]
+
+/**
+ * Returns the redirect of a translated path, or null if the path does not
+ * redirect. A chain of redirects is returned as one redirect, from the path
+ * to the last destination.
+ *
+ * @param {DrupalTranslatedPath | null} translatedPath The translated path.
+ * @returns {DrupalRedirect | null} The redirect.
+ */
+export function getRedirect(
+  translatedPath: Pick<DrupalTranslatedPath, "redirect"> | null
+): DrupalRedirect | null {
+  const redirects = translatedPath?.redirect ?? []
+
+  if (!redirects.length) {
+    return null
+  }
+
+  return {
+    from: redirects[0].from,
+    to: redirects[redirects.length - 1].to,
+    status: Number(redirects[0].status),
+  }
+}
+
+/**
+ * Returns the `redirect` of `getStaticProps` or `getServerSideProps` for the
+ * Pages Router. Status codes Next.js does not support are sent as 302.
+ *
+ * @param {DrupalRedirect} drupalRedirect The redirect, e.g. a RedirectError.
+ * @returns {{ redirect: Redirect }} The props.
+ */
+export function getRedirectProps({ to, status }: DrupalRedirect): {
+  redirect: Redirect
+} {
+  return {
+    redirect: {
+      destination: to,
+      statusCode: getRedirectStatusCode(status),
+    },
+  }
+}
+
+/**
+ * Returns the status code Next.js sends for a redirect. Status codes Next.js
+ * does not support, e.g. 300, are sent as 302.
+ *
+ * @param {number} status The status code of the redirect.
+ * @returns {RedirectStatusCode} The status code.
+ */
+export function getRedirectStatusCode(status: number): RedirectStatusCode {
+  return (
+    REDIRECT_STATUS_CODES.includes(status) ? status : 302
+  ) as RedirectStatusCode
+}
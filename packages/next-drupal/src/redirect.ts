@@ -0,0 +1,19 @@
+import { permanentRedirect, redirect } from "next/navigation"
+import type { DrupalRedirect } from "./types"
+
+const PERMANENT_REDIRECT_STATUS_CODES: number[] = [301, 308]
+
+/**
+ * Redirects to the destination of a redirect in the App Router. Permanent
+ * redirects use permanentRedirect(), so Next.js sends a 308, and other
+ * redirects a 307.
+ *
+ * @param {DrupalRedirect} drupalRedirect The redirect, e.g. a RedirectError.
+ */
+export function followRedirect({ to, status }: DrupalRedirect): never {
+  if (PERMANENT_REDIRECT_STATUS_CODES.includes(status)) {
+    permanentRedirect(to)
+  }
+
+  redirect(to)
+}
@@ -0,0 +1,71 @@
+import type { RequestQueueMetrics } from "./types"
+
+// Limits the number of concurrent requests. Requests over the limit wait in
+// a first in, first out queue until a running request releases its slot.
+export class RequestQueue {
+  limit: number
+
+  private _active = 0
+
+  private _waiting: (() => void)[] = []
+
+  private _requests = 0
+
+  private _totalWaitTime = 0
+
+  private _maxWaitTime = 0
+
+  constructor(limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(
+        "The request concurrency limit must be a positive integer."
+      )
+    }
+
+    this.limit = limit
+  }
+
+  // Resolves with the time, in milliseconds, spent waiting for a slot.
+  async acquire(): Promise<number> {
+    const start = Date.now()
+
+    if (this._active < this.limit) {
+      this._active++
+    } else {
+      // The slot is handed over by release(), so _active is unchanged.
+      await new Promise<void>((resolve) => this._waiting.push(resolve))
+    }
+
+    const waitTime = Date.now() - start
+
+    this._requests++
+    this._totalWaitTime += waitTime
+    this._maxWaitTime = Math.max(this._maxWaitTime, waitTime)
+
+    return waitTime
+  }
+
+  release() {
+    const next = this._waiting.shift()
+
+    if (next) {
+      next()
+    } else {
+      this._active--
+    }
+  }
+
+  get metrics(): RequestQueueMetrics {
+    return {
+      limit: this.limit,
+      active: this._active,
+      queued: this._waiting.length,
+      requests: this._requests,
+      totalWaitTime: this._totalWaitTime,
+      maxWaitTime: this._maxWaitTime,
+      averageWaitTime: this._requests
+        ? this._totalWaitTime / this._requests
+        : 0,
+    }
+  }
+}
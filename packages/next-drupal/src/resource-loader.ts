@@ -0,0 +1,230 @@
+import { getCacheTags, setCacheTags } from "./cache-tags"
+import { NotFoundError } from "./jsonapi-errors"
+import { toJsonApiParamsObject } from "./jsonapi-params"
+import type {
+  JsonApiOptions,
+  JsonApiResource,
+  JsonApiResponse,
+  NextDrupalClient,
+  ResourceLoaderOptions,
+} from "./types"
+
+// The maximum page size of the Drupal JSON:API module.
+const DEFAULT_MAX_BATCH_SIZE = 50
+
+interface PendingLoad {
+  id: string
+  resolve: (json: unknown) => void
+  reject: (error: unknown) => void
+}
+
+interface PendingBatch {
+  type: string
+  options: JsonApiOptions
+  loads: PendingLoad[]
+}
+
+/**
+ * Batches and deduplicates resource requests. Resources of the same type,
+ * loaded with the same options in the same tick, are fetched using a single
+ * collection request filtered by id.
+ *
+ * Loaded resources are kept for the lifetime of the loader, so create a new
+ * loader for every request, e.g. using drupal.createLoader().
+ */
+export class ResourceLoader {
+  drupal: NextDrupalClient
+
+  maxBatchSize: number
+
+  // Loaded resources, keyed by batch key and id.
+  private _loads = new Map<string, Promise<unknown>>()
+
+  private _batches = new Map<string, PendingBatch>()
+
+  constructor(
+    drupal: NextDrupalClient,
+    { maxBatchSize = DEFAULT_MAX_BATCH_SIZE }: ResourceLoaderOptions = {}
+  ) {
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+      throw new Error("The maximum batch size must be a positive integer.")
+    }
+
+    this.drupal = drupal
+    this.maxBatchSize = maxBatchSize
+  }
+
+  async load<T extends JsonApiResource>(
+    type: string,
+    id: string,
+    options?: JsonApiOptions
+  ): Promise<T> {
+    // The signal only aborts this load. Batched requests are shared with
+    // other loads, so they are sent without it.
+    const { signal, ...batchOptions } = {
+      deserialize: true,
+      withAuth: this.drupal.withAuth,
+      ...options,
+    }
+
+    const batchKey = this.getBatchKey(type, batchOptions)
+    const key = `${batchKey}:${id}`
+
+    if (!this._loads.has(key)) {
+      const load = new Promise((resolve, reject) =>
+        this.enqueue(batchKey, type, batchOptions, { id, resolve, reject })
+      )
+      this._loads.set(key, load)
+
+      // Failed loads are not kept, so that the next load tries again.
+      load.catch(() => {
+        if (this._loads.get(key) === load) {
+          this._loads.delete(key)
+        }
+      })
+    }
+
+    const json = await abortable(this._loads.get(key), signal)
+
+    return (
+      batchOptions.deserialize ? this.drupal.deserialize(json) : json
+    ) as T
+  }
+
+  async loadMany<T extends JsonApiResource>(
+    type: string,
+    ids: string[],
+    options?: JsonApiOptions
+  ): Promise<T[]> {
+    return await Promise.all(ids.map((id) => this.load<T>(type, id, options)))
+  }
+
+  // Removes a loaded resource, so that the next load fetches it again.
+  clear(type: string, id: string, options?: JsonApiOptions) {
+    this._loads.delete(
+      `${this.getBatchKey(type, {
+        withAuth: this.drupal.withAuth,
+        ...options,
+      })}:${id}`
+    )
+
+    return this
+  }
+
+  clearAll() {
+    this._loads.clear()
+
+    return this
+  }
+
+  private getBatchKey(type: string, options: JsonApiOptions) {
+    return this.drupal.getCacheKey(`resource-loader:${type}`, options)
+  }
+
+  private enqueue(
+    batchKey: string,
+    type: string,
+    options: JsonApiOptions,
+    load: PendingLoad
+  ) {
+    let batch = this._batches.get(batchKey)
+
+    if (!batch) {
+      batch = { type, options, loads: [] }
+      this._batches.set(batchKey, batch)
+
+      // Wait for the current tick, so that loads made in it are batched.
+      setTimeout(() => {
+        this._batches.delete(batchKey)
+        this.dispatch(batch)
+      }, 0)
+    }
+
+    batch.loads.push(load)
+  }
+
+  private dispatch({ type, options, loads }: PendingBatch) {
+    // Resource versions can not be loaded using collections.
+    if (toJsonApiParamsObject(options.params)?.resourceVersion) {
+      for (const { id, resolve, reject } of loads) {
+        this.drupal
+          .getResource(type, id, { ...options, deserialize: false })
+          .then(resolve, reject)
+      }
+      return
+    }
+
+    for (let i = 0; i < loads.length; i += this.maxBatchSize) {
+      this.dispatchBatch(type, options, loads.slice(i, i + this.maxBatchSize))
+    }
+  }
+
+  private async dispatchBatch(
+    type: string,
+    options: JsonApiOptions,
+    loads: PendingLoad[]
+  ) {
+    const ids = loads.map(({ id }) => id)
+
+    this.drupal.debug(`Loading ${ids.length} resources of type ${type}.`)
+
+    let json: JsonApiResponse
+    try {
+      json = await this.drupal.getResourceCollection<JsonApiResponse>(type, {
+        ...options,
+        deserialize: false,
+        params: {
+          ...toJsonApiParamsObject(options.params),
+          "filter[id][condition][path]": "id",
+          "filter[id][condition][operator]": "IN",
+          "filter[id][condition][value]": ids,
+          "page[limit]": ids.length,
+        },
+      })
+    } catch (error) {
+      for (const { reject } of loads) {
+        reject(error)
+      }
+      return
+    }
+
+    for (const { id, resolve, reject } of loads) {
+      const data = json.data.find((resource) => resource.id === id)
+
+      if (!data) {
+        reject(
+          new NotFoundError(
+            `Resource of type '${type}' with id '${id}' not found.`,
+            404,
+            "Error while fetching resource:"
+          )
+        )
+        continue
+      }
+
+      // Split the collection into a document per resource.
+      resolve(setCacheTags({ ...json, data }, getCacheTags(json)))
+    }
+  }
+}
+
+// Rejects with the reason of the signal when it aborts before the promise
+// settles.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+
+    if (signal.aborted) {
+      return onAbort()
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort)
+    })
+  })
+}
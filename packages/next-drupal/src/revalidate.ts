@@ -0,0 +1,289 @@
+import { revalidatePath, revalidateTag } from "next/cache"
+import { parseCacheTags } from "./cache-tags"
+import {
+  SIGNATURE_HEADER,
+  SIGNATURE_PARAM,
+  timingSafeEqual,
+  verifySignature,
+} from "./signature"
+import type { NextApiRequest, NextApiResponse } from "next"
+import type {
+  NextDrupalClient,
+  RevalidateHandlerOptions,
+  RevalidateReport,
+} from "./types"
+
+// The last signature is the one Next.js checks for route handlers.
+type RevalidateHandler = {
+  (request: NextApiRequest, response: NextApiResponse): Promise<void>
+  (request: Request): Promise<Response>
+}
+
+interface RevalidateInput {
+  method: string
+  // The pathname of the request URL.
+  path: string
+  searchParams: URLSearchParams
+  signature?: string
+  // The raw request body.
+  body: string
+  paths: unknown[]
+  tags: unknown[]
+}
+
+// Revalidates the Next.js cache for the given Drupal cache tags. If a client
+// is given, the entries tagged in its DataCache are invalidated as well.
+export async function revalidateTags(
+  tags: string[],
+  drupal?: NextDrupalClient
+): Promise<string[]> {
+  tags = [...new Set(tags)]
+
+  await drupal?.invalidateTags(tags)
+
+  for (const tag of tags) {
+    revalidateTag(tag)
+  }
+
+  return tags
+}
+
+/**
+ * Creates a route handler that revalidates the paths and cache tags sent by
+ * Drupal. Works as an App Router route handler and a Pages Router API route.
+ *
+ * Paths are sent as `path` query params, e.g. by the `Path` revalidator
+ * plugin, and tags as a space-separated `tags` query param. Batches can be
+ * sent as a JSON POST body with `paths` and `tags` arrays.
+ *
+ * Requests are validated with the `secret` query param, or, if a signing
+ * secret is set, with an HMAC signature. See createSignature().
+ *
+ * @param {RevalidateHandlerOptions} options Options for the handler.
+ * @returns {RevalidateHandler} The route handler.
+ */
+export function createRevalidateHandler(
+  options: RevalidateHandlerOptions = {}
+): RevalidateHandler {
+  const {
+    drupal,
+    secret = process.env.DRUPAL_REVALIDATE_SECRET,
+    signingSecret,
+    signatureMaxAge,
+    locales = [],
+    defaultLocale,
+  } = options
+
+  async function revalidate(
+    input: RevalidateInput,
+    revalidatePathOrPage: (path: string) => Promise<void> | void,
+    revalidateTagsOrCache: (tags: string[]) => Promise<unknown>
+  ): Promise<[number, RevalidateReport | string]> {
+    // Validate signature or secret.
+    if (signingSecret) {
+      const isValid = await verifySignature(
+        signingSecret,
+        input.signature,
+        input,
+        { maxAge: signatureMaxAge }
+      )
+
+      if (!isValid) {
+        return [401, "Invalid signature."]
+      }
+    } else if (
+      !secret ||
+      !timingSafeEqual(input.searchParams.get("secret") ?? "", secret)
+    ) {
+      return [401, "Invalid secret."]
+    }
+
+    const { paths, tags } = input
+
+    // Validate paths and tags.
+    if (!paths.length && !tags.length) {
+      return [400, "Invalid path or tags."]
+    }
+
+    if (
+      paths.some((path) => typeof path !== "string" || !path.startsWith("/"))
+    ) {
+      return [400, "Invalid path."]
+    }
+
+    if (tags.some((tag) => typeof tag !== "string" || !tag)) {
+      return [400, "Invalid tags."]
+    }
+
+    const report: RevalidateReport = {
+      revalidated: false,
+      now: Date.now(),
+      paths: [],
+      tags: [],
+      errors: [],
+    }
+
+    for (const path of new Set(paths as string[])) {
+      try {
+        await revalidatePathOrPage(path)
+        report.paths.push(path)
+      } catch (error) {
+        report.errors.push({ path, message: (error as Error).message })
+      }
+    }
+
+    for (const tag of new Set(tags as string[])) {
+      try {
+        await revalidateTagsOrCache([tag])
+        report.tags.push(tag)
+      } catch (error) {
+        report.errors.push({ tag, message: (error as Error).message })
+      }
+    }
+
+    report.revalidated = !report.errors.length
+
+    return [report.revalidated ? 200 : 500, report]
+  }
+
+  // Resolves paths without a locale prefix for sites with multiple locales.
+  function localizePath(path: string, { prefixDefaultLocale }) {
+    if (!defaultLocale || !locales.length) {
+      return path
+    }
+
+    const [, prefix] = path.split("/")
+
+    if (prefixDefaultLocale && !locales.includes(prefix)) {
+      return `/${defaultLocale}${path === "/" ? "" : path}`
+    }
+
+    if (!prefixDefaultLocale && prefix === defaultLocale) {
+      return path.slice(defaultLocale.length + 1) || "/"
+    }
+
+    return path
+  }
+
+  async function handler(
+    request: Request | NextApiRequest,
+    response?: NextApiResponse
+  ) {
+    // App Router route handlers are called with a context object instead.
+    if (typeof response?.revalidate === "function") {
+      let input: RevalidateInput
+      try {
+        input = await getPagesInput(request as NextApiRequest)
+      } catch (error) {
+        return response.status(400).json({ message: (error as Error).message })
+      }
+
+      const [status, body] = await revalidate(
+        input,
+        (path) =>
+          response.revalidate(
+            localizePath(path, { prefixDefaultLocale: false })
+          ),
+        async (tags) => {
+          // Next.js does not support cache tags in the Pages Router.
+          if (!drupal) {
+            throw new Error("Tags can only be revalidated in the App Router.")
+          }
+
+          await drupal.invalidateTags(tags)
+        }
+      )
+
+      return typeof body === "string"
+        ? response.status(status).json({ message: body })
+        : response.status(status).json(body)
+    }
+
+    let input: RevalidateInput
+    try {
+      input = await getAppInput(request as Request)
+    } catch (error) {
+      return new Response((error as Error).message, { status: 400 })
+    }
+
+    const [status, body] = await revalidate(
+      input,
+      (path) =>
+        revalidatePath(localizePath(path, { prefixDefaultLocale: true })),
+      (tags) => revalidateTags(tags, drupal)
+    )
+
+    return typeof body === "string"
+      ? new Response(body, { status })
+      : Response.json(body, { status })
+  }
+
+  return handler as RevalidateHandler
+}
+
+async function getAppInput(request: Request): Promise<RevalidateInput> {
+  const body = request.method === "POST" ? await request.text() : ""
+
+  return getInput(
+    request.method,
+    new URL(request.url),
+    request.headers.get(SIGNATURE_HEADER) ?? undefined,
+    body
+  )
+}
+
+async function getPagesInput(
+  request: NextApiRequest
+): Promise<RevalidateInput> {
+  const url = new URL(request.url, "http://localhost")
+  const signature = request.headers[SIGNATURE_HEADER.toLowerCase()]
+
+  // Next.js parses JSON bodies. Signed requests need the raw body, which is
+  // available if the body parser is disabled for the API route.
+  let body = request.body
+  if (body === undefined) {
+    body = ""
+    for await (const chunk of request) {
+      body += chunk
+    }
+  } else if (typeof body !== "string") {
+    body = JSON.stringify(body)
+  }
+
+  return getInput(request.method, url, [signature].flat()[0], body)
+}
+
+function getInput(
+  method: string,
+  { pathname, searchParams }: URL,
+  signature: string | undefined,
+  body: string
+): RevalidateInput {
+  const json = parseBody(body)
+
+  return {
+    method,
+    path: pathname,
+    searchParams,
+    signature: signature ?? searchParams.get(SIGNATURE_PARAM) ?? undefined,
+    body,
+    paths: [
+      ...searchParams.getAll("path"),
+      ...[json?.path ?? [], json?.paths ?? []].flat(),
+    ],
+    tags: [
+      ...parseCacheTags(searchParams.get("tags")),
+      ...(typeof json?.tags === "string"
+        ? parseCacheTags(json.tags)
+        : [json?.tags ?? []].flat()),
+    ],
+  }
+}
+
+function parseBody(text: string) {
+  try {
+    return text ? JSON.parse(text) : {}
+  } catch (error) {
+    throw new Error("Invalid JSON body.")
+  }
+}
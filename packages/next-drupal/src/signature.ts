@@ -0,0 +1,144 @@
+export const SIGNATURE_HEADER = "X-Drupal-Signature"
+
+// Draft requests are browser redirects, so they are signed with a query param.
+export const SIGNATURE_PARAM = "signature"
+
+// The number of seconds a signature is valid for, before or after it was made.
+export const DEFAULT_SIGNATURE_MAX_AGE = 300
+
+export interface SignaturePayload {
+  // The method of the request. Defaults to GET.
+  method?: string
+  // The pathname of the request URL, e.g. /api/revalidate. Defaults to /.
+  path?: string
+  searchParams?: URLSearchParams | string
+  body?: string
+}
+
+/**
+ * Signs a request. The signature has the form `t=<timestamp>,v1=<hmac>`, where
+ * hmac is the hex encoded HMAC-SHA256 of
+ * `<timestamp>.<method>.<path>.<query>.<body>`. The query params are sorted by
+ * name and do not include the signature param.
+ *
+ * @param {string} secret The shared secret.
+ * @param {SignaturePayload} payload The method, path, query params and body of
+ * the request.
+ * @param {number} timestamp The Unix timestamp, in seconds, of the request.
+ * @returns {Promise<string>} The signature.
+ */
+export async function createSignature(
+  secret: string,
+  payload: SignaturePayload,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const hmac = await hmacSha256(secret, getSignedContent(timestamp, payload))
+
+  return `t=${timestamp},v1=${hmac}`
+}
+
+/**
+ * Verifies a signature made with createSignature(). Signatures older, or
+ * newer, than maxAge seconds are rejected so they cannot be replayed.
+ *
+ * @param {string} secret The shared secret.
+ * @param {string} signature The signature of the request.
+ * @param {SignaturePayload} payload The method, path, query params and body of
+ * the request.
+ * @param {Object} options Options for verifying the signature.
+ * @returns {Promise<boolean>} Whether the signature is valid.
+ */
+export async function verifySignature(
+  secret: string,
+  signature: string | null | undefined,
+  payload: SignaturePayload,
+  { maxAge = DEFAULT_SIGNATURE_MAX_AGE }: { maxAge?: number } = {}
+): Promise<boolean> {
+  const parts = Object.fromEntries(
+    (signature ?? "").split(",").map((part) => part.trim().split("="))
+  )
+  const timestamp = Number(parts.t)
+
+  if (!secret || !Number.isInteger(timestamp) || !parts.v1) {
+    return false
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > maxAge) {
+    return false
+  }
+
+  const hmac = await hmacSha256(secret, getSignedContent(timestamp, payload))
+
+  return timingSafeEqual(parts.v1, hmac)
+}
+
+/**
+ * Verifies the signature of a request, sent using the X-Drupal-Signature
+ * header or the signature query param.
+ *
+ * @param {Request} request The request.
+ * @param {string} secret The shared secret.
+ * @param {Object} options Options for verifying the signature.
+ * @returns {Promise<boolean>} Whether the signature is valid.
+ */
+export async function verifyRequestSignature(
+  request: Request,
+  secret: string,
+  options?: { maxAge?: number }
+): Promise<boolean> {
+  const { pathname, searchParams } = new URL(request.url)
+
+  return await verifySignature(
+    secret,
+    request.headers.get(SIGNATURE_HEADER) ?? searchParams.get(SIGNATURE_PARAM),
+    {
+      method: request.method,
+      path: pathname,
+      searchParams,
+      body: await request.clone().text(),
+    },
+    options
+  )
+}
+
+// Compares strings in constant time, so that secrets cannot be guessed by
+// timing the responses.
+export function timingSafeEqual(a: string, b: string) {
+  let result = a.length ^ b.length
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    result |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+
+  return result === 0
+}
+
+// The method and path are signed, so that a signature cannot be replayed
+// against another endpoint that uses the same secret.
+function getSignedContent(
+  timestamp: number,
+  { method = "GET", path = "/", searchParams, body = "" }: SignaturePayload
+) {
+  const params = new URLSearchParams(searchParams)
+  params.delete(SIGNATURE_PARAM)
+  params.sort()
+
+  return `${timestamp}.${method.toUpperCase()}.${path}.${params.toString()}.${body}`
+}
+
+// Uses the Web Crypto API, which is available in Node.js and the Edge Runtime.
+async function hmacSha256(secret: string, content: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const hmac = await crypto.subtle.sign("HMAC", key, encoder.encode(content))
+
+  return [...new Uint8Array(hmac)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
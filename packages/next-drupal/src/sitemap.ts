@@ -0,0 +1,253 @@
+import { toJsonApiParamsObject } from "./jsonapi-params"
+import type {
+  CreateSitemapOptions,
+  JsonApiResourceWithPath,
+  Locale,
+  NextDrupalClient,
+  SitemapAdapter,
+  SitemapEntry,
+  SitemapOptions,
+} from "./types"
+
+// The maximum number of URLs of a sitemap, see https://www.sitemaps.org.
+export const SITEMAP_MAX_URLS = 50000
+
+interface SitemapResource extends JsonApiResourceWithPath {
+  changed?: string
+}
+
+/**
+ * Returns the sitemap entries of the resources of the given types, in every
+ * locale. Entries have the `changed` date of the resource as `lastModified`,
+ * and the URLs of its translations as hreflang alternates.
+ *
+ * @param {NextDrupal} drupal The client.
+ * @param {SitemapOptions} options Options for the sitemap.
+ * @returns {Promise<SitemapEntry[]>} The entries.
+ */
+export async function getSitemapEntries(
+  drupal: NextDrupalClient,
+  options: SitemapOptions
+): Promise<SitemapEntry[]> {
+  const {
+    types,
+    locales,
+    defaultLocale,
+    withAuth = drupal.withAuth,
+    signal,
+    timeout,
+  } = options
+  const baseUrl = options.baseUrl.replace(/\/$/, "")
+  // The URLs of the translations of a resource, by locale.
+  const translations = new Map<string, Record<Locale, string>>()
+
+  const entries = await Promise.all(
+    types.flatMap((type) =>
+      (locales?.length ? locales : [undefined]).map(async (locale) => {
+        const params = {
+          [`fields[${type}]`]: "path,changed,langcode",
+          ...toJsonApiParamsObject(options.params),
+        }
+        const collection = drupal.iterateResourceCollection<SitemapResource>(
+          type,
+          { params, locale, defaultLocale, withAuth, signal, timeout }
+        )
+        const typeEntries: (SitemapEntry & { key: string })[] = []
+
+        for await (const resource of collection) {
+          const alias = resource.path?.alias
+
+          // Drupal returns resources without a translation in the default
+          // language. These are listed in the default locale only.
+          if (!alias || (locale && resource.langcode !== locale)) {
+            continue
+          }
+
+          const prefix = locale && locale !== defaultLocale ? `/${locale}` : ""
+          const path = alias === drupal.frontPage ? "" : alias
+          const url = `${baseUrl}${`${prefix}${path}` || "/"}`
+          const key = `${type}:${resource.id}`
+
+          if (locale) {
+            translations.set(key, { ...translations.get(key), [locale]: url })
+          }
+
+          typeEntries.push({
+            key,
+            url,
+            ...(resource.changed && { lastModified: resource.changed }),
+          })
+        }
+
+        return typeEntries
+      })
+    )
+  )
+
+  return entries.flat().map(({ key, ...entry }) => {
+    const languages = translations.get(key)
+
+    return languages && Object.keys(languages).length > 1
+      ? { ...entry, alternates: { languages } }
+      : entry
+  })
+}
+
+/**
+ * Splits sitemap entries into sitemaps of at most `limit` URLs. Returns a
+ * sitemap without entries if there are no entries.
+ *
+ * @param {SitemapEntry[]} entries The entries.
+ * @param {number} limit The maximum number of URLs of a sitemap.
+ * @returns {SitemapEntry[][]} The entries of the sitemaps.
+ */
+export function splitSitemapEntries(
+  entries: SitemapEntry[],
+  limit = SITEMAP_MAX_URLS
+): SitemapEntry[][] {
+  const count = Math.max(Math.ceil(entries.length / limit), 1)
+
+  return Array.from({ length: count }, (_, index) =>
+    entries.slice(index * limit, (index + 1) * limit)
+  )
+}
+
+/**
+ * Returns the XML of a sitemap, e.g. for a Pages Router API route.
+ *
+ * @param {SitemapEntry[]} entries The entries.
+ * @returns {string} The XML.
+ */
+export function createSitemapXml(entries: SitemapEntry[]): string {
+  const urls = entries.map(
+    ({ url, lastModified, changeFrequency, priority, alternates }) =>
+      [
+        "<url>",
+        `<loc>${escapeXml(url)}</loc>`,
+        ...Object.entries(alternates?.languages ?? {}).map(
+          ([language, href]) =>
+            `<xhtml:link rel="alternate" hreflang="${escapeXml(language)}" href="${escapeXml(href)}" />`
+        ),
+        lastModified && `<lastmod>${toW3cDate(lastModified)}</lastmod>`,
+        changeFrequency && `<changefreq>${changeFrequency}</changefreq>`,
+        priority !== undefined && `<priority>${priority}</priority>`,
+        "</url>",
+      ]
+        .filter(Boolean)
+        .join("\n")
+  )
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">`,
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Returns the XML of a sitemap index, listing the URLs of sitemaps.
+ *
+ * @param {string[]} sitemaps The URLs of the sitemaps.
+ * @returns {string} The XML.
+ */
+export function createSitemapIndexXml(sitemaps: string[]): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...sitemaps.map(
+      (url) => `<sitemap>\n<loc>${escapeXml(url)}</loc>\n</sitemap>`
+    ),
+    "</sitemapindex>",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Creates the exports of the App Router `sitemap.ts` and `robots.ts` files.
+ * Sitemaps are split beyond `limit` URLs, and served at `/sitemap/[id].xml`.
+ * `robots.txt` lists every sitemap, and `sitemapIndex` is a route handler for
+ * a sitemap index.
+ *
+ * // app/sitemap.ts
+ * const { generateSitemaps, sitemap } = createSitemap(drupal, options)
+ * export { generateSitemaps }
+ * export default sitemap
+ *
+ * @param {NextDrupal} drupal The client.
+ * @param {CreateSitemapOptions} options Options for the sitemaps.
+ * @returns {SitemapAdapter} The exports.
+ */
+export function createSitemap(
+  drupal: NextDrupalClient,
+  {
+    limit = SITEMAP_MAX_URLS,
+    rules = { userAgent: "*", allow: "/" },
+    cacheTtl = 60,
+    ...options
+  }: CreateSitemapOptions
+): SitemapAdapter {
+  const baseUrl = options.baseUrl.replace(/\/$/, "")
+  let cache: { sitemaps: Promise<SitemapEntry[][]>; expiresOn: number } | null =
+    null
+
+  // The exports share the entries for `cacheTtl` seconds, so that the site is
+  // not crawled again for every sitemap.
+  const getSitemaps = () => {
+    if (cache && cache.expiresOn > Date.now()) {
+      return cache.sitemaps
+    }
+
+    const sitemaps = getSitemapEntries(drupal, options).then((entries) =>
+      splitSitemapEntries(entries, limit)
+    )
+    const entry = { sitemaps, expiresOn: Date.now() + cacheTtl * 1000 }
+    cache = entry
+
+    // Failed requests are not cached, so that they are tried again.
+    sitemaps.catch(() => {
+      if (cache === entry) {
+        cache = null
+      }
+    })
+
+    return sitemaps
+  }
+
+  const getSitemapUrls = async () =>
+    (await getSitemaps()).map((_, id) => `${baseUrl}/sitemap/${id}.xml`)
+
+  return {
+    generateSitemaps: async () =>
+      (await getSitemaps()).map((_, id) => ({ id })),
+    // Next.js passes the id as a string.
+    sitemap: async ({ id }) => (await getSitemaps())[Number(id)] ?? [],
+    sitemapIndex: async () =>
+      new Response(createSitemapIndexXml(await getSitemapUrls()), {
+        headers: { "Content-Type": "application/xml" },
+      }),
+    robots: async () => ({
+      rules,
+      sitemap: await getSitemapUrls(),
+    }),
+  }
+}
+
+function toW3cDate(date: string | Date) {
+  return typeof date === "string" ? date : date.toISOString()
+}
+
+function escapeXml(value: string) {
+  return value.replace(
+    /[&<>"']/g,
+    (character) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[character]
+  )
+}
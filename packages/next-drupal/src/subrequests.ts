@@ -0,0 +1,293 @@
+import { stringify } from "qs"
+import { parseCacheTags, setCacheTags } from "./cache-tags"
+import { JsonApiErrors } from "./jsonapi-errors"
+import { toJsonApiParamsObject } from "./jsonapi-params"
+import type {
+  DrupalMenuItem,
+  DrupalTranslatedPath,
+  JsonApiParams,
+  JsonApiResource,
+  NextDrupalClient,
+  SubrequestBlueprint,
+  SubrequestOptions,
+  SubrequestsResult,
+  SubrequestsSendOptions,
+} from "./types"
+
+interface PendingSubrequest extends Omit<SubrequestBlueprint, "uri"> {
+  requestId: string
+  // Resource uris are resolved when sending, since they depend on the locale.
+  uri: string | ((options: SubrequestsSendOptions) => Promise<string>)
+}
+
+interface Subresponse {
+  headers?: Record<string, unknown[]>
+  body?: string
+}
+
+/**
+ * Returns a replacement for a value in the body of another request, e.g.
+ * `createSubrequestReplacement("router", "$.entity.uuid")`.
+ *
+ * @param {string} requestId The id of the request.
+ * @param {string} path The JSONPath of the value in the response body.
+ * @returns {string} The replacement.
+ */
+export function createSubrequestReplacement(requestId: string, path: string) {
+  return `{{${requestId}.body@${path}}}`
+}
+
+/**
+ * Builds a blueprint of requests that are sent in one request using the
+ * Subrequests module. Requests can wait for other requests and use values
+ * from their responses, see createSubrequestReplacement().
+ */
+export class SubrequestsBuilder<R = object> {
+  drupal: NextDrupalClient
+
+  private _requests: PendingSubrequest[] = []
+
+  constructor(drupal: NextDrupalClient) {
+    this.drupal = drupal
+  }
+
+  add<K extends string, T = unknown>(
+    requestId: K,
+    blueprint: SubrequestBlueprint
+  ) {
+    return this.addRequest<K, T>({ ...blueprint, requestId })
+  }
+
+  translatePath<K extends string>(requestId: K, path: string) {
+    return this.addRequest<K, DrupalTranslatedPath>({
+      requestId,
+      uri: `/router/translate-path?${stringify({ path, _format: "json" })}`,
+    })
+  }
+
+  // Fetches the resource of a path translated by a translatePath() request.
+  resourceByPath<K extends string, T = JsonApiResource>(
+    requestId: K,
+    routerRequestId: string,
+    { params, ...options }: SubrequestOptions = {}
+  ) {
+    return this.addRequest<K, T>({
+      ...options,
+      requestId,
+      uri: `${createSubrequestReplacement(routerRequestId, "$.jsonapi.individual")}${getQueryString(params)}`,
+      waitFor: [routerRequestId, ...(options.waitFor ?? [])],
+    })
+  }
+
+  // The id can be a replacement, e.g. of the uuid of a translated path.
+  resource<K extends string, T = JsonApiResource>(
+    requestId: K,
+    type: string,
+    id: string,
+    { params, ...options }: SubrequestOptions = {}
+  ) {
+    return this.addRequest<K, T>({
+      ...options,
+      requestId,
+      uri: async (sendOptions) =>
+        `${await this.getEndpoint(type, sendOptions)}/${id}${getQueryString(params)}`,
+    })
+  }
+
+  resourceCollection<K extends string, T = JsonApiResource[]>(
+    requestId: K,
+    type: string,
+    { params, ...options }: SubrequestOptions = {}
+  ) {
+    return this.addRequest<K, T>({
+      ...options,
+      requestId,
+      uri: async (sendOptions) =>
+        `${await this.getEndpoint(type, sendOptions)}${getQueryString(params)}`,
+    })
+  }
+
+  menu<K extends string, T = DrupalMenuItem[]>(
+    requestId: K,
+    menuName: string,
+    { params, ...options }: SubrequestOptions = {}
+  ) {
+    return this.addRequest<K, T>({
+      ...options,
+      requestId,
+      uri: async (sendOptions) =>
+        `${await this.getEndpoint("menu_items", sendOptions)}/${menuName}${getQueryString(params)}`,
+    })
+  }
+
+  /**
+   * Sends the requests.
+   *
+   * @param {SubrequestsSendOptions} options Options for the request.
+   * @returns {Promise<SubrequestsResult>} The results and errors, by request id.
+   */
+  async send(options?: SubrequestsSendOptions): Promise<SubrequestsResult<R>> {
+    options = {
+      deserialize: true,
+      withAuth: this.drupal.withAuth,
+      ...options,
+    }
+
+    const blueprint = await Promise.all(
+      this._requests.map(async ({ many, uri, body, ...request }) => ({
+        action: "view",
+        ...request,
+        uri: typeof uri === "string" ? uri : await uri(options),
+        ...(body !== undefined && {
+          body: typeof body === "string" ? body : JSON.stringify(body),
+        }),
+      }))
+    )
+
+    // Subrequests does not set the JSON:API locale of translated paths.
+    const endpoint = this.drupal
+      .buildUrl(
+        this.drupal.addLocalePrefix("/subrequests", {
+          locale: options.locale,
+          defaultLocale: options.defaultLocale,
+        }),
+        { _format: "json" }
+      )
+      .toString()
+
+    this.drupal.debug(`Fetching ${blueprint.length} subrequests.`)
+
+    const response = await this.drupal.fetch(endpoint, {
+      method: "POST",
+      body: JSON.stringify(blueprint),
+      withAuth: options.withAuth,
+      signal: options.signal,
+      timeout: options.timeout,
+    })
+
+    if (response.status !== 207) {
+      throw await this.drupal.createErrorFromResponse(
+        response,
+        "Error while fetching subrequests:"
+      )
+    }
+
+    const json: Record<string, Subresponse> = await response.json()
+    const result = { results: {}, errors: {} }
+
+    for (const { requestId, many } of this._requests) {
+      const subresponses = getSubresponses(json, requestId)
+      const messagePrefix = `Error while fetching subrequest ${requestId}:`
+
+      // Requests are not sent if a request they wait for failed.
+      if (!subresponses.length) {
+        result.errors[requestId] = new JsonApiErrors(
+          "The request was not sent, since a request it waits for failed.",
+          424,
+          messagePrefix
+        )
+        continue
+      }
+
+      const results = []
+      for (const { headers = {}, body } of subresponses) {
+        const status = Number(headers.status?.[0] ?? 200)
+        const data = parseJson(body)
+
+        if (status >= 400) {
+          result.errors[requestId] ??= JsonApiErrors.create(
+            getErrors(data) ?? String(status),
+            status,
+            messagePrefix
+          )
+          continue
+        }
+
+        setCacheTags(
+          data,
+          parseCacheTags(headers["x-drupal-cache-tags"]?.[0] as string)
+        )
+
+        results.push(
+          options.deserialize &&
+            String(headers["content-type"]?.[0]).startsWith(
+              "application/vnd.api+json"
+            )
+            ? this.drupal.deserialize(data)
+            : data
+        )
+      }
+
+      if (!result.errors[requestId]) {
+        result.results[requestId] = many ? results : results[0]
+      }
+    }
+
+    return result
+  }
+
+  private addRequest<K extends string, T>(request: PendingSubrequest) {
+    const { requestId, waitFor = [] } = request
+    const requestIds = this._requests.map(({ requestId }) => requestId)
+
+    if (requestIds.includes(requestId)) {
+      throw new Error(`A subrequest with the id '${requestId}' already exists.`)
+    }
+
+    for (const id of waitFor) {
+      if (!requestIds.includes(id)) {
+        throw new Error(
+          `The subrequest '${requestId}' waits for an unknown subrequest '${id}'.`
+        )
+      }
+    }
+
+    this._requests.push(request)
+
+    return this as unknown as SubrequestsBuilder<R & { [P in K]: T }>
+  }
+
+  private async getEndpoint(type: string, options: SubrequestsSendOptions) {
+    const endpoint = await this.drupal.buildEndpoint({
+      locale:
+        options.locale !== options.defaultLocale ? options.locale : undefined,
+      resourceType: type,
+    })
+
+    return new URL(endpoint).pathname
+  }
+}
+
+function getQueryString(params?: JsonApiParams) {
+  const query = stringify(toJsonApiParamsObject(params))
+
+  return query ? `?${query}` : ""
+}
+
+// Requests with replacements matching several values have a response per
+// value, with keys like "requestId#uri{0}".
+function getSubresponses(json: Record<string, Subresponse>, requestId: string) {
+  if (json[requestId]) {
+    return [json[requestId]]
+  }
+
+  const subresponses: Subresponse[] = []
+  for (let i = 0; json[`${requestId}#uri{${i}}`]; i++) {
+    subresponses.push(json[`${requestId}#uri{${i}}`])
+  }
+
+  return subresponses
+}
+
+// Returns JSON:API errors, the message of other errors or the text body.
+function getErrors(data) {
+  return typeof data === "string" ? data : data?.errors ?? data?.message
+}
+
+function parseJson(body?: string) {
+  try {
+    return body ? JSON.parse(body) : null
+  } catch (error) {
+    return body
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./fixture-fetcher"
+export * from "./mock-drupal-server"
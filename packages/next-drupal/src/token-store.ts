@@ -0,0 +1,59 @@
+import type { DataCache, TokenStore, TokenStoreEntry } from "./types"
+
+const DEFAULT_DATA_CACHE_KEY_PREFIX = "next-drupal:token:"
+
+// Default token store. Tokens are shared by the client instance only.
+export class MemoryTokenStore implements TokenStore {
+  private _entries = new Map<string, TokenStoreEntry>()
+
+  async get(key: string) {
+    return this._entries.get(key)
+  }
+
+  async set(key: string, entry: TokenStoreEntry) {
+    this._entries.set(key, entry)
+  }
+
+  async delete(key: string) {
+    this._entries.delete(key)
+  }
+}
+
+// Stores tokens in a DataCache, e.g. Redis, so they can be shared across
+// serverless functions and build workers.
+export class DataCacheTokenStore implements TokenStore {
+  cache: DataCache
+
+  prefix: string
+
+  constructor(
+    cache: DataCache,
+    { prefix = DEFAULT_DATA_CACHE_KEY_PREFIX }: { prefix?: string } = {}
+  ) {
+    this.cache = cache
+    this.prefix = prefix
+  }
+
+  async get(key: string) {
+    const cached = await this.cache.get(`${this.prefix}${key}`)
+
+    if (!cached) {
+      return undefined
+    }
+
+    return (
+      typeof cached === "string" ? JSON.parse(cached) : cached
+    ) as TokenStoreEntry
+  }
+
+  async set(key: string, entry: TokenStoreEntry) {
+    // Let the cache evict the entry once the token has expired.
+    const ttl = Math.max(Math.ceil((entry.expiresOn - Date.now()) / 1000), 1)
+
+    await this.cache.set(`${this.prefix}${key}`, JSON.stringify(entry), ttl)
+  }
+
+  async delete(key: string) {
+    await this.cache.del?.(`${this.prefix}${key}`)
+  }
+}
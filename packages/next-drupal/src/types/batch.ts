@@ -0,0 +1,78 @@
+import type {
+  JsonApiWithAuthOption,
+  JsonApiWithTimeoutOptions,
+} from "./options"
+import type { JsonApiCreateFileResourceBody } from "./resource"
+
+// "atomic" requires the server to support the JSON:API Atomic Operations
+// extension, "rollback" sends a request per operation and "auto" uses atomic
+// operations if the server supports them.
+export type JsonApiBatchMode = "auto" | "atomic" | "rollback"
+
+export interface JsonApiBatchOptions {
+  /**
+   * How the operations are sent.
+   *
+   * * **Default value**: `"auto"`
+   */
+  mode?: JsonApiBatchMode
+
+  /**
+   * The path, relative to the apiPrefix, of the atomic operations endpoint.
+   *
+   * * **Default value**: `"/operations"`
+   */
+  endpoint?: string
+}
+
+export type JsonApiBatchSendOptions = {
+  deserialize?: boolean
+} & JsonApiWithAuthOption &
+  JsonApiWithTimeoutOptions
+
+// References a resource created in the same batch by its local id.
+export interface JsonApiBatchReference {
+  type: string
+  lid: string
+}
+
+export type JsonApiBatchResourceIdentifier =
+  | { type: string; id: string }
+  | JsonApiBatchReference
+
+export interface JsonApiBatchResourceBodyRelationship {
+  data: JsonApiBatchResourceIdentifier | JsonApiBatchResourceIdentifier[] | null
+}
+
+export interface JsonApiBatchResourceBody {
+  data: {
+    lid?: string
+    attributes?: Record<string, unknown>
+    relationships?: Record<string, JsonApiBatchResourceBodyRelationship>
+  }
+}
+
+export type JsonApiBatchOperation =
+  | {
+      op: "create"
+      type: string
+      lid: string
+      body: JsonApiBatchResourceBody
+    }
+  | {
+      op: "createFile"
+      type: string
+      lid: string
+      body: JsonApiCreateFileResourceBody
+    }
+  | {
+      op: "update"
+      type: string
+      target: string | JsonApiBatchReference
+      body: JsonApiBatchResourceBody
+    }
+  | {
+      op: "delete"
+      type: string
+      target: string | JsonApiBatchReference
+    }
@@ -1,6 +1,11 @@
-import type { JsonApiOptions } from "./options"
+import type { JsonApiOptions, JsonApiParamsObject } from "./options"
 import { DrupalMenuItem } from "./drupal"
 
-export type JsonApiWithLocaleOptions = Omit<JsonApiOptions, "withAuth">
+export type JsonApiWithLocaleOptions = Omit<
+  JsonApiOptions,
+  "withAuth" | "params"
+> & {
+  params?: JsonApiParamsObject
+}
 
 export type DrupalMenuLinkContent = DrupalMenuItem
@@ -60,6 +60,13 @@ export interface DrupalMenuItem {
 
 export type DrupalMenuItemId = string
 
+// A tag of the `metatag` field, as normalized by the Metatag module, e.g.
+// `{ tag: "meta", attributes: { name: "description", content: "..." } }`.
+export interface DrupalMetatag {
+  tag: "meta" | "link" | string
+  attributes: Record<string, string>
+}
+
 export interface DrupalNode extends JsonApiResourceWithPath {
   drupal_internal__nid: number
   drupal_internal__vid: number
@@ -81,6 +88,14 @@ export type DrupalPathAlias = {
   langcode: string
 }
 
+// A redirect of a translated path, e.g. by the Redirect module.
+export interface DrupalRedirect {
+  from: string
+  to: string
+  // The status code, e.g. 301 or 302.
+  status: number
+}
+
 export interface DrupalSearchApiJsonApiResponse extends JsonApiResponse {
   meta: JsonApiResponse["meta"] & {
     facets?: DrupalSearchApiFacet[]
@@ -0,0 +1,59 @@
+import type { Fetcher } from "./next-drupal-base"
+
+export type FixtureFetcherMode = "record" | "replay"
+
+export interface FixtureFetcherOptions {
+  /**
+   * The directory of the fixture files.
+   */
+  dir: string
+
+  /**
+   * Set to `record` to send the requests and save their responses as
+   * fixtures, or `replay` to respond with the saved fixtures without sending
+   * any request.
+   *
+   * * **Default value**: `replay`
+   */
+  mode?: FixtureFetcherMode
+
+  /**
+   * The fetcher used to send the requests that are recorded.
+   *
+   * * **Default value**: `fetch`
+   */
+  fetcher?: Fetcher
+
+  /**
+   * The params of form bodies that are not saved, e.g. credentials. They are
+   * ignored to match requests as well.
+   *
+   * * **Default value**: `["client_secret", "code", "password", "refresh_token"]`
+   */
+  redactParams?: string[]
+
+  /**
+   * The fields of JSON responses whose values are replaced by `redacted`,
+   * e.g. the tokens of token responses.
+   *
+   * * **Default value**: `["access_token", "refresh_token"]`
+   */
+  redactFields?: string[]
+}
+
+// A recorded request and its response.
+export interface Fixture {
+  request: {
+    method: string
+    url: string
+    body?: string
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    // JSON bodies are saved as JSON to make fixtures readable.
+    json?: unknown
+    body?: string
+  }
+}
@@ -0,0 +1,39 @@
+import type {
+  JsonApiWithAuthOption,
+  JsonApiWithTimeoutOptions,
+} from "./options"
+
+// A JSON Schema, e.g. of a resource type from the JSON:API Schema module.
+export interface JsonSchema {
+  $ref?: string
+  type?: string | string[]
+  title?: string
+  description?: string
+  const?: unknown
+  enum?: unknown[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  definitions?: Record<string, JsonSchema>
+  [key: string]: unknown
+}
+
+// The schemas of the resource types of a site, by resource type, e.g.
+// `{ "node--article": { ... } }`.
+export type DrupalResourceSchemas = Record<string, JsonSchema>
+
+export type FetchResourceSchemasOptions = JsonApiWithAuthOption &
+  JsonApiWithTimeoutOptions
+
+export interface GenerateTypesOptions {
+  /**
+   * A prefix for the names of the interfaces, e.g. `DrupalNodeArticle` for
+   * the `node--article` resource type.
+   *
+   * * **Default value**: `"Drupal"`
+   */
+  prefix?: string
+}
@@ -1,6 +1,15 @@
+export type * from "./batch"
 export type * from "./drupal"
+export type * from "./fixtures"
+export type * from "./generate-types"
+export type * from "./metadata"
+export type * from "./middleware"
+export type * from "./mock-drupal-server"
 export type * from "./next-drupal-base"
 export type * from "./next-drupal"
 export type * from "./next-drupal-pages"
 export type * from "./options"
 export type * from "./resource"
+export type * from "./revalidate"
+export type * from "./sitemap"
+export type * from "./subrequests"
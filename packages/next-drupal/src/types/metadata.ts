@@ -0,0 +1,9 @@
+export interface NextMetadataOptions {
+  /**
+   * The URL of the Next.js site, e.g. `https://example.com`. Relative URLs
+   * of the metatags are resolved against it, including its base path, e.g.
+   * `/node/1` is resolved to `https://example.com/site/node/1` for a URL of
+   * `https://example.com/site`.
+   */
+  baseUrl?: string
+}
@@ -0,0 +1,51 @@
+import type { NextDrupalAuth } from "./next-drupal-base"
+
+export interface RedirectMiddlewareOptions {
+  /**
+   * The auth used to translate paths. Set to `false` to translate paths
+   * anonymously.
+   *
+   * * **Default value**: `drupal.withAuth`
+   */
+  withAuth?: boolean | NextDrupalAuth
+
+  /**
+   * The number of milliseconds after which translating a path is aborted. The
+   * request is then routed without a redirect.
+   *
+   * * **Default value**: `undefined`
+   */
+  timeout?: number
+
+  /**
+   * The maximum number of paths whose redirect is cached. The least recently
+   * used path is removed from the cache when it is full.
+   *
+   * * **Default value**: `1000`
+   */
+  cacheSize?: number
+
+  /**
+   * The number of seconds the redirect of a path is cached.
+   *
+   * * **Default value**: `60`
+   */
+  cacheTtl?: number
+
+  /**
+   * Whether paths that are not the alias of their resource, e.g. `/node/1` or
+   * an old alias, are redirected to the alias.
+   *
+   * * **Default value**: `true`
+   */
+  redirectAliases?: boolean
+
+  /**
+   * Returns whether a path is routed without translating it. The path does
+   * not have the base path and the locale of the Pages Router.
+   *
+   * * **Default value**: Skips paths under `/_next` and `/api`, and paths with
+   *   a file extension.
+   */
+  skipPath?: (pathname: string) => boolean
+}
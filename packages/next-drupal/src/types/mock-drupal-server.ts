@@ -0,0 +1,84 @@
+import type { DrupalMenuItem } from "./drupal"
+import type { Locale } from "./options"
+
+export interface MockDrupalResourceIdentifier {
+  type: string
+  id: string
+  meta?: Record<string, unknown>
+}
+
+// A resource as returned by JSON:API, before it is deserialized.
+export interface MockDrupalResource extends MockDrupalResourceIdentifier {
+  attributes?: Record<string, unknown>
+  relationships?: Record<
+    string,
+    {
+      data: MockDrupalResourceIdentifier | MockDrupalResourceIdentifier[] | null
+    }
+  >
+}
+
+// A JSON:API document, e.g. a response recorded by createFixtureFetcher().
+export interface MockDrupalDocument {
+  data: MockDrupalResource | MockDrupalResource[] | null
+  included?: MockDrupalResource[]
+}
+
+export type MockDrupalMenuItem = Pick<DrupalMenuItem, "id" | "title" | "url"> &
+  Partial<DrupalMenuItem>
+
+// A redirect of the Redirect module, e.g. from "/old" to "/articles/new".
+export interface MockDrupalRedirect {
+  from: string
+  to: string
+  // The status code of the redirect. Defaults to 301.
+  status?: number
+}
+
+export interface MockDrupalServerOptions {
+  /**
+   * The resources of the server, or JSON:API documents of resources.
+   * Translations are resources with the same type and id, and another
+   * `langcode` attribute.
+   */
+  resources?: (MockDrupalResource | MockDrupalDocument)[]
+
+  /**
+   * The items of the menus, by menu name.
+   */
+  menus?: Record<string, MockDrupalMenuItem[]>
+
+  /**
+   * The resources of the views, by view and display id, e.g.
+   * `featured_articles--page_1`.
+   */
+  views?: Record<string, MockDrupalResourceIdentifier[]>
+
+  /**
+   * The redirects of paths, as returned by `/router/translate-path`.
+   */
+  redirects?: MockDrupalRedirect[]
+
+  /**
+   * The language of paths without a locale prefix.
+   *
+   * * **Default value**: `"en"`
+   */
+  defaultLocale?: Locale
+
+  /**
+   * The path alias of the front page.
+   *
+   * * **Default value**: `"/home"`
+   */
+  frontPage?: string
+
+  /**
+   * The client credentials accepted by `/oauth/token`. Any credentials are
+   * accepted by default.
+   */
+  auth?: {
+    clientId: string
+    clientSecret: string
+  }
+}
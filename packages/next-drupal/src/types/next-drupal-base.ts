@@ -78,6 +78,103 @@ export type NextDrupalBaseOptions = {
    */
   logger?: Logger
 
+  /**
+   * Limit the number of concurrent requests to each host. Requests over the
+   * limit are queued until a running request completes. Pass an object keyed
+   * by host to set limits for specific hosts, using `*` for all other hosts.
+   *
+   * * **Default value**: `Infinity`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#maxconcurrentrequests)
+   */
+  maxConcurrentRequests?: number | Record<string, number>
+
+  /**
+   * Middleware to run on every request, in order. Use this to add headers,
+   * log responses or recover from errors without replacing the fetcher.
+   * More middleware can be added with `drupal.use(middleware)`.
+   *
+   * * **Default value**: `[]`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#middleware)
+   */
+  middleware?: NextDrupalMiddleware[]
+
+  /**
+   * A callback invoked whenever the client obtains a new user access token
+   * using the password, authorization_code or refresh_token grants. Use this
+   * to persist the rotated token, e.g. in the user's session.
+   *
+   * * **Default value**: `undefined`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#ontokenchange)
+   */
+  onTokenChange?: (
+    token: AccessToken,
+    auth: NextDrupalAuthUserGrant
+  ) => void | Promise<void>
+
+  /**
+   * The preview secret of the Next.js site in Drupal. When set, draft urls
+   * must be signed with this secret instead of including it in the url, and
+   * the client sends it to Drupal to validate the draft url.
+   *
+   * * **Default value**: `undefined`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#previewsecret)
+   */
+  previewSecret?: string
+
+  /**
+   * Retry failed requests. Network errors and responses with a retryable
+   * status code are retried with exponential backoff, honoring the
+   * `Retry-After` header. Set to `true` to use the default retry policy.
+   *
+   * * **Default value**: `false`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#retry)
+   */
+  retry?: boolean | NextDrupalRetryOptions
+
+  /**
+   * The number of milliseconds before a request is aborted with a
+   * `NextDrupalTimeoutError`. Can be overridden per request.
+   *
+   * * **Default value**: `undefined`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#timeout)
+   */
+  timeout?: number
+
+  /**
+   * Override where access tokens fetched with a client id and secret are
+   * kept. Use a shared store, e.g. `DataCacheTokenStore`, to re-use tokens
+   * across serverless functions and build workers.
+   *
+   * * **Default value**: `new MemoryTokenStore()`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#tokenstore)
+   */
+  tokenStore?: TokenStore
+
+  /**
+   * The number of seconds before an access token expires that the client
+   * fetches a new one, so that a token does not expire mid-request.
+   *
+   * * **Default value**: `30`
+   * * **Required**: *No*
+   *
+   * [Documentation](https://next-drupal.org/docs/client/configuration#tokenrefreshwindow)
+   */
+  tokenRefreshWindow?: number
+
   /**
    * Set whether the client should use authenticated requests by default.
    *
@@ -93,6 +190,7 @@ export type NextDrupalAuth =
   | NextDrupalAuthAccessToken
   | NextDrupalAuthClientIdSecret
   | NextDrupalAuthUsernamePassword
+  | NextDrupalAuthUserGrant
   | (() => string)
   | string
 
@@ -110,6 +208,41 @@ export interface NextDrupalAuthUsernamePassword {
   password: string
 }
 
+export type NextDrupalAuthUserGrant =
+  | NextDrupalAuthPasswordGrant
+  | NextDrupalAuthAuthorizationCodeGrant
+  | NextDrupalAuthRefreshTokenGrant
+
+interface NextDrupalAuthUserGrantBase {
+  clientId: string
+  // Public clients, e.g. those using PKCE, do not have a secret.
+  clientSecret?: string
+  url?: string
+  scope?: string
+}
+
+export interface NextDrupalAuthPasswordGrant
+  extends NextDrupalAuthUserGrantBase {
+  grantType: "password"
+  username: string
+  password: string
+}
+
+export interface NextDrupalAuthAuthorizationCodeGrant
+  extends NextDrupalAuthUserGrantBase {
+  grantType: "authorization_code"
+  code: string
+  redirectUri: string
+  // The PKCE code verifier. See https://datatracker.ietf.org/doc/html/rfc7636.
+  codeVerifier?: string
+}
+
+export interface NextDrupalAuthRefreshTokenGrant
+  extends NextDrupalAuthUserGrantBase {
+  grantType: "refresh_token"
+  refreshToken: string
+}
+
 export interface AccessToken {
   token_type: string
   access_token: string
@@ -119,6 +252,100 @@ export interface AccessToken {
 
 export type AccessTokenScope = string
 
+export interface TokenStoreEntry {
+  token: AccessToken
+  // The timestamp, in milliseconds, when the token expires.
+  expiresOn: number
+}
+
+export interface TokenStore {
+  get(key: string): Promise<TokenStoreEntry | undefined>
+
+  set(key: string, entry: TokenStoreEntry): Promise<void>
+
+  delete(key: string): Promise<void>
+}
+
+export interface NextDrupalRetryOptions {
+  /**
+   * The maximum number of attempts, including the first request.
+   *
+   * * **Default value**: `3`
+   */
+  maxAttempts?: number
+
+  /**
+   * The delay, in milliseconds, before the first retry. The delay doubles
+   * with every attempt and is randomized to avoid retrying in lockstep.
+   *
+   * * **Default value**: `500`
+   */
+  baseDelay?: number
+
+  /**
+   * The maximum delay, in milliseconds, between attempts. This also caps
+   * delays requested with the `Retry-After` header.
+   *
+   * * **Default value**: `10000`
+   */
+  maxDelay?: number
+
+  /**
+   * The response status codes that are retried.
+   *
+   * * **Default value**: `[408, 429, 500, 502, 503, 504]`
+   */
+  statusCodes?: number[]
+
+  /**
+   * The request methods that are retried. Only idempotent methods are
+   * retried by default.
+   *
+   * * **Default value**: `["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]`
+   */
+  methods?: string[]
+}
+
+export interface RequestQueueMetrics {
+  // The maximum number of concurrent requests.
+  limit: number
+  // The number of requests currently running.
+  active: number
+  // The number of requests waiting for a slot.
+  queued: number
+  // The number of requests that have started.
+  requests: number
+  // Queue wait times, in milliseconds.
+  totalWaitTime: number
+  maxWaitTime: number
+  averageWaitTime: number
+}
+
+export interface NextDrupalRequest {
+  input: RequestInfo
+  init: RequestInit
+}
+
+export interface NextDrupalMiddleware {
+  // Called before the request is sent, after the headers and Authorization
+  // header have been set. Return a new request or modify the given one.
+  onRequest?: (
+    request: NextDrupalRequest
+  ) => NextDrupalRequest | void | Promise<NextDrupalRequest | void>
+
+  // Called with the response. Return a new response to replace it.
+  onResponse?: (
+    response: Response,
+    request: NextDrupalRequest
+  ) => Response | void | Promise<Response | void>
+
+  // Called when the request fails. Return a response to recover.
+  onError?: (
+    error: unknown,
+    request: NextDrupalRequest
+  ) => Response | void | Promise<Response | void>
+}
+
 export type Fetcher = WindowOrWorkerGlobalScope["fetch"]
 
 export interface Logger {
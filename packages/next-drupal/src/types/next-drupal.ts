@@ -1,5 +1,11 @@
 import type { TJsonaModel } from "jsona/lib/JsonaTypes"
-import type { NextDrupalBaseOptions } from "./next-drupal-base"
+import type { NextDrupal } from "../next-drupal"
+import type {
+  NextDrupalBaseOptions,
+  NextDrupalMiddleware,
+} from "./next-drupal-base"
+import type { JsonApiOptions, JsonApiWithCacheOptions } from "./options"
+import type { JsonApiResource } from "./resource"
 
 export type NextDrupalOptions = NextDrupalBaseOptions & {
   /**
@@ -53,11 +59,52 @@ export type NextDrupalOptions = NextDrupalBaseOptions & {
   useSubrequests?: boolean
 }
 
+/**
+ * A client of any resource types, for the helpers that take a client. Clients
+ * typed with resource types, e.g. `NextDrupal<{ "node--article": Article }>`,
+ * are not assignable to `NextDrupal`, but are assignable to this type.
+ */
+export interface NextDrupalClient
+  extends Omit<NextDrupal, "use" | "getResource" | "getResourceCollection"> {
+  use(middleware: NextDrupalMiddleware): this
+
+  getResource<T extends JsonApiResource>(
+    type: string,
+    uuid: string,
+    options?: JsonApiOptions & JsonApiWithCacheOptions
+  ): Promise<T>
+
+  getResourceCollection<T = JsonApiResource[]>(
+    type: string,
+    options?: {
+      deserialize?: boolean
+    } & JsonApiOptions &
+      JsonApiWithCacheOptions
+  ): Promise<T>
+}
+
 export type JsonDeserializer = (
   body: Record<string, unknown>,
   options?: Record<string, unknown>
 ) => TJsonaModel | TJsonaModel[]
 
+export interface DataCacheEntry<T = unknown> {
+  value: T
+  // The timestamp, in milliseconds, when the entry becomes stale.
+  expiresOn?: number
+  // The cache tags Drupal sent with the response.
+  tags?: string[]
+}
+
+export interface ResourceLoaderOptions {
+  /**
+   * The maximum number of resources fetched in a single request.
+   *
+   * * **Default value**: `50`
+   */
+  maxBatchSize?: number
+}
+
 export interface DataCache {
   get(key): Promise<unknown>
 
@@ -8,12 +8,15 @@ export type PathPrefix = string
 
 export interface FetchOptions extends RequestInit {
   withAuth?: boolean | NextDrupalAuth
+  // The number of milliseconds before the request is aborted.
+  timeout?: number
 }
 
 export type JsonApiOptions = {
   deserialize?: boolean
   params?: JsonApiParams
 } & JsonApiWithAuthOption &
+  JsonApiWithTimeoutOptions &
   (
     | {
         locale: Locale
@@ -29,11 +32,98 @@ export type JsonApiWithAuthOption = {
   withAuth?: boolean | NextDrupalAuth
 }
 
+export type JsonApiWithTimeoutOptions = {
+  /**
+   * An AbortSignal to cancel the request.
+   */
+  signal?: AbortSignal
+
+  /**
+   * The number of milliseconds before the request is aborted with a
+   * NextDrupalTimeoutError. Overrides the client `timeout` option.
+   */
+  timeout?: number
+}
+
+export type JsonApiWithPaginationOptions = {
+  /**
+   * Stop following `links.next` after this many pages have been fetched.
+   */
+  maxPages?: number
+
+  /**
+   * Stop following `links.next` after this many resources have been fetched.
+   */
+  maxItems?: number
+}
+
 export type JsonApiWithCacheOptions = {
   withCache?: boolean
+
+  /**
+   * Override the cache key. By default, a key is derived from the request,
+   * locale, params and auth.
+   */
   cacheKey?: string
+
+  /**
+   * The number of seconds a cached response is fresh. Cached responses do not
+   * expire by default.
+   */
+  cacheTtl?: number
+
+  /**
+   * The number of seconds after `cacheTtl` during which a stale cached
+   * response is returned while it is refreshed in the background.
+   */
+  staleWhileRevalidate?: number
 }
 
-// TODO: Properly type this.
-/* eslint-disable  @typescript-eslint/no-explicit-any */
-export type JsonApiParams = Record<string, any>
+// Query params as a plain object, e.g. { include: "uid", "fields[node--article]": "title" }.
+export interface JsonApiParamsObject {
+  // Relationship paths, as a comma-separated string or an array.
+  include?: string | string[]
+  // Sparse fieldsets by resource type, e.g. { "node--article": ["title"] }.
+  fields?: Record<string, string | string[]>
+  sort?: string
+  resourceVersion?: string
+  /* eslint-disable-next-line  @typescript-eslint/no-explicit-any */
+  [key: string]: any
+}
+
+// An object that builds query params, e.g. JsonApiParamsBuilder or
+// DrupalJsonApiParams from drupal-jsonapi-params.
+export interface JsonApiParamsQuery {
+  getQueryObject(): JsonApiParamsObject
+}
+
+export type JsonApiParams = JsonApiParamsObject | JsonApiParamsQuery
+
+// https://www.drupal.org/docs/core-modules-and-themes/core-modules/jsonapi-module/filtering
+export type JsonApiFilterOperator =
+  | "="
+  | "<>"
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "STARTS_WITH"
+  | "CONTAINS"
+  | "ENDS_WITH"
+  | "IN"
+  | "NOT IN"
+  | "BETWEEN"
+  | "NOT BETWEEN"
+  | "IS NULL"
+  | "IS NOT NULL"
+
+export type JsonApiFilterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | (string | number)[]
+
+export type JsonApiFilterConjunction = "AND" | "OR"
+
+export type JsonApiSortDirection = "ASC" | "DESC"
@@ -2,6 +2,12 @@
 
 import type { JsonApiError, JsonApiLinks } from "../jsonapi-errors"
 import type { DrupalPathAlias } from "./drupal"
+import type {
+  JsonApiOptions,
+  JsonApiParams,
+  JsonApiParamsObject,
+  JsonApiParamsQuery,
+} from "./options"
 
 // TODO: any...ugh.
 export interface JsonApiResponse extends Record<string, any> {
@@ -65,3 +71,105 @@ export interface JsonApiResource extends Record<string, any> {
 export interface JsonApiResourceWithPath extends JsonApiResource {
   path: DrupalPathAlias
 }
+
+/**
+ * The resources of a site, by resource type. Add the resource types of a site
+ * using declaration merging, e.g. with the types generated by
+ * `next-drupal generate-types`:
+ *
+ * ```ts
+ * declare module "next-drupal" {
+ *   interface DrupalResourceTypes {
+ *     "node--article": DrupalNodeArticle
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface DrupalResourceTypes {}
+
+export type DrupalResourceType = keyof DrupalResourceTypes
+
+// The resource types of a schema, or any string if the schema is empty.
+export type DrupalResourceTypeOf<Schema> = [keyof Schema] extends [never]
+  ? string
+  : Extract<keyof Schema, string>
+
+// The resource of a resource type of a schema.
+export type DrupalResourceOf<Schema, Type> = Type extends keyof Schema
+  ? Schema[Type]
+  : JsonApiResource
+
+// The declared keys of a type, without the keys of its index signatures.
+// Resources extend JsonApiResource, whose index signature has every key.
+type DrupalDeclaredKey<T> = keyof {
+  [Key in keyof T as string extends Key
+    ? never
+    : number extends Key
+      ? never
+      : Key]: T[Key]
+}
+
+// The fields of a resource, for sparse fieldsets.
+export type DrupalResourceField<Resource> = Exclude<
+  Extract<DrupalDeclaredKey<Resource>, string>,
+  "id" | "type"
+>
+
+type DrupalRelatedResource<Value> =
+  NonNullable<Value> extends (infer Item)[]
+    ? NonNullable<Item>
+    : NonNullable<Value>
+
+/**
+ * The relationship paths of a resource, e.g. "uid" or "field_tags.vid", for
+ * includes. Paths are limited to three relationships.
+ */
+export type DrupalRelationshipPath<
+  Resource,
+  Depth extends unknown[] = [],
+> = Depth["length"] extends 3
+  ? never
+  : {
+      [Field in DrupalResourceField<Resource>]: DrupalRelatedResource<
+        Resource[Field]
+      > extends { id: string; type: string }
+        ?
+            | Field
+            | `${Field}.${DrupalRelationshipPath<
+                DrupalRelatedResource<Resource[Field]>,
+                [...Depth, unknown]
+              >}`
+        : never
+    }[DrupalResourceField<Resource>]
+
+/**
+ * Query params of a resource type of a schema: includes and sparse fieldsets
+ * are limited to the relationships and fields of the resources.
+ */
+export type DrupalResourceParams<Schema, Type> = Omit<
+  JsonApiParamsObject,
+  "include" | "fields"
+> & {
+  include?:
+    | DrupalRelationshipPath<DrupalResourceOf<Schema, Type>>
+    | DrupalRelationshipPath<DrupalResourceOf<Schema, Type>>[]
+  fields?: {
+    [FieldType in Extract<keyof Schema, string>]?: DrupalResourceField<
+      Schema[FieldType]
+    >[]
+  }
+}
+
+// Query params of a resource type, or any params for resource types that are
+// not in the schema.
+export type DrupalResourceParamsOf<Schema, Type> = string extends Type
+  ? JsonApiParams
+  : Type extends keyof Schema
+    ? DrupalResourceParams<Schema, Type> | JsonApiParamsQuery
+    : JsonApiParams
+
+// Options of the requests of a resource type of a schema.
+export type DrupalResourceOptions<Schema, Type> = JsonApiOptions & {
+  params?: DrupalResourceParamsOf<Schema, Type>
+}
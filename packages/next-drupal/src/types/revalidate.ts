@@ -0,0 +1,61 @@
+import type { NextDrupalClient } from "./next-drupal"
+
+export interface RevalidateHandlerOptions {
+  /**
+   * The client whose DataCache entries are invalidated when tags are
+   * revalidated.
+   */
+  drupal?: NextDrupalClient
+
+  /**
+   * The secret Drupal sends with revalidation requests.
+   *
+   * * **Default value**: `process.env.DRUPAL_REVALIDATE_SECRET`
+   */
+  secret?: string
+
+  /**
+   * Set a signing secret to validate requests using an HMAC signature
+   * instead of the `secret` query param. The secret is then not accepted.
+   *
+   * * **Default value**: `undefined`
+   */
+  signingSecret?: string
+
+  /**
+   * The number of seconds a signature is valid for. Requests with an older
+   * signature are rejected, so that they cannot be replayed.
+   *
+   * * **Default value**: `300`
+   */
+  signatureMaxAge?: number
+
+  /**
+   * The locales of the site. Used with `defaultLocale` to resolve paths
+   * without a locale prefix.
+   */
+  locales?: string[]
+
+  /**
+   * The default locale of the site. The App Router adds this locale to paths
+   * without a locale prefix. The Pages Router removes it, since Next.js does
+   * not prefix paths in the default locale.
+   */
+  defaultLocale?: string
+}
+
+export interface RevalidateReport {
+  // Whether everything was revalidated without errors.
+  revalidated: boolean
+  // The timestamp, in milliseconds, of the revalidation.
+  now: number
+  paths: string[]
+  tags: string[]
+  errors: RevalidateError[]
+}
+
+export interface RevalidateError {
+  path?: string
+  tag?: string
+  message: string
+}
@@ -0,0 +1,82 @@
+import type { MetadataRoute } from "next"
+import type {
+  JsonApiParams,
+  JsonApiWithAuthOption,
+  JsonApiWithTimeoutOptions,
+  Locale,
+} from "./options"
+
+// An entry of a sitemap, compatible with the App Router `sitemap.ts` file.
+export type SitemapEntry = MetadataRoute.Sitemap[number]
+
+export type SitemapOptions = {
+  /**
+   * The resource types of the sitemap, e.g. `["node--page", "node--article"]`.
+   */
+  types: string[]
+
+  /**
+   * The URL of the Next.js site, e.g. `https://example.com`.
+   */
+  baseUrl: string
+
+  /**
+   * Additional params for the resource collections, e.g. a filter.
+   */
+  params?: JsonApiParams
+} & JsonApiWithAuthOption &
+  JsonApiWithTimeoutOptions &
+  (
+    | {
+        /**
+         * The locales of the site. Translations are listed as hreflang
+         * alternates of each other.
+         */
+        locales: Locale[]
+        defaultLocale: Locale
+      }
+    | {
+        locales?: undefined
+        defaultLocale?: never
+      }
+  )
+
+export type CreateSitemapOptions = SitemapOptions & {
+  /**
+   * The maximum number of URLs in a sitemap. Larger sitemaps are split.
+   *
+   * * **Default value**: `50000`
+   */
+  limit?: number
+
+  /**
+   * The rules of `robots.txt`.
+   *
+   * * **Default value**: `{ userAgent: "*", allow: "/" }`
+   */
+  rules?: MetadataRoute.Robots["rules"]
+
+  /**
+   * The number of seconds the entries are shared by the exports, before the
+   * resources are fetched again.
+   *
+   * * **Default value**: `60`
+   */
+  cacheTtl?: number
+}
+
+export interface SitemapAdapter {
+  // Returns the ids of the sitemaps, see the `generateSitemaps` export of
+  // the `sitemap.ts` file.
+  generateSitemaps: () => Promise<{ id: number }[]>
+
+  // The default export of the `sitemap.ts` file.
+  sitemap: (params: { id: number }) => Promise<MetadataRoute.Sitemap>
+
+  // A route handler that returns the XML of a sitemap index, listing every
+  // sitemap.
+  sitemapIndex: () => Promise<Response>
+
+  // The default export of the `robots.ts` file.
+  robots: () => Promise<MetadataRoute.Robots>
+}
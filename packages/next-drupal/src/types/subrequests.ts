@@ -0,0 +1,78 @@
+import type { JsonApiErrors } from "../jsonapi-errors"
+import type {
+  JsonApiParams,
+  JsonApiWithAuthOption,
+  JsonApiWithTimeoutOptions,
+  Locale,
+} from "./options"
+
+// https://www.drupal.org/project/subrequests
+export type SubrequestAction =
+  | "view"
+  | "create"
+  | "update"
+  | "delete"
+  | "exists"
+  | "discover"
+
+export interface SubrequestBlueprint {
+  /**
+   * * **Default value**: `"view"`
+   */
+  action?: SubrequestAction
+
+  /**
+   * The uri of the request, relative to the Drupal site. It can include
+   * replacements, e.g. `{{router.body@$.entity.uuid}}`, of the requests it
+   * waits for.
+   */
+  uri: string
+
+  body?: string | Record<string, unknown>
+
+  headers?: Record<string, string>
+
+  /**
+   * The ids of the requests this request waits for.
+   */
+  waitFor?: string[]
+
+  /**
+   * Replacements matching several values send a request per value. Set to
+   * true to return the results of every request, instead of the first one.
+   *
+   * * **Default value**: `false`
+   */
+  many?: boolean
+}
+
+export type SubrequestOptions = {
+  params?: JsonApiParams
+} & Pick<SubrequestBlueprint, "waitFor" | "many">
+
+export type SubrequestsSendOptions = {
+  /**
+   * Deserialize the JSON:API documents in the results.
+   *
+   * * **Default value**: `true`
+   */
+  deserialize?: boolean
+} & JsonApiWithAuthOption &
+  JsonApiWithTimeoutOptions &
+  (
+    | {
+        locale: Locale
+        defaultLocale: Locale
+      }
+    | {
+        locale?: undefined
+        defaultLocale?: never
+      }
+  )
+
+export interface SubrequestsResult<R> {
+  // The results of the successful requests, by request id.
+  results: { [K in keyof R]?: R[K] }
+  // The errors of the failed requests, by request id.
+  errors: { [K in keyof R]?: JsonApiErrors }
+}
@@ -0,0 +1,617 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  ATOMIC_EXTENSION,
+  JsonApiBatch,
+  JsonApiErrors,
+  NextDrupal,
+  NextDrupalRollbackError,
+} from "../../src"
+import { BASE_URL, mockLogger, mocks } from "../utils"
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+const ATOMIC_MEDIA_TYPE = `application/vnd.api+json; ext="${ATOMIC_EXTENSION}"`
+
+type MockedResponse = [status: number, body?: unknown]
+
+// Mocks drupal.fetch with a response per "METHOD path" request.
+function spyOnRequests(
+  drupal: NextDrupal,
+  responses: Record<string, MockedResponse | MockedResponse[]>
+) {
+  return jest.spyOn(drupal, "fetch").mockImplementation(async (input, init) => {
+    const { pathname } = new URL(input as string)
+    const key = `${init?.method ?? "GET"} ${pathname}`
+    const response = responses[key]
+
+    if (!response) {
+      throw new Error(`Unexpected request: ${key}`)
+    }
+
+    const [status, body] = Array.isArray(response[0])
+      ? (response as MockedResponse[]).shift()
+      : (response as MockedResponse)
+
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/vnd.api+json" },
+    })
+  })
+}
+
+function getRequests(fetchSpy) {
+  return fetchSpy.mock.calls.map(([input, init]) => ({
+    key: `${init?.method ?? "GET"} ${new URL(input).pathname}`,
+    body: typeof init?.body === "string" ? JSON.parse(init.body) : init?.body,
+  }))
+}
+
+function resource(type: string, id: string, attributes = {}) {
+  return { data: { type, id, attributes } }
+}
+
+const file = {
+  data: {
+    attributes: {
+      type: "media--image",
+      field: "field_media_image",
+      filename: "image.jpg",
+      file: Buffer.from("image"),
+    },
+  },
+}
+
+const unprocessable = {
+  errors: [{ status: "422", title: "Unprocessable Entity" }],
+}
+
+describe("batch()", () => {
+  test("creates a batch", () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const batch = drupal.batch({ mode: "rollback", endpoint: "/atomic" })
+
+    expect(batch).toBeInstanceOf(JsonApiBatch)
+    expect(batch.drupal).toBe(drupal)
+    expect(batch.mode).toBe("rollback")
+    expect(batch.endpoint).toBe("/atomic")
+  })
+
+  test("defaults to the auto mode", () => {
+    const batch = new NextDrupal(BASE_URL).batch()
+
+    expect(batch.mode).toBe("auto")
+    expect(batch.endpoint).toBe("/operations")
+  })
+})
+
+describe("send()", () => {
+  test("returns an empty array for an empty batch", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = jest.spyOn(drupal, "fetch")
+
+    await expect(drupal.batch().send()).resolves.toEqual([])
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  describe("atomic operations", () => {
+    test("sends the operations in one request", async () => {
+      const drupal = new NextDrupal(BASE_URL, {
+        auth: mocks.auth.clientIdSecret,
+      })
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/operations": [
+          200,
+          {
+            "atomic:results": [
+              resource("media--image", "media-1", { name: "Image" }),
+              resource("node--article", "node-1", { title: "Article" }),
+              resource("node--page", "node-2", { title: "Updated" }),
+              {},
+            ],
+          },
+        ],
+      })
+
+      const batch = drupal.batch()
+      const media = batch.create("media--image", {
+        data: { attributes: { name: "Image" } },
+      })
+      const article = batch.create("node--article", {
+        data: {
+          attributes: { title: "Article" },
+          relationships: { field_media_image: { data: media } },
+        },
+      })
+      batch.update("node--page", "node-2", {
+        data: { attributes: { title: "Updated" } },
+      })
+      batch.delete("node--page", "node-3")
+
+      const results = await batch.send()
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+      expect(fetchSpy.mock.calls[0][0]).toBe(`${BASE_URL}/jsonapi/operations`)
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({
+        method: "POST",
+        headers: {
+          "Content-Type": ATOMIC_MEDIA_TYPE,
+          Accept: ATOMIC_MEDIA_TYPE,
+        },
+        withAuth: true,
+      })
+      expect(getRequests(fetchSpy)[0].body).toEqual({
+        "atomic:operations": [
+          {
+            op: "add",
+            data: {
+              type: "media--image",
+              lid: media.lid,
+              attributes: { name: "Image" },
+            },
+          },
+          {
+            op: "add",
+            data: {
+              type: "node--article",
+              lid: article.lid,
+              attributes: { title: "Article" },
+              relationships: {
+                field_media_image: {
+                  data: { type: "media--image", lid: media.lid },
+                },
+              },
+            },
+          },
+          {
+            op: "update",
+            data: {
+              type: "node--page",
+              id: "node-2",
+              attributes: { title: "Updated" },
+            },
+          },
+          { op: "remove", ref: { type: "node--page", id: "node-3" } },
+        ],
+      })
+      expect(results).toEqual([
+        { type: "media--image", id: "media-1", name: "Image" },
+        expect.objectContaining({ id: "node-1", title: "Article" }),
+        expect.objectContaining({ id: "node-2", title: "Updated" }),
+        null,
+      ])
+    })
+
+    test("generates local ids that differ from the given local ids", () => {
+      const batch = new NextDrupal(BASE_URL).batch()
+      const refs = [
+        batch.create("node--page", { data: { lid: "lid-1" } }),
+        batch.create("node--page", { data: {} }),
+        batch.createFile("file--file", file),
+        batch.create("node--page", { data: { lid: "lid-2" } }),
+      ]
+
+      expect(new Set(refs.map(({ lid }) => lid)).size).toBe(refs.length)
+    })
+
+    test("uses the given local ids and returns raw documents", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/operations": [
+          200,
+          { "atomic:results": [resource("node--page", "node-1")] },
+        ],
+      })
+
+      const batch = drupal.batch({ mode: "atomic" })
+      const ref = batch.create("node--page", { data: { lid: "page" } })
+      batch.update("node--page", ref, {
+        data: { attributes: { title: "Page" } },
+      })
+
+      const results = await batch.send({ deserialize: false })
+
+      expect(ref).toEqual({ type: "node--page", lid: "page" })
+      expect(getRequests(fetchSpy)[0].body["atomic:operations"]).toEqual([
+        { op: "add", data: { type: "node--page", lid: "page" } },
+        {
+          op: "update",
+          data: {
+            type: "node--page",
+            lid: "page",
+            attributes: { title: "Page" },
+          },
+        },
+      ])
+      expect(results).toEqual([resource("node--page", "node-1"), null])
+    })
+
+    test("handles responses without content", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      spyOnRequests(drupal, { "POST /jsonapi/operations": [204] })
+
+      const batch = drupal.batch()
+      batch.delete("node--page", "node-1")
+      batch.delete("node--page", "node-2")
+
+      await expect(batch.send()).resolves.toEqual([null, null])
+    })
+
+    test("uploads files first", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/media/image/field_media_image": [
+          201,
+          resource("file--file", "file-1"),
+        ],
+        "POST /jsonapi/operations": [
+          200,
+          { "atomic:results": [resource("media--image", "media-1")] },
+        ],
+      })
+
+      const batch = drupal.batch()
+      const image = batch.createFile("file--file", file)
+      batch.create("media--image", {
+        data: { relationships: { field_media_image: { data: image } } },
+      })
+
+      const results = await batch.send()
+
+      expect(getRequests(fetchSpy).map(({ key }) => key)).toEqual([
+        "POST /jsonapi/media/image/field_media_image",
+        "POST /jsonapi/operations",
+      ])
+      expect(
+        getRequests(fetchSpy)[1].body["atomic:operations"][0].data
+      ).toMatchObject({
+        relationships: {
+          field_media_image: { data: { type: "file--file", id: "file-1" } },
+        },
+      })
+      expect(results).toEqual([
+        expect.objectContaining({ type: "file--file", id: "file-1" }),
+        expect.objectContaining({ type: "media--image", id: "media-1" }),
+      ])
+    })
+
+    test("deletes uploaded files if the operations fail", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/media/image/field_media_image": [
+          201,
+          resource("file--file", "file-1"),
+        ],
+        "POST /jsonapi/operations": [422, unprocessable],
+        "DELETE /jsonapi/file/file/file-1": [204],
+      })
+
+      const batch = drupal.batch()
+      batch.createFile("file--file", file)
+      batch.create("media--image", { data: {} })
+
+      await expect(batch.send()).rejects.toThrow(
+        new JsonApiErrors(
+          unprocessable.errors,
+          422,
+          "Error while sending atomic operations: "
+        )
+      )
+      expect(getRequests(fetchSpy).map(({ key }) => key)).toContain(
+        "DELETE /jsonapi/file/file/file-1"
+      )
+    })
+
+    test("throws if the server does not support atomic operations", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      spyOnRequests(drupal, {
+        "POST /jsonapi/operations": [415, unprocessable],
+      })
+
+      const batch = drupal.batch({ mode: "atomic" })
+      batch.create("node--page", { data: {} })
+
+      await expect(batch.send()).rejects.toThrow(JsonApiErrors)
+    })
+  })
+
+  describe("rollback mode", () => {
+    test("falls back to a request per operation", async () => {
+      const logger = mockLogger()
+      const drupal = new NextDrupal(BASE_URL, { debug: true, logger })
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/operations": [404, unprocessable],
+        "POST /jsonapi/node/page": [201, resource("node--page", "node-1")],
+        "GET /jsonapi/node/page/node-1": [
+          200,
+          resource("node--page", "node-1"),
+        ],
+        "PATCH /jsonapi/node/page/node-1": [
+          200,
+          resource("node--page", "node-1", { title: "Page" }),
+        ],
+        "DELETE /jsonapi/node/page/node-2": [204],
+      })
+
+      const batch = drupal.batch()
+      const ref = batch.create("node--page", { data: {} })
+      batch.update("node--page", ref, {
+        data: { attributes: { title: "Page" } },
+      })
+      batch.delete("node--page", "node-2")
+
+      const results = await batch.send()
+
+      expect(getRequests(fetchSpy).map(({ key }) => key)).toEqual([
+        "POST /jsonapi/operations",
+        "POST /jsonapi/node/page",
+        "GET /jsonapi/node/page/node-1",
+        "PATCH /jsonapi/node/page/node-1",
+        "DELETE /jsonapi/node/page/node-2",
+      ])
+      expect(results).toEqual([
+        expect.objectContaining({ id: "node-1" }),
+        expect.objectContaining({ id: "node-1", title: "Page" }),
+        null,
+      ])
+      expect(logger.debug).toHaveBeenCalledWith(
+        "Atomic operations are not supported. Sending a request per operation."
+      )
+
+      // The next batch does not try atomic operations again.
+      fetchSpy.mockClear()
+      const next = drupal.batch()
+      next.delete("node--page", "node-2")
+      await next.send()
+
+      expect(getRequests(fetchSpy).map(({ key }) => key)).toEqual([
+        "DELETE /jsonapi/node/page/node-2",
+      ])
+    })
+
+    test("falls back for responses that are not errors of the operations", async () => {
+      for (const [body, contentType] of [
+        ["<h1>Not Found</h1>", "text/html"],
+        ["{}", "application/json"],
+        ["null", "application/json"],
+      ]) {
+        const drupal = new NextDrupal(BASE_URL)
+        const fetchSpy = jest
+          .spyOn(drupal, "fetch")
+          .mockResolvedValueOnce(
+            new Response(body, {
+              status: 404,
+              headers: { "content-type": contentType },
+            })
+          )
+          .mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+        const batch = drupal.batch()
+        batch.delete("node--page", "node-1")
+
+        await expect(batch.send()).resolves.toEqual([null])
+        expect(getRequests(fetchSpy).map(({ key }) => key)).toEqual([
+          "POST /jsonapi/operations",
+          "DELETE /jsonapi/node/page/node-1",
+        ])
+      }
+    })
+
+    test("throws errors of the operations", async () => {
+      const notFound = {
+        errors: [
+          {
+            status: "404",
+            title: "Not Found",
+            source: { pointer: "/atomic:operations/0" },
+          },
+        ],
+      }
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/operations": [404, notFound],
+      })
+
+      const batch = drupal.batch()
+      batch.delete("node--page", "node-1")
+
+      await expect(batch.send()).rejects.toThrow("Not Found")
+
+      // Atomic operations are supported, so the next batch uses them too.
+      jest.spyOn(drupal, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ errors: [{ title: "Gone" }] }), {
+          status: 404,
+          headers: { "content-type": ATOMIC_MEDIA_TYPE },
+        })
+      )
+
+      const next = drupal.batch()
+      next.delete("node--page", "node-1")
+
+      await expect(next.send()).rejects.toThrow("Gone")
+      expect(getRequests(fetchSpy).map(({ key }) => key)).toEqual([
+        "POST /jsonapi/operations",
+        "POST /jsonapi/operations",
+      ])
+    })
+
+    test("resolves local ids in relationships", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/taxonomy_term/tags": [
+          201,
+          resource("taxonomy_term--tags", "term-1"),
+        ],
+        "POST /jsonapi/node/article": [
+          201,
+          resource("node--article", "node-1"),
+        ],
+      })
+
+      const batch = drupal.batch({ mode: "rollback" })
+      const tag = batch.create("taxonomy_term--tags", {
+        data: { lid: "tag", attributes: { name: "Tag" } },
+      })
+      batch.create("node--article", {
+        data: {
+          relationships: {
+            field_tags: {
+              data: [tag, { type: "taxonomy_term--tags", id: "term-2" }],
+            },
+            uid: { data: null },
+          },
+        },
+      })
+
+      await batch.send()
+
+      expect(getRequests(fetchSpy)[0].body).toEqual({
+        data: { type: "taxonomy_term--tags", attributes: { name: "Tag" } },
+      })
+      expect(getRequests(fetchSpy)[1].body).toEqual({
+        data: {
+          type: "node--article",
+          relationships: {
+            field_tags: {
+              data: [
+                { type: "taxonomy_term--tags", id: "term-1" },
+                { type: "taxonomy_term--tags", id: "term-2" },
+              ],
+            },
+            uid: { data: null },
+          },
+        },
+      })
+    })
+
+    test("rolls back the operations sent if an operation fails", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const fetchSpy = spyOnRequests(drupal, {
+        "POST /jsonapi/media/image/field_media_image": [
+          201,
+          resource("file--file", "file-1"),
+        ],
+        "GET /jsonapi/node/page/node-1": [
+          200,
+          {
+            data: {
+              type: "node--page",
+              id: "node-1",
+              attributes: { title: "Before", status: true },
+            },
+          },
+        ],
+        "PATCH /jsonapi/node/page/node-1": [
+          [200, resource("node--page", "node-1")],
+          [200, resource("node--page", "node-1")],
+        ],
+        "GET /jsonapi/node/page/node-2": [
+          200,
+          {
+            data: {
+              type: "node--page",
+              id: "node-2",
+              relationships: {
+                uid: { data: { type: "user--user", id: "user-1" } },
+                field_tags: { data: [] },
+              },
+            },
+          },
+        ],
+        "PATCH /jsonapi/node/page/node-2": [
+          [200, resource("node--page", "node-2")],
+          [200, resource("node--page", "node-2")],
+        ],
+        "POST /jsonapi/node/article": [422, unprocessable],
+        "DELETE /jsonapi/file/file/file-1": [204],
+      })
+
+      const batch = drupal.batch({ mode: "rollback" })
+      batch.createFile("file--file", file)
+      batch.update("node--page", "node-1", {
+        data: {
+          attributes: { title: "After", promote: true },
+        },
+      })
+      batch.update("node--page", "node-2", {
+        data: {
+          relationships: { uid: { data: null }, field_image: { data: null } },
+        },
+      })
+      batch.create("node--article", { data: {} })
+
+      await expect(batch.send()).rejects.toThrow(
+        new JsonApiErrors(
+          unprocessable.errors,
+          422,
+          "Error while creating resource: "
+        )
+      )
+      expect(getRequests(fetchSpy).slice(-3)).toEqual([
+        {
+          key: "PATCH /jsonapi/node/page/node-2",
+          body: {
+            data: {
+              type: "node--page",
+              id: "node-2",
+              attributes: {},
+              relationships: {
+                uid: { data: { type: "user--user", id: "user-1" } },
+                field_image: { data: null },
+              },
+            },
+          },
+        },
+        {
+          key: "PATCH /jsonapi/node/page/node-1",
+          body: {
+            data: {
+              type: "node--page",
+              id: "node-1",
+              attributes: { title: "Before", promote: null },
+              relationships: {},
+            },
+          },
+        },
+        { key: "DELETE /jsonapi/file/file/file-1", body: undefined },
+      ])
+    })
+
+    test("throws a NextDrupalRollbackError if the rollback fails", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      spyOnRequests(drupal, {
+        "POST /jsonapi/node/page": [
+          [201, resource("node--page", "node-1")],
+          [422, unprocessable],
+        ],
+        "DELETE /jsonapi/node/page/node-1": [403, unprocessable],
+      })
+
+      const batch = drupal.batch({ mode: "rollback" })
+      batch.create("node--page", { data: {} })
+      batch.create("node--page", { data: {} })
+
+      const error = await batch.send().catch((error) => error)
+
+      expect(error).toBeInstanceOf(NextDrupalRollbackError)
+      expect(error.message).toMatch(
+        /^Failed to roll back 1 operation after: Error while creating resource: +422 Unprocessable Entity$/
+      )
+      expect(error.error).toBeInstanceOf(JsonApiErrors)
+      expect(error.errors).toHaveLength(1)
+    })
+
+    test("throws an error for unknown local ids", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      spyOnRequests(drupal, {})
+
+      const batch = drupal.batch({ mode: "rollback" })
+      batch.delete("node--page", { type: "node--page", lid: "unknown" })
+
+      await expect(batch.send()).rejects.toThrow(
+        "The local id 'unknown' does not reference a resource created earlier in the batch."
+      )
+    })
+  })
+})
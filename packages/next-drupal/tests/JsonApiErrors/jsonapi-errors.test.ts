@@ -0,0 +1,167 @@
+import { describe, expect, test } from "@jest/globals"
+import {
+  ForbiddenError,
+  isJsonApiError,
+  JsonApiErrors,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../src"
+import type { JsonApiError } from "../../src"
+
+const validationErrors: JsonApiError[] = [
+  {
+    status: "422",
+    title: "Unprocessable Entity",
+    detail: "title: This value should not be null.",
+    source: { pointer: "/data/attributes/title" },
+  },
+  {
+    status: "422",
+    title: "Unprocessable Entity",
+    detail: "body.0.value: This value is too long.",
+    source: { pointer: "/data/attributes/body/value" },
+  },
+  {
+    status: "422",
+    title: "Unprocessable Entity",
+    detail: "This value should be unique.",
+    source: { pointer: "/data/attributes/title" },
+  },
+  {
+    status: "422",
+    title: "Unprocessable Entity",
+    detail: "field_tags: This entity cannot be referenced.",
+    source: { pointer: "/data/relationships/field_tags" },
+  },
+  {
+    status: "422",
+    title: "Unprocessable Entity",
+    detail: "Entity is not valid.",
+  },
+  {
+    status: "422",
+    title: "Invalid image.",
+    source: { pointer: "/data/attributes/field_image" },
+  },
+]
+
+describe("JsonApiErrors", () => {
+  test("formats every error in the message", () => {
+    const error = new JsonApiErrors(
+      [
+        { status: "404", title: "Not Found", detail: "Oops." },
+        { status: "418", title: "I am a teapot" },
+      ],
+      404,
+      "Error while fetching resource:"
+    )
+
+    expect(error.message).toBe(
+      "Error while fetching resource: 404 Not Found\nOops.\n418 I am a teapot"
+    )
+    expect(error.name).toBe("JsonApiErrors")
+  })
+
+  test("adds the request", () => {
+    const error = new JsonApiErrors("Not found", 404, "", {
+      url: "https://example.com/jsonapi/node/article/1",
+      method: "GET",
+    })
+
+    expect(error.url).toBe("https://example.com/jsonapi/node/article/1")
+    expect(error.method).toBe("GET")
+  })
+})
+
+describe("JsonApiErrors.create()", () => {
+  test.each([
+    [401, UnauthorizedError, "UnauthorizedError"],
+    [403, ForbiddenError, "ForbiddenError"],
+    [404, NotFoundError, "NotFoundError"],
+    [422, ValidationError, "ValidationError"],
+    [429, RateLimitError, "RateLimitError"],
+    [500, ServerError, "ServerError"],
+    [503, ServerError, "ServerError"],
+    [400, JsonApiErrors, "JsonApiErrors"],
+  ])("creates an error for status %i", (status, ErrorClass, name) => {
+    const error = JsonApiErrors.create("Error", status, "Prefix:", {
+      url: "/jsonapi",
+    })
+
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toBeInstanceOf(JsonApiErrors)
+    expect(error.name).toBe(name)
+    expect(error.message).toBe("Prefix: Error")
+    expect(error.statusCode).toBe(status)
+    expect(error.url).toBe("/jsonapi")
+  })
+
+  test("defaults to no message prefix", () => {
+    expect(JsonApiErrors.create("Error", 404).message).toBe("Error")
+  })
+})
+
+describe("ValidationError", () => {
+  test("returns the error messages by field", () => {
+    const error = new ValidationError(validationErrors, 422)
+
+    expect(error.fieldErrors).toEqual({
+      title: ["This value should not be null.", "This value should be unique."],
+      "body.value": ["This value is too long."],
+      field_tags: ["This entity cannot be referenced."],
+      field_image: ["Invalid image."],
+    })
+  })
+
+  test("returns no field errors for a message", () => {
+    const error = new ValidationError("Unprocessable Entity", 422)
+
+    expect(error.fieldErrors).toEqual({})
+  })
+
+  test("returns an empty message for errors without details", () => {
+    const error = new ValidationError(
+      [{ source: { pointer: "/data/attributes/title" } }],
+      422
+    )
+
+    expect(error.fieldErrors).toEqual({ title: [""] })
+  })
+})
+
+describe("RateLimitError", () => {
+  test("adds the number of seconds to wait", () => {
+    expect(new RateLimitError("Too Many Requests", 429).retryAfter).toBe(
+      undefined
+    )
+    expect(
+      new RateLimitError("Too Many Requests", 429, "", { retryAfter: 30 })
+        .retryAfter
+    ).toBe(30)
+  })
+})
+
+describe("isJsonApiError()", () => {
+  test("returns true for JSON:API errors", () => {
+    expect(isJsonApiError(new JsonApiErrors("Error", 400))).toBe(true)
+    expect(isJsonApiError(new NotFoundError("Not found", 404))).toBe(true)
+  })
+
+  test("returns true for errors of other package entries", () => {
+    const error = Object.assign(new Error("Not found"), {
+      errors: "Not found",
+      statusCode: 404,
+    })
+
+    expect(isJsonApiError(error)).toBe(true)
+  })
+
+  test("returns false for other values", () => {
+    expect(isJsonApiError(new Error("Error"))).toBe(false)
+    expect(isJsonApiError({ errors: [], statusCode: 404 })).toBe(false)
+    expect(isJsonApiError(null)).toBe(false)
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "@jest/globals"
+import { JsonApiParamsBuilder, toJsonApiParamsObject } from "../../src"
+import type { JsonApiFilterOperator } from "../../src"
+
+describe("JsonApiParamsBuilder", () => {
+  test("returns an empty query object by default", () => {
+    expect(new JsonApiParamsBuilder().getQueryObject()).toEqual({})
+  })
+
+  test("adds simple filters using the shorthand syntax", () => {
+    const params = new JsonApiParamsBuilder().addFilter("status", "1")
+
+    expect(params.getQueryObject()).toEqual({
+      "filter[status]": "1",
+    })
+  })
+
+  test("adds filter conditions", () => {
+    const params = new JsonApiParamsBuilder()
+      .addFilter("title", "Deep", "STARTS_WITH")
+      .addFilter("drupal_internal__nid", [1, 2], "IN")
+      .addFilter("field_image", null, "IS NULL")
+
+    expect(params.getQueryObject()).toEqual({
+      "filter[title][condition][path]": "title",
+      "filter[title][condition][operator]": "STARTS_WITH",
+      "filter[title][condition][value]": "Deep",
+      "filter[drupal_internal__nid][condition][path]": "drupal_internal__nid",
+      "filter[drupal_internal__nid][condition][operator]": "IN",
+      "filter[drupal_internal__nid][condition][value]": [1, 2],
+      "filter[field_image][condition][path]": "field_image",
+      "filter[field_image][condition][operator]": "IS NULL",
+    })
+  })
+
+  test("adds repeated filters on the same path", () => {
+    const params = new JsonApiParamsBuilder()
+      .addFilter("created", 100, ">")
+      .addFilter("created", 200, "<")
+
+    expect(params.getQueryObject()).toMatchObject({
+      "filter[created][condition][path]": "created",
+      "filter[created][condition][operator]": ">",
+      "filter[created_2][condition][path]": "created",
+      "filter[created_2][condition][operator]": "<",
+    })
+  })
+
+  test("adds filter groups", () => {
+    const params = new JsonApiParamsBuilder()
+      .addGroup("or-group", "OR")
+      .addGroup("and-group", "AND", "or-group")
+      .addFilter("status", "1", "=", "and-group")
+      .addFilter("promote", "1", "=", "or-group")
+
+    expect(params.getQueryObject()).toEqual({
+      "filter[or-group][group][conjunction]": "OR",
+      "filter[and-group][group][conjunction]": "AND",
+      "filter[and-group][group][memberOf]": "or-group",
+      "filter[status][condition][path]": "status",
+      "filter[status][condition][operator]": "=",
+      "filter[status][condition][value]": "1",
+      "filter[status][condition][memberOf]": "and-group",
+      "filter[promote][condition][path]": "promote",
+      "filter[promote][condition][operator]": "=",
+      "filter[promote][condition][value]": "1",
+      "filter[promote][condition][memberOf]": "or-group",
+    })
+  })
+
+  test("adds includes, sparse fieldsets, sorting, paging and resourceVersion", () => {
+    const params = new JsonApiParamsBuilder()
+      .addInclude(["uid", "field_image"])
+      .addInclude("uid")
+      .addFields("node--article", ["title", "path"])
+      .addFields("node--article", ["body"])
+      .addSort("created", "DESC")
+      .addSort("title")
+      .addPageLimit(10)
+      .addPageOffset(20)
+      .addResourceVersion("rel:latest-version")
+      .addCustomParam({ foo: "bar" })
+
+    expect(params.getQueryObject()).toEqual({
+      include: "uid,field_image",
+      "fields[node--article]": "title,path,body",
+      sort: "-created,title",
+      "page[limit]": 10,
+      "page[offset]": 20,
+      resourceVersion: "rel:latest-version",
+      foo: "bar",
+    })
+  })
+
+  test("throws an error for an unknown operator", () => {
+    expect(() =>
+      new JsonApiParamsBuilder().addFilter(
+        "title",
+        "foo",
+        "LIKE" as JsonApiFilterOperator
+      )
+    ).toThrow("'LIKE' is not a valid filter operator for 'title'.")
+  })
+
+  test("throws an error for invalid filter values", () => {
+    const params = new JsonApiParamsBuilder()
+
+    expect(() => params.addFilter("nid", 1, "IN")).toThrow(
+      "The 'IN' operator for 'nid' requires a non-empty array value."
+    )
+    expect(() => params.addFilter("nid", [1], "BETWEEN")).toThrow(
+      "The 'BETWEEN' operator for 'nid' requires an array value with two items."
+    )
+    expect(() => params.addFilter("nid", [1, 2], ">")).toThrow(
+      "The '>' operator for 'nid' requires a single value."
+    )
+    expect(() => params.addFilter("", "1")).toThrow(
+      "A filter path is required."
+    )
+  })
+
+  test("throws an error for invalid groups", () => {
+    expect(() =>
+      new JsonApiParamsBuilder().addGroup("group", "XOR" as "AND")
+    ).toThrow("'XOR' is not a valid filter group conjunction.")
+    expect(() =>
+      new JsonApiParamsBuilder().addGroup("group").addGroup("group")
+    ).toThrow("A filter named 'group' has already been added.")
+  })
+
+  test("throws an error for an unknown memberOf group", () => {
+    const params = new JsonApiParamsBuilder().addFilter(
+      "status",
+      "1",
+      "=",
+      "missing"
+    )
+
+    expect(() => params.getQueryObject()).toThrow(
+      "The filter 'status' is a member of the unknown group 'missing'."
+    )
+  })
+
+  test("throws an error for invalid sort and paging", () => {
+    const params = new JsonApiParamsBuilder()
+
+    expect(() => params.addSort("title", "UP" as "ASC")).toThrow(
+      "'UP' is not a valid sort direction."
+    )
+    expect(() => params.addPageLimit(0)).toThrow(
+      "The page limit must be a positive integer."
+    )
+    expect(() => params.addPageOffset(-1)).toThrow(
+      "The page offset must be a non-negative integer."
+    )
+  })
+})
+
+describe("toJsonApiParamsObject()", () => {
+  test("returns the query object of a builder", () => {
+    expect(
+      toJsonApiParamsObject(new JsonApiParamsBuilder().addInclude("uid"))
+    ).toEqual({ include: "uid" })
+  })
+
+  test("returns plain params objects", () => {
+    const params = { include: "uid" }
+
+    expect(toJsonApiParamsObject(params)).toBe(params)
+    expect(toJsonApiParamsObject(undefined)).toBeUndefined()
+  })
+
+  test("joins includes and sparse fieldsets passed as arrays", () => {
+    expect(
+      toJsonApiParamsObject({
+        include: ["uid", "field_tags.vid"],
+        fields: { "node--article": ["title", "uid"], "user--user": "name" },
+        sort: "-created",
+      })
+    ).toEqual({
+      include: "uid,field_tags.vid",
+      "fields[node--article]": "title,uid",
+      "fields[user--user]": "name",
+      sort: "-created",
+    })
+    expect(
+      toJsonApiParamsObject({ fields: { "node--article": ["title"] } })
+    ).toEqual({ "fields[node--article]": "title" })
+  })
+})
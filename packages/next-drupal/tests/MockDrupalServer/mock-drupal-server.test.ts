@@ -0,0 +1,792 @@
+import { describe, expect, test } from "@jest/globals"
+import {
+  getCacheTags,
+  JsonApiParamsBuilder,
+  NextDrupal,
+  NextDrupalPages,
+  NotFoundError,
+} from "../../src"
+import { MockDrupalServer } from "../../src/testing"
+import { BASE_URL } from "../utils"
+import {
+  ARTICLE_ID,
+  BLOG_ID,
+  DRAFT_ID,
+  HOME_ID,
+  NEWS_ID,
+  options,
+  SECOND_ARTICLE_ID,
+  USER_ID,
+} from "./resources"
+import type {
+  DrupalNode,
+  DrupalTaxonomyTerm,
+  JsonApiResponse,
+  NextDrupalOptions,
+} from "../../src"
+
+const auth = { clientId: "id", clientSecret: "secret" }
+
+function createClient(
+  server = new MockDrupalServer(options),
+  clientOptions: NextDrupalOptions = {}
+) {
+  return new NextDrupal(BASE_URL, { fetcher: server.fetch, ...clientOptions })
+}
+
+function getTitles(resources: DrupalNode[]) {
+  return resources.map(({ title }) => title)
+}
+
+describe("resources", () => {
+  test("returns a resource and its includes", async () => {
+    const drupal = createClient()
+
+    const article = await drupal.getResource<DrupalNode>(
+      "node--article",
+      ARTICLE_ID,
+      { params: { include: "uid.user_picture,field_tags" } }
+    )
+
+    expect(article.title).toBe("First article")
+    expect(article.uid.name).toBe("admin")
+    expect(article.field_tags.map(({ name }) => name)).toEqual(["News", "Blog"])
+    expect(getCacheTags(article)).toEqual([
+      "node:1",
+      "user:1",
+      "taxonomy_term:1",
+      "taxonomy_term:2",
+    ])
+  })
+
+  test("returns the links and sparse fieldsets of resources", async () => {
+    const drupal = createClient()
+
+    const json = await drupal.getResource<JsonApiResponse>(
+      "node--article",
+      ARTICLE_ID,
+      {
+        deserialize: false,
+        params: {
+          include: "uid",
+          fields: { "node--article": ["title", "uid"], "user--user": "name" },
+        },
+      }
+    )
+
+    expect(json.data).toEqual({
+      type: "node--article",
+      id: ARTICLE_ID,
+      links: {
+        self: { href: `${BASE_URL}/jsonapi/node/article/${ARTICLE_ID}` },
+      },
+      attributes: { title: "First article" },
+      relationships: {
+        uid: { data: { type: "user--user", id: USER_ID } },
+      },
+    })
+    expect(json.included[0].attributes).toEqual({ name: "admin" })
+  })
+
+  test("returns the translation of a locale", async () => {
+    const drupal = createClient()
+    const locale = { locale: "es", defaultLocale: "en" }
+
+    expect(
+      (
+        await drupal.getResource<DrupalNode>(
+          "node--article",
+          ARTICLE_ID,
+          locale
+        )
+      ).title
+    ).toBe("Primer artículo")
+    // Resources without a translation are returned in the default language.
+    expect(
+      (
+        await drupal.getResource<DrupalNode>(
+          "node--article",
+          SECOND_ARTICLE_ID,
+          locale
+        )
+      ).title
+    ).toBe("Second article")
+  })
+
+  test("throws an error for a missing resource", async () => {
+    const drupal = createClient()
+
+    const request = drupal.getResource("node--article", "missing")
+
+    await expect(request).rejects.toThrow(NotFoundError)
+    await expect(request).rejects.toThrow(
+      'The "node" entity with ID "missing" does not exist.'
+    )
+  })
+
+  test("returns unpublished resources to authenticated requests", async () => {
+    const server = new MockDrupalServer(options)
+    const anonymous = createClient(server)
+    const authenticated = createClient(server, { auth })
+
+    await expect(
+      anonymous.getResource("node--article", DRAFT_ID)
+    ).rejects.toThrow(
+      "The current user is not allowed to GET the selected resource."
+    )
+    expect(
+      getTitles(await anonymous.getResourceCollection("node--article"))
+    ).not.toContain("Draft")
+
+    expect(
+      (
+        await authenticated.getResource<DrupalNode>("node--article", DRAFT_ID, {
+          withAuth: true,
+        })
+      ).title
+    ).toBe("Draft")
+  })
+
+  test("adds the resources of documents", async () => {
+    const server = new MockDrupalServer()
+
+    server.addResources([
+      {
+        data: [{ type: "node--page", id: "1", attributes: { title: "One" } }],
+        included: [{ type: "user--user", id: "2" }],
+      },
+      { data: null },
+      { type: "node--page", id: "1", attributes: { title: "Updated" } },
+    ])
+
+    const drupal = createClient(server)
+
+    expect(getTitles(await drupal.getResourceCollection("node--page"))).toEqual(
+      ["Updated"]
+    )
+    expect(await drupal.getResourceCollection("user--user")).toHaveLength(1)
+  })
+})
+
+describe("collections", () => {
+  test("filters resources", async () => {
+    const drupal = createClient()
+    const getCollection = async (params) =>
+      getTitles(
+        await drupal.getResourceCollection<DrupalNode[]>("node--article", {
+          params,
+          withAuth: "Bearer token",
+        })
+      )
+
+    expect(await getCollection({ "filter[status]": 1 })).toEqual([
+      "First article",
+      "Second article",
+    ])
+    expect(
+      await getCollection({
+        "filter[title][value]": "SECOND",
+        "filter[title][operator]": "CONTAINS",
+      })
+    ).toEqual(["Second article"])
+    expect(await getCollection({ "filter[field_tags.name]": "News" })).toEqual([
+      "First article",
+    ])
+    expect(await getCollection({ "filter[uid.id]": USER_ID })).toHaveLength(3)
+    expect(await getCollection({ "filter[title.value]": "Draft" })).toEqual([])
+    expect(await getCollection({ "filter[path.pid]": "1" })).toEqual([])
+    expect(
+      await getCollection({ "filter[drupal_internal__nid]": ["1", "3"] })
+    ).toEqual(["First article", "Draft"])
+  })
+
+  test.each([
+    ["=", "Draft", ["Draft"]],
+    ["<>", "Draft", ["First article", "Second article"]],
+    [">", "2024-01-15", ["Second article", "Draft"]],
+    [">=", "2024-02-01T10:00:00+00:00", ["Second article", "Draft"]],
+    ["<", "2024-02-01", ["First article"]],
+    ["<=", "2024-02-01T10:00:00+00:00", ["First article", "Second article"]],
+    ["STARTS_WITH", "first", ["First article"]],
+    ["ENDS_WITH", "article", ["First article", "Second article"]],
+    ["IN", ["Draft", "Second article"], ["Second article", "Draft"]],
+    ["NOT IN", ["Draft", "Second article"], ["First article"]],
+    ["BETWEEN", ["2024-01-15", "2024-02-15"], ["Second article"]],
+    ["NOT BETWEEN", ["2024-01-15", "2024-02-15"], ["First article", "Draft"]],
+    ["UNKNOWN", "Draft", []],
+  ])(
+    "filters resources with the %s operator",
+    async (operator, value, titles) => {
+      const drupal = createClient()
+      const path = ["=", "<>", "IN", "NOT IN"].includes(operator)
+        ? "title"
+        : "created"
+      const params = new JsonApiParamsBuilder()
+
+      if (operator.endsWith("WITH")) {
+        params.addFilter("title", value as string, operator as never)
+      } else {
+        params.addCustomParam({
+          [`filter[condition][condition][path]`]: path,
+          [`filter[condition][condition][operator]`]: operator,
+          [`filter[condition][condition][value]`]: value,
+        })
+      }
+
+      expect(
+        getTitles(
+          await drupal.getResourceCollection("node--article", {
+            params,
+            withAuth: "Bearer token",
+          })
+        )
+      ).toEqual(titles)
+    }
+  )
+
+  test("filters resources with groups and null conditions", async () => {
+    const drupal = createClient()
+    const params = new JsonApiParamsBuilder()
+      .addGroup("or", "OR")
+      .addGroup("and", "AND", "or")
+      .addFilter("status", "0", "=", "and")
+      .addFilter("field_tags.id", null, "IS NULL", "and")
+      .addFilter("field_tags.id", BLOG_ID, "=", "or")
+
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params,
+          withAuth: "Bearer token",
+        })
+      )
+    ).toEqual(["First article", "Second article", "Draft"])
+
+    const tagged = new JsonApiParamsBuilder().addFilter(
+      "field_tags.id",
+      null,
+      "IS NOT NULL"
+    )
+
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", { params: tagged })
+      )
+    ).toEqual(["First article", "Second article"])
+  })
+
+  test("sorts resources", async () => {
+    const drupal = createClient()
+
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params: { sort: "-created" },
+          withAuth: "Bearer token",
+        })
+      )
+    ).toEqual(["Draft", "Second article", "First article"])
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params: { sort: "uid.name,-path.alias" },
+        })
+      )
+    ).toEqual(["Second article", "First article"])
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params: { sort: "field_tags.name,-drupal_internal__nid" },
+          withAuth: "Bearer token",
+        })
+      )
+    ).toEqual(["Draft", "Second article", "First article"])
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params: { sort: "status" },
+        })
+      )
+    ).toEqual(["First article", "Second article"])
+    expect(
+      getTitles(
+        await drupal.getResourceCollection("node--article", {
+          params: { sort: "status,-drupal_internal__nid" },
+        })
+      )
+    ).toEqual(["Second article", "First article"])
+    expect(
+      (
+        await drupal.getResourceCollection<DrupalTaxonomyTerm[]>(
+          "taxonomy_term--tags",
+          { params: { sort: "-weight,name" } }
+        )
+      ).map(({ name }) => name)
+    ).toEqual(["Blog", "News"])
+  })
+
+  test("paginates resources", async () => {
+    const server = new MockDrupalServer({
+      resources: Array.from({ length: 60 }, (_, index) => ({
+        type: "node--page",
+        id: String(index),
+        attributes: { drupal_internal__nid: index },
+      })),
+    })
+    const drupal = createClient(server)
+
+    const pages = []
+    for await (const page of drupal.getResourceCollectionPages<JsonApiResponse>(
+      "node--page",
+      { deserialize: false }
+    )) {
+      pages.push(page)
+    }
+
+    expect(pages.map(({ data }) => data.length)).toEqual([50, 10])
+    expect(pages[0].links.next.href).toBe(
+      `${BASE_URL}/jsonapi/node/page?page%5Boffset%5D=50&page%5Blimit%5D=50`
+    )
+
+    const limited = await drupal.getResourceCollection<JsonApiResponse>(
+      "node--page",
+      { deserialize: false, params: { "page[limit]": 25, "page[offset]": 50 } }
+    )
+
+    expect(limited.data).toHaveLength(10)
+    expect(limited.links.next).toBeUndefined()
+  })
+
+  test("returns the resource types of the index", async () => {
+    const drupal = createClient(undefined, { useDefaultEndpoints: false })
+
+    expect((await drupal.getIndex("es")).links).toMatchObject({
+      self: { href: `${BASE_URL}/es/jsonapi` },
+      "node--article": { href: `${BASE_URL}/es/jsonapi/node/article` },
+    })
+    expect(await drupal.getResourceCollection("node--page")).toMatchObject([
+      { id: HOME_ID },
+    ])
+  })
+})
+
+describe("paths", () => {
+  test("translates paths", async () => {
+    const drupal = createClient()
+
+    expect(await drupal.translatePath("/articles/first")).toMatchObject({
+      resolved: `${BASE_URL}/articles/first`,
+      isHomePath: false,
+      entity: {
+        type: "node",
+        bundle: "article",
+        id: "1",
+        uuid: ARTICLE_ID,
+        langcode: "en",
+        path: "/articles/first",
+      },
+      label: "First article",
+      jsonapi: {
+        individual: `${BASE_URL}/jsonapi/node/article/${ARTICLE_ID}`,
+        resourceName: "node--article",
+      },
+    })
+    expect(await drupal.translatePath("/es/articulos/primero")).toMatchObject({
+      entity: { uuid: ARTICLE_ID, langcode: "es" },
+      jsonapi: {
+        individual: `${BASE_URL}/es/jsonapi/node/article/${ARTICLE_ID}`,
+      },
+    })
+    expect(await drupal.translatePath("/")).toMatchObject({
+      isHomePath: true,
+      entity: { uuid: HOME_ID },
+    })
+    expect(await drupal.translatePath("/missing")).toBeNull()
+    expect(await drupal.translatePath("/articles/draft")).toBeNull()
+  })
+
+  test("translates paths without a path to the front page", async () => {
+    const server = new MockDrupalServer(options)
+
+    const response = await server.fetch(`${BASE_URL}/router/translate-path`)
+
+    expect(await response.json()).toMatchObject({
+      isHomePath: true,
+      entity: { uuid: HOME_ID },
+    })
+  })
+
+  test("translates paths of resources without a title", async () => {
+    const server = new MockDrupalServer()
+    server.addResources([
+      {
+        type: "taxonomy_term--tags",
+        id: "events",
+        attributes: { name: "Events", path: { alias: "/events" } },
+      },
+    ])
+
+    expect(await createClient(server).translatePath("/events")).toMatchObject({
+      entity: { id: "events", uuid: "events" },
+      label: "Events",
+    })
+  })
+
+  test("returns resources by path", async () => {
+    const server = new MockDrupalServer(options)
+    const drupal = createClient(server)
+    const subrequests = createClient(server, { useSubrequests: true })
+
+    for (const client of [drupal, subrequests]) {
+      expect(
+        await client.getResourceByPath<DrupalNode>("/articulos/primero", {
+          locale: "es",
+          defaultLocale: "en",
+          params: { include: "uid" },
+        })
+      ).toMatchObject({ title: "Primer artículo", uid: { name: "admin" } })
+      expect(await client.getResourceByPath("/missing")).toBeNull()
+    }
+  })
+
+  test("returns the resources and paths of pages", async () => {
+    const drupal = new NextDrupalPages(BASE_URL, {
+      fetcher: new MockDrupalServer(options).fetch,
+    })
+
+    expect(
+      await drupal.getResourceFromContext<DrupalNode>("node--article", {
+        params: { slug: ["articles", "second"] },
+      })
+    ).toMatchObject({ id: SECOND_ARTICLE_ID })
+    expect(
+      await drupal.getStaticPathsFromContext("node--article", {
+        locales: ["en", "es"],
+        defaultLocale: "en",
+      })
+    ).toEqual([
+      { params: { slug: ["articles", "first"] }, locale: "en" },
+      { params: { slug: ["articles", "second"] }, locale: "en" },
+      { params: { slug: ["articulos", "primero"] }, locale: "es" },
+      { params: { slug: ["articles", "second"] }, locale: "es" },
+    ])
+  })
+})
+
+describe("menus and views", () => {
+  test("returns the items of menus", async () => {
+    const drupal = createClient()
+
+    const menu = await drupal.getMenu("main")
+
+    expect(menu.items.map(({ title }) => title)).toEqual([
+      "Home",
+      "Articles",
+      "First article",
+    ])
+    expect(menu.tree[1].items[0]).toMatchObject({
+      title: "First article",
+      menu_name: "main",
+      enabled: true,
+    })
+    await expect(drupal.getMenu("footer")).rejects.toThrow(
+      'The menu "footer" does not exist.'
+    )
+  })
+
+  test("returns the results of views", async () => {
+    const drupal = createClient()
+
+    const view = await drupal.getView<DrupalNode>("featured_articles--page_1", {
+      params: { include: "uid" },
+    })
+
+    expect(getTitles(view.results as unknown as DrupalNode[])).toEqual([
+      "First article",
+      "Second article",
+    ])
+    expect(view.meta.count).toBe(2)
+    expect(getCacheTags(view)).toEqual([
+      "config:views.view.featured_articles",
+      "node:1",
+      "node:2",
+    ])
+    await expect(drupal.getView("missing--page_1")).rejects.toThrow(
+      'The view "missing--page_1" does not exist.'
+    )
+  })
+})
+
+describe("access tokens", () => {
+  test("returns access tokens", async () => {
+    const drupal = createClient()
+
+    expect(await drupal.getAccessToken(auth)).toMatchObject({
+      token_type: "Bearer",
+      expires_in: 300,
+    })
+    expect(
+      await drupal.getUserAccessToken({
+        grantType: "password",
+        clientId: "id",
+        username: "admin",
+        password: "admin",
+      })
+    ).toHaveProperty("refresh_token")
+  })
+
+  test("validates the client credentials", async () => {
+    const server = new MockDrupalServer({ ...options, auth })
+    const drupal = createClient(server, { auth })
+
+    expect(
+      (
+        await drupal.getResource<DrupalNode>("node--article", DRAFT_ID, {
+          withAuth: true,
+        })
+      ).title
+    ).toBe("Draft")
+    await expect(
+      drupal.getResource("node--article", DRAFT_ID, {
+        withAuth: "Bearer invalid",
+      })
+    ).rejects.toThrow("The current user is not allowed")
+    // Basic auth with the client credentials is allowed.
+    expect(
+      await drupal.getResource("node--article", DRAFT_ID, {
+        withAuth: { username: "id", password: "secret" },
+      })
+    ).toHaveProperty("id", DRAFT_ID)
+    await expect(
+      createClient(server).getAccessToken({
+        clientId: "id",
+        clientSecret: "wrong",
+      })
+    ).rejects.toThrow("Client authentication failed")
+  })
+})
+
+describe("writes", () => {
+  test("creates, updates and deletes resources", async () => {
+    const drupal = createClient(undefined, { auth })
+
+    const page = await drupal.createResource<DrupalNode>("node--page", {
+      data: { attributes: { title: "About" } },
+    })
+
+    expect(page).toMatchObject({ title: "About", langcode: "en" })
+    expect(
+      await drupal.updateResource<DrupalNode>("node--page", page.id, {
+        data: { attributes: { status: true } },
+      })
+    ).toMatchObject({ title: "About", status: true })
+    expect(await drupal.deleteResource("node--page", page.id)).toBe(true)
+    await expect(drupal.getResource("node--page", page.id)).rejects.toThrow(
+      NotFoundError
+    )
+  })
+
+  test("throws errors for invalid writes", async () => {
+    const drupal = createClient(undefined, { auth })
+
+    const server = new MockDrupalServer()
+    const conflict = await server.fetch(`${BASE_URL}/jsonapi/node/page`, {
+      method: "POST",
+      body: JSON.stringify({ data: { type: "node--article" } }),
+    })
+
+    expect(conflict.status).toBe(409)
+    expect((await conflict.json()).errors[0].detail).toBe(
+      "The provided type (node--article) does not match the destination resource types (node--page)."
+    )
+    await expect(
+      drupal.updateResource("node--page", "missing", { data: {} })
+    ).rejects.toThrow(NotFoundError)
+    await expect(
+      drupal.deleteResource("node--page", "missing")
+    ).rejects.toThrow(NotFoundError)
+  })
+
+  test("does not change the seeded resources", async () => {
+    const drupal = createClient(undefined, { auth })
+
+    await drupal.updateResource("node--article", ARTICLE_ID, {
+      data: { attributes: { title: "Updated" } },
+    })
+
+    expect(
+      (
+        await createClient().getResource<DrupalNode>(
+          "node--article",
+          ARTICLE_ID
+        )
+      ).title
+    ).toBe("First article")
+  })
+})
+
+describe("subrequests", () => {
+  test("sends the requests of a blueprint", async () => {
+    const drupal = createClient()
+
+    const { results, errors } = await drupal
+      .subrequests()
+      .translatePath("router", "/articles/second")
+      .resourceByPath("article", "router", {
+        params: { include: "field_tags" },
+      })
+      .resourceCollection("tags", "taxonomy_term--tags")
+      .add("tag", {
+        uri: `/jsonapi/taxonomy_term/tags/{{tags.body@$.data[*].id}}`,
+        waitFor: ["tags"],
+        many: true,
+      })
+      .add("firstTag", {
+        uri: "/jsonapi/taxonomy_term/tags/{{tags.body@$.data[0].id}}",
+        waitFor: ["tags"],
+      })
+      .menu("menu", "main")
+      .send()
+
+    expect(errors).toEqual({})
+    expect(results.article).toMatchObject({
+      id: SECOND_ARTICLE_ID,
+      field_tags: [{ name: "Blog" }],
+    })
+    expect((results.tag as DrupalTaxonomyTerm[]).map(({ id }) => id)).toEqual([
+      NEWS_ID,
+      BLOG_ID,
+    ])
+    expect(results.firstTag).toMatchObject({ id: NEWS_ID })
+    expect(results.menu).toHaveLength(3)
+  })
+
+  test("does not send requests waiting for failed requests", async () => {
+    const drupal = createClient()
+
+    const { results, errors } = await drupal
+      .subrequests()
+      .translatePath("router", "/missing")
+      .resourceByPath("resource", "router")
+      .add("created", {
+        action: "create",
+        uri: "/jsonapi/node/page",
+        body: { data: { type: "node--page", attributes: { title: "New" } } },
+      })
+      .add("title", {
+        uri: "/jsonapi/node/page/{{created.body@$.data.id}}?fields[node--page]={{created.body@$.data.attributes.missing}}",
+        waitFor: ["created"],
+      })
+      .add("deleted", {
+        action: "delete",
+        uri: "/jsonapi/node/page/{{created.body@$.data.id}}",
+        waitFor: ["created"],
+      })
+      .add("deletedId", {
+        uri: "/jsonapi/node/page/{{deleted.body@$.data.id}}",
+        waitFor: ["deleted"],
+      })
+      .add("unknown", {
+        uri: "/jsonapi/node/page/{{other.body@$.data.id}}",
+      })
+      .send()
+
+    expect(Object.keys(errors)).toEqual([
+      "router",
+      "resource",
+      "title",
+      "deletedId",
+      "unknown",
+    ])
+    expect(errors.resource.statusCode).toBe(424)
+    expect(results.created).toMatchObject({ title: "New" })
+  })
+
+  test("replaces values in request bodies", async () => {
+    const server = new MockDrupalServer(options)
+
+    const response = await server.fetch(`${BASE_URL}/subrequests`, {
+      method: "POST",
+      body: JSON.stringify([
+        {
+          requestId: "article",
+          uri: `/jsonapi/node/article/${ARTICLE_ID}`,
+        },
+        {
+          requestId: "copy",
+          action: "create",
+          uri: "/jsonapi/node/page",
+          body: JSON.stringify({
+            data: {
+              type: "node--page",
+              attributes: { title: "{{article.body@$.data.attributes.title}}" },
+            },
+          }),
+          waitFor: ["article"],
+        },
+      ]),
+    })
+    const json = await response.json()
+
+    expect(response.status).toBe(207)
+    expect(json["copy#body{0}"].headers.status).toEqual([201])
+    expect(JSON.parse(json["copy#body{0}"].body).data.attributes.title).toBe(
+      "First article"
+    )
+  })
+})
+
+describe("errors", () => {
+  test("returns errors for unknown routes and methods", async () => {
+    const server = new MockDrupalServer(options)
+
+    const missing = await server.fetch(`${BASE_URL}/jsonapi/node/page/1/2`)
+    expect(missing.status).toBe(404)
+    expect((await missing.json()).errors[0]).toEqual({
+      status: "404",
+      title: "Not Found",
+      detail: 'No route found for "GET /jsonapi/node/page/1/2".',
+    })
+
+    const other = await server.fetch(`${BASE_URL}/user/login`)
+    expect(other.status).toBe(404)
+
+    const method = await server.fetch(`${BASE_URL}/jsonapi/node/page`, {
+      method: "PUT",
+    })
+    expect(method.status).toBe(405)
+    expect(method.statusText).toBe("Method Not Allowed")
+  })
+})
+
+describe("listen()", () => {
+  test("serves the site over HTTP", async () => {
+    const server = new MockDrupalServer(options)
+    const baseUrl = await server.listen()
+
+    try {
+      const drupal = new NextDrupal(baseUrl, { auth })
+
+      expect(
+        await drupal.getResource<DrupalNode>("node--article", ARTICLE_ID)
+      ).toMatchObject({ title: "First article" })
+      expect(
+        await drupal.createResource<DrupalNode>("node--page", {
+          data: { attributes: { title: "About" } },
+        })
+      ).toMatchObject({ title: "About" })
+      expect(await drupal.deleteResource("node--page", HOME_ID)).toBe(true)
+
+      const invalid = await fetch(`${baseUrl}/jsonapi/node/page`, {
+        method: "POST",
+        body: "{",
+      })
+      expect(invalid.status).toBe(500)
+    } finally {
+      await server.close()
+    }
+
+    // Closing a closed server does nothing.
+    await server.close()
+  })
+})
@@ -0,0 +1,134 @@
+import type { MockDrupalServerOptions } from "../../src"
+
+export const ARTICLE_ID = "6ab6b8d6-7b7e-4f4f-9d3c-2f4f9d8b1a01"
+export const SECOND_ARTICLE_ID = "6ab6b8d6-7b7e-4f4f-9d3c-2f4f9d8b1a02"
+export const DRAFT_ID = "6ab6b8d6-7b7e-4f4f-9d3c-2f4f9d8b1a03"
+export const HOME_ID = "6ab6b8d6-7b7e-4f4f-9d3c-2f4f9d8b1a04"
+export const USER_ID = "b1d1b5a8-56c5-4a4e-8a8e-6a1c3c5b2a01"
+export const NEWS_ID = "c3f0e4b7-1e1d-4c8a-9f4b-8d2a6e7f3b01"
+export const BLOG_ID = "c3f0e4b7-1e1d-4c8a-9f4b-8d2a6e7f3b02"
+
+const author = { data: { type: "user--user", id: USER_ID } }
+
+export const options: MockDrupalServerOptions = {
+  resources: [
+    {
+      type: "node--article",
+      id: ARTICLE_ID,
+      attributes: {
+        drupal_internal__nid: 1,
+        langcode: "en",
+        default_langcode: true,
+        status: true,
+        title: "First article",
+        created: "2024-01-01T10:00:00+00:00",
+        path: { alias: "/articles/first", langcode: "en" },
+      },
+      relationships: {
+        uid: author,
+        field_tags: {
+          data: [
+            { type: "taxonomy_term--tags", id: NEWS_ID },
+            { type: "taxonomy_term--tags", id: BLOG_ID },
+          ],
+        },
+      },
+    },
+    {
+      type: "node--article",
+      id: ARTICLE_ID,
+      attributes: {
+        drupal_internal__nid: 1,
+        langcode: "es",
+        default_langcode: false,
+        status: true,
+        title: "Primer artículo",
+        created: "2024-01-01T10:00:00+00:00",
+        path: { alias: "/articulos/primero", langcode: "es" },
+      },
+      relationships: {
+        uid: author,
+        field_tags: { data: [] },
+      },
+    },
+    {
+      type: "node--article",
+      id: SECOND_ARTICLE_ID,
+      attributes: {
+        drupal_internal__nid: 2,
+        langcode: "en",
+        status: true,
+        title: "Second article",
+        created: "2024-02-01T10:00:00+00:00",
+        path: { alias: "/articles/second", langcode: "en" },
+      },
+      relationships: {
+        uid: author,
+        field_tags: {
+          data: [{ type: "taxonomy_term--tags", id: BLOG_ID }],
+        },
+      },
+    },
+    {
+      type: "node--article",
+      id: DRAFT_ID,
+      attributes: {
+        drupal_internal__nid: 3,
+        langcode: "en",
+        status: false,
+        title: "Draft",
+        created: "2024-03-01T10:00:00+00:00",
+        path: { alias: "/articles/draft", langcode: "en" },
+      },
+      relationships: {
+        uid: author,
+        field_tags: { data: [] },
+      },
+    },
+    {
+      type: "node--page",
+      id: HOME_ID,
+      attributes: {
+        drupal_internal__nid: 4,
+        langcode: "en",
+        status: true,
+        title: "Home",
+        path: { alias: "/home", langcode: "en" },
+      },
+    },
+    {
+      type: "user--user",
+      id: USER_ID,
+      attributes: { drupal_internal__uid: 1, name: "admin" },
+    },
+    {
+      type: "taxonomy_term--tags",
+      id: NEWS_ID,
+      attributes: { drupal_internal__tid: 1, name: "News" },
+    },
+    {
+      type: "taxonomy_term--tags",
+      id: BLOG_ID,
+      attributes: { drupal_internal__tid: 2, name: "Blog", weight: 1 },
+    },
+  ],
+  menus: {
+    main: [
+      { id: "menu_link_content:home", title: "Home", url: "/" },
+      { id: "menu_link_content:articles", title: "Articles", url: "/articles" },
+      {
+        id: "menu_link_content:first",
+        title: "First article",
+        url: "/articles/first",
+        parent: "menu_link_content:articles",
+      },
+    ],
+  },
+  views: {
+    "featured_articles--page_1": [
+      { type: "node--article", id: ARTICLE_ID },
+      { type: "node--article", id: DRAFT_ID },
+      { type: "node--article", id: SECOND_ARTICLE_ID },
+    ],
+  },
+}
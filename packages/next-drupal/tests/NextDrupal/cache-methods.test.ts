@@ -0,0 +1,610 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import { getCacheTags, JsonApiParamsBuilder, NextDrupal } from "../../src"
+import {
+  BASE_URL,
+  mockDataCache,
+  mockLogger,
+  mocks,
+  spyOnFetch,
+} from "../utils"
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("getCacheKey()", () => {
+  const drupal = new NextDrupal(BASE_URL, {
+    auth: mocks.auth.clientIdSecret,
+  })
+
+  test("returns a prefixed key", () => {
+    expect(drupal.getCacheKey("resource:node--article:1")).toMatch(
+      /^next-drupal:resource:node--article:1:[0-9a-z]+$/
+    )
+  })
+
+  test("returns the same key regardless of params order", () => {
+    expect(
+      drupal.getCacheKey("view:recipes", {
+        params: { include: "uid", sort: "-created" },
+      })
+    ).toBe(
+      drupal.getCacheKey("view:recipes", {
+        params: { sort: "-created", include: "uid" },
+      })
+    )
+  })
+
+  test("returns the same key for a JsonApiParamsBuilder", () => {
+    expect(
+      drupal.getCacheKey("view:recipes", {
+        params: new JsonApiParamsBuilder().addInclude("uid"),
+      })
+    ).toBe(drupal.getCacheKey("view:recipes", { params: { include: "uid" } }))
+  })
+
+  test("returns different keys for different params, locales and auth", () => {
+    const key = drupal.getCacheKey("view:recipes")
+
+    expect(
+      drupal.getCacheKey("view:recipes", { params: { include: "uid" } })
+    ).not.toBe(key)
+    expect(
+      drupal.getCacheKey("view:recipes", { locale: "es", defaultLocale: "en" })
+    ).not.toBe(key)
+    expect(drupal.getCacheKey("view:recipes", { withAuth: true })).not.toBe(key)
+    expect(
+      drupal.getCacheKey("view:recipes", { withAuth: "Bearer token" })
+    ).not.toBe(drupal.getCacheKey("view:recipes", { withAuth: true }))
+  })
+
+  test("ignores the default locale", () => {
+    expect(
+      drupal.getCacheKey("view:recipes", { locale: "en", defaultLocale: "en" })
+    ).toBe(drupal.getCacheKey("view:recipes"))
+  })
+
+  test("does not expose auth credentials", () => {
+    expect(
+      drupal.getCacheKey("view:recipes", { withAuth: true })
+    ).not.toContain(mocks.auth.clientIdSecret.clientSecret)
+  })
+})
+
+describe("getCachedJson()", () => {
+  const value = { data: "fresh" }
+
+  test("loads the data if caching is disabled", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const load = jest.fn(async () => value)
+
+    await expect(drupal.getCachedJson("foo", {}, load)).resolves.toBe(value)
+    expect(cache.get).not.toHaveBeenCalled()
+  })
+
+  test("loads the data if there is no cache", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const load = jest.fn(async () => value)
+
+    await expect(
+      drupal.getCachedJson("foo", { withCache: true }, load)
+    ).resolves.toBe(value)
+  })
+
+  test("caches the data", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const load = jest.fn(async () => value)
+
+    await drupal.getCachedJson("foo", { withCache: true }, load)
+    await expect(
+      drupal.getCachedJson("foo", { withCache: true }, load)
+    ).resolves.toEqual(value)
+
+    expect(load).toHaveBeenCalledTimes(1)
+    expect(cache.set).toHaveBeenCalledWith(
+      drupal.getCacheKey("foo"),
+      JSON.stringify({ value }),
+      undefined
+    )
+  })
+
+  test("uses a custom cache key", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+
+    await drupal.getCachedJson(
+      "foo",
+      { withCache: true, cacheKey: "custom" },
+      async () => value
+    )
+
+    expect(cache.set).toHaveBeenCalledWith(
+      "custom",
+      expect.anything(),
+      undefined
+    )
+  })
+
+  test("reads entries cached by earlier versions", async () => {
+    const cache = mockDataCache()
+    await cache.set("custom", JSON.stringify(value))
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const load = jest.fn(async () => null)
+
+    await expect(
+      drupal.getCachedJson("foo", { withCache: true, cacheKey: "custom" }, load)
+    ).resolves.toEqual(value)
+    expect(load).not.toHaveBeenCalled()
+  })
+
+  test("sets the ttl", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const now = Date.now()
+    jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getCachedJson(
+      "foo",
+      { withCache: true, cacheTtl: 60, staleWhileRevalidate: 30 },
+      async () => value
+    )
+
+    expect(cache.set).toHaveBeenCalledWith(
+      drupal.getCacheKey("foo"),
+      JSON.stringify({ value, expiresOn: now + 60000 }),
+      90
+    )
+  })
+
+  test("loads the data once the ttl has passed", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const options = { withCache: true, cacheTtl: 60 }
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getCachedJson("foo", options, async () => "first")
+
+    dateSpy.mockReturnValue(now + 59000)
+    await expect(
+      drupal.getCachedJson("foo", options, async () => "second")
+    ).resolves.toBe("first")
+
+    dateSpy.mockReturnValue(now + 61000)
+    await expect(
+      drupal.getCachedJson("foo", options, async () => "second")
+    ).resolves.toBe("second")
+  })
+
+  test("returns stale data while revalidating", async () => {
+    const cache = mockDataCache()
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { cache, debug: true, logger })
+    const options = {
+      withCache: true,
+      cacheTtl: 60,
+      staleWhileRevalidate: 60,
+    }
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getCachedJson("foo", options, async () => "first")
+
+    dateSpy.mockReturnValue(now + 90000)
+    let resolveLoad: (value: string) => void
+    const load = jest.fn(
+      () => new Promise<string>((resolve) => (resolveLoad = resolve))
+    )
+
+    await expect(drupal.getCachedJson("foo", options, load)).resolves.toBe(
+      "first"
+    )
+    await expect(drupal.getCachedJson("foo", options, load)).resolves.toBe(
+      "first"
+    )
+    expect(load).toHaveBeenCalledTimes(1)
+    expect(logger.debug).toHaveBeenCalledWith(
+      `Returning stale cached data for ${drupal.getCacheKey("foo")}.`
+    )
+
+    resolveLoad("second")
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    await expect(
+      drupal.getCachedJson("foo", options, async () => "third")
+    ).resolves.toBe("second")
+  })
+
+  test("logs errors while revalidating", async () => {
+    const cache = mockDataCache()
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { cache, logger })
+    const options = {
+      withCache: true,
+      cacheTtl: 60,
+      staleWhileRevalidate: 60,
+    }
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getCachedJson("foo", options, async () => "first")
+
+    dateSpy.mockReturnValue(now + 90000)
+    await expect(
+      drupal.getCachedJson("foo", options, async () => {
+        throw new Error("Service unavailable")
+      })
+    ).resolves.toBe("first")
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(logger.error).toHaveBeenCalledWith(
+      `Failed to revalidate cached data for ${drupal.getCacheKey("foo")}: Service unavailable`
+    )
+  })
+
+  test("loads the data once the stale window has passed", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const options = {
+      withCache: true,
+      cacheTtl: 60,
+      staleWhileRevalidate: 60,
+    }
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getCachedJson("foo", options, async () => "first")
+
+    dateSpy.mockReturnValue(now + 121000)
+    await expect(
+      drupal.getCachedJson("foo", options, async () => "second")
+    ).resolves.toBe("second")
+  })
+})
+
+describe("read methods", () => {
+  test("getResource() caches the response", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch({ responseBody: mocks.resources.node.ok })
+
+    const first = await drupal.getResource("node--recipe", "1", {
+      withCache: true,
+    })
+    const second = await drupal.getResource("node--recipe", "1", {
+      withCache: true,
+    })
+
+    expect(second).toEqual(first)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("getResourceCollection() caches the response", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch({
+      responseBody: mocks.collections.paginated.pageTwo,
+    })
+
+    await drupal.getResourceCollection("node--article", { withCache: true })
+    await drupal.getResourceCollection("node--article", { withCache: true })
+    await drupal.getResourceCollection("node--article", {
+      withCache: true,
+      params: { include: "uid" },
+    })
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test("getResourceByPath() caches the response", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const translatePathSpy = jest
+      .spyOn(drupal, "translatePath")
+      .mockResolvedValue(mocks.resources.translatePath.ok)
+    spyOnFetch({ responseBody: mocks.resources.node.ok })
+
+    const first = await drupal.getResourceByPath("/recipes/quiche", {
+      withCache: true,
+    })
+    const second = await drupal.getResourceByPath("/recipes/quiche", {
+      withCache: true,
+    })
+
+    expect(second).toEqual(first)
+    expect(first).toMatchObject({ type: "node--recipe" })
+    expect(translatePathSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("translatePath() caches not found paths", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch({
+      responseBody: mocks.resources.translatePath.notFound,
+      status: 404,
+    })
+
+    await expect(
+      drupal.translatePath("/missing", { withCache: true })
+    ).resolves.toBeNull()
+    await expect(
+      drupal.translatePath("/missing", { withCache: true })
+    ).resolves.toBeNull()
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("getIndex() caches the response", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch({ responseBody: { links: {} } })
+
+    await drupal.getIndex("es", { withCache: true })
+    await drupal.getIndex("es", { withCache: true })
+    await drupal.getIndex(undefined, { withCache: true })
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test("getMenu(), getView() and getSearchIndex() cache the response", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch({
+      responseBody: mocks.collections.paginated.pageTwo,
+    })
+
+    for (let i = 0; i < 2; i++) {
+      await drupal.getMenu("main", { withCache: true })
+      await drupal.getView("recipes--page_1", { withCache: true })
+      await drupal.getSearchIndex("recipes", { withCache: true })
+    }
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test("getMenu() returns menus cached by earlier versions", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    const fetchSpy = spyOnFetch()
+    const menu = { items: [{ id: "1", title: "Home" }] }
+    await cache.set("menu", JSON.stringify(menu))
+
+    expect(
+      await drupal.getMenu("main", { withCache: true, cacheKey: "menu" })
+    ).toEqual(menu)
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+})
+
+describe("cache tags", () => {
+  const headers = { "X-Drupal-Cache-Tags": "node:1 node_list" }
+
+  test("exposes the cache tags of returned resources", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetch({ responseBody: mocks.resources.node.ok, headers })
+
+    const resource = await drupal.getResource("node--recipe", "1")
+    const json = await drupal.getResource("node--recipe", "1", {
+      deserialize: false,
+    })
+
+    expect(getCacheTags(resource)).toEqual(["node:1", "node_list"])
+    expect(getCacheTags(json)).toEqual(["node:1", "node_list"])
+  })
+
+  test("exposes the cache tags of menus and views", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetch({ responseBody: mocks.collections.paginated.pageTwo, headers })
+
+    const menu = await drupal.getMenu("main")
+    const view = await drupal.getView("recipes--page_1")
+
+    expect(getCacheTags(menu)).toEqual(["node:1", "node_list"])
+    expect(getCacheTags(menu.items)).toEqual(["node:1", "node_list"])
+    expect(getCacheTags(view)).toEqual(["node:1", "node_list"])
+    expect(getCacheTags(view.results)).toEqual(["node:1", "node_list"])
+  })
+
+  test("exposes the cache tags of resources fetched using subrequests", async () => {
+    const drupal = new NextDrupal(BASE_URL, { useSubrequests: true })
+    const responseBody = structuredClone(mocks.resources.subRequests.ok)
+    responseBody["resolvedResource#uri{0}"].headers["x-drupal-cache-tags"] = [
+      "node:1 node_list",
+    ]
+    spyOnFetch({ responseBody, status: 207 })
+
+    const resource = await drupal.getResourceByPath("/recipes/quiche")
+
+    expect(getCacheTags(resource)).toEqual(["node:1", "node_list"])
+  })
+
+  test("stores the cache tags with cached entries", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    spyOnFetch({ responseBody: mocks.resources.node.ok, headers })
+
+    const options = { withCache: true, cacheKey: "recipe" }
+    await drupal.getResource("node--recipe", "1", options)
+    const resource = await drupal.getResource("node--recipe", "1", options)
+
+    expect(JSON.parse((await cache.get("recipe")) as string)).toMatchObject({
+      tags: ["node:1", "node_list"],
+    })
+    expect(
+      JSON.parse((await cache.get("next-drupal:tag:node:1")) as string)
+    ).toEqual({ recipe: null })
+    expect(getCacheTags(resource)).toEqual(["node:1", "node_list"])
+  })
+
+  test("invalidateTags() removes tagged entries", async () => {
+    const cache = mockDataCache()
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { cache, debug: true, logger })
+    const fetchSpy = spyOnFetch({ responseBody: mocks.resources.node.ok })
+
+    fetchSpy.mockImplementationOnce(
+      async () =>
+        new Response(JSON.stringify(mocks.resources.node.ok), {
+          headers: { "X-Drupal-Cache-Tags": "node:1 node_list" },
+        })
+    )
+    fetchSpy.mockImplementationOnce(
+      async () =>
+        new Response(JSON.stringify(mocks.resources.node.ok), {
+          headers: { "X-Drupal-Cache-Tags": "node:2 node_list" },
+        })
+    )
+
+    await drupal.getResource("node--recipe", "1", {
+      withCache: true,
+      cacheKey: "recipe-1",
+    })
+    await drupal.getResource("node--recipe", "2", {
+      withCache: true,
+      cacheKey: "recipe-2",
+    })
+
+    await expect(drupal.invalidateTags(["node:1"])).resolves.toEqual([
+      "recipe-1",
+    ])
+    expect(await cache.get("recipe-1")).toBeUndefined()
+    expect(await cache.get("recipe-2")).toBeDefined()
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Invalidated 1 cached entries for tags node:1."
+    )
+
+    await expect(
+      drupal.invalidateTags(["node_list", "node:2"])
+    ).resolves.toEqual(["recipe-1", "recipe-2"])
+    expect(await cache.get("recipe-2")).toBeUndefined()
+    expect(await cache.get("next-drupal:tag:node_list")).toBeUndefined()
+  })
+
+  test("expires the tag indexes with their last entry", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    spyOnFetch({ responseBody: mocks.resources.node.ok, headers })
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await drupal.getResource("node--recipe", "1", {
+      withCache: true,
+      cacheKey: "recipe-1",
+      cacheTtl: 60,
+      staleWhileRevalidate: 30,
+    })
+    expect(cache.set).toHaveBeenLastCalledWith(
+      "next-drupal:tag:node_list",
+      JSON.stringify({ "recipe-1": now + 90000 }),
+      90
+    )
+
+    // Expired entries are removed from the index.
+    dateSpy.mockReturnValue(now + 100000)
+    await drupal.getResource("node--recipe", "2", {
+      withCache: true,
+      cacheKey: "recipe-2",
+      cacheTtl: 10,
+    })
+    expect(cache.set).toHaveBeenLastCalledWith(
+      "next-drupal:tag:node_list",
+      JSON.stringify({ "recipe-2": now + 110000 }),
+      10
+    )
+
+    // Entries without a TTL do not expire, nor does their index.
+    await drupal.getResource("node--recipe", "3", {
+      withCache: true,
+      cacheKey: "recipe-3",
+    })
+    expect(cache.set).toHaveBeenLastCalledWith(
+      "next-drupal:tag:node_list",
+      JSON.stringify({ "recipe-2": now + 110000, "recipe-3": null }),
+      undefined
+    )
+  })
+
+  test("does not lose cache keys of concurrent writes", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    spyOnFetch({ responseBody: mocks.resources.node.ok, headers })
+
+    await Promise.all(
+      ["1", "2", "3"].map((id) =>
+        drupal.getResource("node--recipe", id, {
+          withCache: true,
+          cacheKey: `recipe-${id}`,
+        })
+      )
+    )
+
+    await expect(drupal.invalidateTags(["node_list"])).resolves.toEqual([
+      "recipe-1",
+      "recipe-2",
+      "recipe-3",
+    ])
+  })
+
+  test("writes the tag index after a failed write", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    spyOnFetch({ responseBody: mocks.resources.node.ok, headers })
+    const set = cache.set
+    cache.set = jest.fn(async (key: string, value: unknown, ttl?: number) => {
+      if (key === "next-drupal:tag:node:1" && value === `{"recipe-1":null}`) {
+        throw new Error("Cache error")
+      }
+      return set(key, value, ttl)
+    })
+
+    const results = await Promise.allSettled(
+      ["1", "2"].map((id) =>
+        drupal.getResource("node--recipe", id, {
+          withCache: true,
+          cacheKey: `recipe-${id}`,
+        })
+      )
+    )
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "rejected",
+      "fulfilled",
+    ])
+    await expect(drupal.invalidateTags(["node:1"])).resolves.toEqual([
+      "recipe-2",
+    ])
+  })
+
+  test("invalidateTags() removes entries of indexes of earlier versions", async () => {
+    const cache = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache })
+    await cache.set("next-drupal:tag:node:1", `["recipe"]`)
+    await cache.set("recipe", "{}")
+
+    await expect(drupal.invalidateTags(["node:1"])).resolves.toEqual(["recipe"])
+    expect(await cache.get("recipe")).toBeUndefined()
+  })
+
+  test("invalidateTags() does nothing without a cache or tags", async () => {
+    const cache = mockDataCache()
+
+    await expect(
+      new NextDrupal(BASE_URL).invalidateTags(["node:1"])
+    ).resolves.toEqual([])
+    await expect(
+      new NextDrupal(BASE_URL, { cache }).invalidateTags([])
+    ).resolves.toEqual([])
+    expect(cache.get).not.toHaveBeenCalled()
+  })
+
+  test("invalidateTags() requires a cache that can delete entries", async () => {
+    const { get, set } = mockDataCache()
+    const drupal = new NextDrupal(BASE_URL, { cache: { get, set } })
+
+    await expect(drupal.invalidateTags(["node:1"])).rejects.toThrow(
+      "The cache must implement del() to invalidate tags."
+    )
+  })
+})
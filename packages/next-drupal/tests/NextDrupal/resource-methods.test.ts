@@ -1,13 +1,18 @@
 import { afterEach, describe, expect, jest, test } from "@jest/globals"
-import { NextDrupal } from "../../src"
+import { JsonApiParamsBuilder, NextDrupal } from "../../src"
 import {
   BASE_URL,
   mockLogger,
   mocks,
   spyOnDrupalFetch,
   spyOnFetch,
+  spyOnFetchOnce,
 } from "../utils"
-import type { DrupalNode, DrupalSearchApiJsonApiResponse } from "../../src"
+import type {
+  DrupalNode,
+  DrupalSearchApiJsonApiResponse,
+  JsonApiResponse,
+} from "../../src"
 
 jest.setTimeout(10000)
 
@@ -408,6 +413,49 @@ describe("getResource()", () => {
       (fetchSpy.mock.lastCall[1].headers as Headers).get("Authorization")
     ).toBe("Bearer sample-token")
   })
+
+  test("passes the signal and timeout options to fetch", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const drupalFetchSpy = spyOnDrupalFetch(drupal, {
+      responseBody: mocks.resources.node.ok,
+    })
+    const { signal } = new AbortController()
+
+    await drupal.getResource(
+      "node--recipe",
+      "71e04ead-4cc7-416c-b9ca-60b635fdc50f",
+      { signal, timeout: 5000 }
+    )
+
+    expect(drupalFetchSpy).toHaveBeenLastCalledWith(expect.anything(), {
+      withAuth: false,
+      signal,
+      timeout: 5000,
+    })
+  })
+
+  test("accepts a JsonApiParamsBuilder for params", async () => {
+    const drupal = new NextDrupal(BASE_URL, {
+      useDefaultResourceTypeEntry: true,
+    })
+    const fetchSpy = spyOnFetch({
+      responseBody: mocks.resources.node.ok,
+    })
+
+    await drupal.getResource(
+      "node--recipe",
+      "71e04ead-4cc7-416c-b9ca-60b635fdc50f",
+      {
+        params: new JsonApiParamsBuilder()
+          .addInclude("uid")
+          .addFields("node--recipe", ["title"]),
+      }
+    )
+
+    expect(fetchSpy.mock.lastCall[0]).toBe(
+      `${BASE_URL}/jsonapi/node/recipe/71e04ead-4cc7-416c-b9ca-60b635fdc50f?include=uid&fields%5Bnode--recipe%5D=title`
+    )
+  })
 })
 
 describe("getResourceByPath()", () => {
@@ -670,6 +718,34 @@ describe("getResourceByPath()", () => {
     expect(getAccessTokenSpy).toHaveBeenCalled()
   })
 
+  test("accepts a JsonApiParamsBuilder for params", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    jest
+      .spyOn(drupal, "translatePath")
+      .mockResolvedValue(mocks.resources.translatePath.ok)
+    const getResourceSpy = jest
+      .spyOn(drupal, "getResource")
+      .mockResolvedValue(mocks.resources.node.ok)
+
+    await drupal.getResourceByPath("/recipes/deep-mediterranean-quiche", {
+      params: new JsonApiParamsBuilder()
+        .addFields("node--recipe", ["title"])
+        .addResourceVersion("id:1"),
+    })
+
+    expect(getResourceSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({
+        isVersionable: true,
+        params: {
+          "fields[node--recipe]": "title",
+          resourceVersion: "id:1",
+        },
+      })
+    )
+  })
+
   test("returns null if path is falsey", async () => {
     const drupal = new NextDrupal(BASE_URL)
 
@@ -769,6 +845,224 @@ describe("getResourceCollection()", () => {
   })
 })
 
+describe("getResourceCollectionPages()", () => {
+  const { pageOne, pageTwo } = mocks.collections.paginated
+
+  test("follows links.next until the last page", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const pages = []
+    for await (const page of drupal.getResourceCollectionPages(
+      "node--article"
+    )) {
+      pages.push(page)
+    }
+
+    expect(fetchSpy).toBeCalledTimes(2)
+    expect(fetchSpy.mock.calls[1][0]).toBe(pageOne.links.next.href)
+    expect(pages).toHaveLength(2)
+    expect(pages[0].map(({ title }) => title)).toEqual([
+      "First article",
+      "Second article",
+    ])
+    expect(pages[1].map(({ title }) => title)).toEqual(["Third article"])
+  })
+
+  test("accepts links.next as a string", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnFetchOnce({
+      responseBody: {
+        ...pageOne,
+        links: { next: pageOne.links.next.href },
+      },
+    })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const pages = []
+    for await (const page of drupal.getResourceCollectionPages(
+      "node--article"
+    )) {
+      pages.push(page)
+    }
+
+    expect(fetchSpy).toBeCalledTimes(2)
+    expect(fetchSpy.mock.calls[1][0]).toBe(pageOne.links.next.href)
+    expect(pages).toHaveLength(2)
+  })
+
+  test("fetches raw data", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const pages: JsonApiResponse[] = []
+    for await (const page of drupal.getResourceCollectionPages<JsonApiResponse>(
+      "node--article",
+      { deserialize: false }
+    )) {
+      pages.push(page)
+    }
+
+    expect(pages).toEqual([pageOne, pageTwo])
+  })
+
+  test("stops after maxPages", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnFetch({ responseBody: pageOne })
+
+    const pages = []
+    for await (const page of drupal.getResourceCollectionPages(
+      "node--article",
+      { maxPages: 3 }
+    )) {
+      pages.push(page)
+    }
+
+    expect(fetchSpy).toBeCalledTimes(3)
+    expect(pages).toHaveLength(3)
+  })
+
+  test("stops after maxItems", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { debug: true, logger })
+    const fetchSpy = spyOnFetch({ responseBody: pageOne })
+
+    const pages = []
+    for await (const page of drupal.getResourceCollectionPages(
+      "node--article",
+      { maxItems: 3 }
+    )) {
+      pages.push(page)
+    }
+
+    expect(fetchSpy).toBeCalledTimes(2)
+    expect(pages[0]).toHaveLength(2)
+    expect(pages[1]).toHaveLength(1)
+    expect(logger.debug).toHaveBeenLastCalledWith(
+      "Reached pagination limit for resource type node--article."
+    )
+  })
+
+  test("throws an error if a page fails", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({
+      responseBody: mocks.resources.node.forbidden,
+      status: 403,
+    })
+
+    const pages = drupal.getResourceCollectionPages("node--article")
+
+    await expect(pages.next()).resolves.toMatchObject({ done: false })
+    await expect(pages.next()).rejects.toThrow(
+      "Error while fetching resource collection:"
+    )
+  })
+
+  test("makes authenticated requests with withAuth option", async () => {
+    const drupal = new NextDrupal(BASE_URL, {
+      auth: `Bearer sample-token`,
+    })
+    const fetchSpy = spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for await (const page of drupal.getResourceCollectionPages(
+      "node--article",
+      { withAuth: true }
+    )) {
+      // Exhaust the iterator.
+    }
+
+    expect(
+      (fetchSpy.mock.calls[1][1].headers as Headers).get("Authorization")
+    ).toBe("Bearer sample-token")
+  })
+})
+
+describe("iterateResourceCollection()", () => {
+  const { pageOne, pageTwo } = mocks.collections.paginated
+
+  test("yields every resource across pages", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const titles = []
+    for await (const article of drupal.iterateResourceCollection<DrupalNode>(
+      "node--article"
+    )) {
+      titles.push(article.title)
+    }
+
+    expect(titles).toEqual(["First article", "Second article", "Third article"])
+  })
+
+  test("yields raw resource objects", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const ids = []
+    for await (const resource of drupal.iterateResourceCollection(
+      "node--article",
+      { deserialize: false }
+    )) {
+      ids.push(resource.id)
+    }
+
+    expect(ids).toEqual([...pageOne.data, ...pageTwo.data].map(({ id }) => id))
+  })
+
+  test("stops after maxItems", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnFetch({ responseBody: pageOne })
+
+    const resources = []
+    for await (const resource of drupal.iterateResourceCollection(
+      "node--article",
+      { maxItems: 1 }
+    )) {
+      resources.push(resource)
+    }
+
+    expect(fetchSpy).toBeCalledTimes(1)
+    expect(resources).toHaveLength(1)
+  })
+
+  test("handles empty pages", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetch({ responseBody: { data: [] } })
+
+    const resources = []
+    for await (const resource of drupal.iterateResourceCollection(
+      "node--article",
+      { deserialize: false }
+    )) {
+      resources.push(resource)
+    }
+
+    expect(resources).toEqual([])
+  })
+
+  test("handles responses without data", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnFetch()
+
+    const resources = []
+    for await (const resource of drupal.iterateResourceCollection(
+      "node--article",
+      { deserialize: false, maxItems: 10 }
+    )) {
+      resources.push(resource)
+    }
+
+    expect(resources).toEqual([])
+  })
+})
+
 describe("getResourceCollectionPathSegments()", () => {
   test("returns path segments", async () => {
     const drupal = new NextDrupal(BASE_URL)
@@ -867,6 +1161,27 @@ describe("getResourceCollectionPathSegments()", () => {
     })
   })
 
+  test("returns path segments from every page", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const { pageOne, pageTwo } = mocks.collections.paginated
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const paths = await drupal.getResourceCollectionPathSegments(
+      "node--article",
+      { pathPrefix: "/articles" }
+    )
+
+    expect(paths).toEqual(
+      ["first", "second", "third"].map((segment) => ({
+        path: `/articles/${segment}`,
+        type: "node--article",
+        locale: undefined,
+        segments: [segment],
+      }))
+    )
+  })
+
   test("makes authenticated requests using withAuth option", async () => {
     const mockAuth = "Bearer sample-token"
     const drupal = new NextDrupal(BASE_URL, {
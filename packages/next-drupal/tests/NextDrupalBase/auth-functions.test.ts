@@ -1,8 +1,13 @@
 import { describe, expect, test } from "@jest/globals"
-import { isAccessTokenAuth, isBasicAuth, isClientIdSecretAuth } from "../../src"
+import {
+  isAccessTokenAuth,
+  isBasicAuth,
+  isClientIdSecretAuth,
+  isUserGrantAuth,
+} from "../../src"
 import { mocks } from "../utils"
 
-const { accessToken, basicAuth, clientIdSecret } = mocks.auth
+const { accessToken, basicAuth, clientIdSecret, passwordGrant } = mocks.auth
 
 describe("isBasicAuth", () => {
   test("returns false if username is undefined", () => {
@@ -26,6 +31,10 @@ describe("isBasicAuth", () => {
   test("returns true if username and password are given", () => {
     expect(isBasicAuth(basicAuth)).toBe(true)
   })
+
+  test("returns false for the password grant", () => {
+    expect(isBasicAuth(passwordGrant)).toBe(false)
+  })
 })
 
 describe("isAccessTokenAuth", () => {
@@ -74,4 +83,21 @@ describe("isClientIdSecretAuth", () => {
   test("returns true if clientId and clientSecret are given", () => {
     expect(isClientIdSecretAuth(clientIdSecret)).toBe(true)
   })
+
+  test("returns false for the password grant", () => {
+    expect(isClientIdSecretAuth(passwordGrant)).toBe(false)
+  })
+})
+
+describe("isUserGrantAuth", () => {
+  test("returns false if grantType is undefined", () => {
+    expect(isUserGrantAuth(clientIdSecret)).toBe(false)
+    expect(isUserGrantAuth(basicAuth)).toBe(false)
+  })
+
+  test("returns true if grantType is given", () => {
+    expect(isUserGrantAuth(passwordGrant)).toBe(true)
+    expect(isUserGrantAuth(mocks.auth.authorizationCodeGrant)).toBe(true)
+    expect(isUserGrantAuth(mocks.auth.refreshTokenGrant)).toBe(true)
+  })
 })
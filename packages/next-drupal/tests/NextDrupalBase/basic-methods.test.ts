@@ -1,5 +1,12 @@
 import { afterEach, describe, expect, jest, test } from "@jest/globals"
-import { JsonApiErrors, NextDrupalBase } from "../../src"
+import {
+  createSignature,
+  JsonApiErrors,
+  NextDrupalBase,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from "../../src"
 import { BASE_URL, mockLogger, spyOnFetch, spyOnFetchOnce } from "../utils"
 import type { JsonApiError } from "../../src"
 
@@ -85,6 +92,19 @@ describe("buildUrl()", () => {
     )
   })
 
+  test("joins includes and sparse fieldsets passed as arrays", () => {
+    expect(
+      drupal
+        .buildUrl("/jsonapi/node/article", {
+          include: ["uid", "field_tags"],
+          fields: { "node--article": ["title", "uid"] },
+        })
+        .toString()
+    ).toEqual(
+      `${BASE_URL}/jsonapi/node/article?include=uid%2Cfield_tags&fields%5Bnode--article%5D=title%2Cuid`
+    )
+  })
+
   test("does not throw an error when searchParams is null", () => {
     expect(() =>
       drupal.buildUrl("/some-path", null).toString()
@@ -336,6 +356,147 @@ describe("getErrorsFromResponse()", () => {
 
     expect(await drupal.getErrorsFromResponse(response)).toBe("Forbidden")
   })
+
+  test("returns errors of media types with parameters", async () => {
+    const payload = {
+      errors: [{ status: "404", title: "Not found", detail: "Oops." }],
+    }
+    const response = new Response(JSON.stringify(payload), {
+      status: 404,
+      headers: {
+        "content-type":
+          'Application/vnd.api+json; charset=utf-8; ext="https://jsonapi.org/ext/atomic"',
+      },
+    })
+
+    expect(await drupal.getErrorsFromResponse(response)).toEqual(payload.errors)
+  })
+
+  test("returns application/problem+json errors", async () => {
+    const response = new Response(
+      JSON.stringify({
+        type: "https://example.com/probs/out-of-credit",
+        title: "You do not have enough credit.",
+        status: 402,
+        detail: "Your current balance is 30, but that costs 50.",
+      }),
+      {
+        status: 402,
+        headers: { "content-type": "application/problem+json" },
+      }
+    )
+
+    expect(await drupal.getErrorsFromResponse(response)).toEqual([
+      {
+        status: "402",
+        title: "You do not have enough credit.",
+        detail: "Your current balance is 30, but that costs 50.",
+        links: { type: "https://example.com/probs/out-of-credit" },
+      },
+    ])
+  })
+
+  test("returns application/problem+json errors without a title", async () => {
+    const response = new Response(
+      JSON.stringify({ detail: "The node is locked." }),
+      {
+        status: 409,
+        statusText: "Conflict",
+        headers: { "content-type": "application/problem+json" },
+      }
+    )
+
+    expect(await drupal.getErrorsFromResponse(response)).toEqual([
+      { status: "409", title: "Conflict", detail: "The node is locked." },
+    ])
+  })
+
+  test("returns the title of HTML error pages", async () => {
+    const response = new Response(
+      `<!DOCTYPE html>
+      <html>
+        <head>
+          <title>Page not found | Drupal &amp; Next.js</title>
+          <style>body { color: red; }</style>
+        </head>
+        <body><h1>Page not found</h1></body>
+      </html>`,
+      {
+        status: 404,
+        statusText: "Not Found",
+        headers: { "content-type": "text/html; charset=UTF-8" },
+      }
+    )
+
+    expect(await drupal.getErrorsFromResponse(response)).toBe(
+      "Page not found | Drupal & Next.js"
+    )
+  })
+
+  test("returns a summary of HTML error pages", async () => {
+    const response = new Response(
+      `<script>var a = "<b>";</script>The website encountered an unexpected error. Try again later.<br><em class="placeholder">Error</em>: Call to undefined function in <em>&quot;index.php&quot;</em>. ${"Backtrace. ".repeat(
+        20
+      )}`,
+      {
+        status: 500,
+        headers: { "content-type": "text/html" },
+      }
+    )
+
+    const summary = await drupal.getErrorsFromResponse(response)
+
+    expect(summary).toMatch(
+      /^The website encountered an unexpected error\. Try again later\. Error : Call to undefined function in "index\.php" \. Backtrace\./
+    )
+    expect(summary).toHaveLength(200)
+    expect(summary).toMatch(/…$/)
+  })
+
+  test("returns the heading of HTML error pages", async () => {
+    const response = new Response(
+      "<body><h1>Service <em>unavailable</em></h1><p>Try again.</p></body>",
+      {
+        status: 503,
+        headers: { "content-type": "text/html" },
+      }
+    )
+
+    expect(await drupal.getErrorsFromResponse(response)).toBe(
+      "Service unavailable"
+    )
+  })
+
+  test("returns the response status text of empty HTML error pages", async () => {
+    const response = new Response("<html></html>", {
+      status: 502,
+      statusText: "Bad Gateway",
+      headers: { "content-type": "text/html" },
+    })
+
+    expect(await drupal.getErrorsFromResponse(response)).toBe("Bad Gateway")
+  })
+
+  test("returns the body if the response has no status text", async () => {
+    const response = new Response("upstream connect error\n", {
+      status: 503,
+      headers: { "content-type": "text/plain" },
+    })
+
+    expect(await drupal.getErrorsFromResponse(response)).toBe(
+      "upstream connect error"
+    )
+  })
+
+  test("returns the response status text for invalid JSON", async () => {
+    const response = new Response("<html>Bad Gateway</html>", {
+      status: 502,
+      statusText: "Bad Gateway",
+      headers: { "content-type": "application/json" },
+    })
+
+    expect(await drupal.getErrorsFromResponse(response)).toBe("Bad Gateway")
+  })
 })
 
 describe("throwIfJsonErrors()", () => {
@@ -408,6 +569,52 @@ describe("throwIfJsonErrors()", () => {
       drupal.throwIfJsonErrors(response, messagePrefix)
     ).rejects.toEqual(expectedError)
   })
+
+  test("throws the error class of the status code", async () => {
+    const response = new Response(null, { status: 404 })
+
+    await expect(drupal.throwIfJsonErrors(response)).rejects.toBeInstanceOf(
+      NotFoundError
+    )
+  })
+
+  test("adds the request to the error", async () => {
+    spyOnFetch({ status: 404, statusText: "Not Found" })
+
+    const response = await drupal.fetch("/jsonapi/node/article/1", {
+      method: "delete",
+    })
+    const error = await drupal.throwIfJsonErrors(response).catch((e) => e)
+
+    expect(error.url).toBe(`${BASE_URL}/jsonapi/node/article/1`)
+    expect(error.method).toBe("DELETE")
+  })
+
+  test("adds the Retry-After header to rate limit errors", async () => {
+    const response = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "120" },
+    })
+    const error = await drupal.throwIfJsonErrors(response).catch((e) => e)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.retryAfter).toBe(120)
+    expect(error.url).toBeUndefined()
+    expect(error.method).toBeUndefined()
+  })
+
+  test("adds the raw body to the error", async () => {
+    const body = "<html><title>Bad Gateway</title></html>"
+    const response = new Response(body, {
+      status: 502,
+      headers: { "content-type": "text/html" },
+    })
+    const error = await drupal.throwIfJsonErrors(response).catch((e) => e)
+
+    expect(error).toBeInstanceOf(ServerError)
+    expect(error.message).toBe("Bad Gateway")
+    expect(error.body).toBe(body)
+  })
 })
 
 describe("validateDraftUrl()", () => {
@@ -506,4 +713,64 @@ describe("validateDraftUrl()", () => {
     expect(response.status).toBe(401)
     expect(await response.json()).toMatchObject({ message })
   })
+
+  test("validates signed draft urls", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      previewSecret: "very-secret-key",
+      debug: true,
+      logger,
+    })
+    const searchParams = new URLSearchParams({
+      path: "/example",
+      resourceVersion: "id:1",
+    })
+    searchParams.set(
+      "signature",
+      await createSignature("very-secret-key", {
+        path: "/api/draft",
+        searchParams,
+      })
+    )
+    const fetchSpy = spyOnFetch({ responseBody: { test: "resolved" } })
+
+    const response = await drupal.validateDraftUrl(searchParams, {
+      method: "GET",
+      path: "/api/draft",
+    })
+
+    expect(response.status).toBe(200)
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({
+      body: JSON.stringify({
+        path: "/example",
+        resourceVersion: "id:1",
+        secret: "very-secret-key",
+      }),
+    })
+    // The original search params are not modified.
+    expect(searchParams.has("secret")).toBe(false)
+  })
+
+  test("rejects draft urls with an invalid signature", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      previewSecret: "very-secret-key",
+      debug: true,
+      logger,
+    })
+    const searchParams = new URLSearchParams({
+      path: "/example",
+      secret: "very-secret-key",
+    })
+    const fetchSpy = spyOnFetch({ responseBody: { test: "resolved" } })
+
+    const response = await drupal.validateDraftUrl(searchParams)
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ message: "Invalid signature." })
+    expect(fetchSpy).not.toHaveBeenCalled()
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Invalid draft url signature for /example."
+    )
+  })
 })
@@ -1,5 +1,5 @@
 import { afterEach, describe, expect, jest, test } from "@jest/globals"
-import { NextDrupalBase } from "../../src"
+import { MemoryTokenStore, NextDrupalBase } from "../../src"
 import { DEBUG_MESSAGE_PREFIX, logger as defaultLogger } from "../../src/logger"
 import { BASE_URL, mocks } from "../utils"
 import type { NextDrupalAuth, Logger } from "../../src"
@@ -204,6 +204,134 @@ describe("options parameter", () => {
     })
   })
 
+  describe("onTokenChange", () => {
+    test("defaults to `undefined`", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.onTokenChange).toBe(undefined)
+    })
+
+    test("sets the onTokenChange callback", () => {
+      const onTokenChange = jest.fn<NextDrupalBase["onTokenChange"]>()
+      const drupal = new NextDrupalBase(BASE_URL, {
+        onTokenChange,
+      })
+      expect(drupal.onTokenChange).toBe(onTokenChange)
+    })
+  })
+
+  describe("previewSecret", () => {
+    test("defaults to `undefined`", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.previewSecret).toBe(undefined)
+    })
+
+    test("sets the preview secret", () => {
+      const drupal = new NextDrupalBase(BASE_URL, {
+        previewSecret: "very-secret-key",
+      })
+      expect(drupal.previewSecret).toBe("very-secret-key")
+    })
+  })
+
+  describe("maxConcurrentRequests", () => {
+    test("defaults to `Infinity`", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.maxConcurrentRequests).toBe(Infinity)
+    })
+
+    test("sets the maxConcurrentRequests", () => {
+      const drupal = new NextDrupalBase(BASE_URL, {
+        maxConcurrentRequests: { "*": 10 },
+      })
+      expect(drupal.maxConcurrentRequests).toEqual({ "*": 10 })
+    })
+  })
+
+  describe("middleware", () => {
+    test("defaults to `[]`", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.middleware).toEqual([])
+    })
+
+    test("sets the middleware", () => {
+      const middleware = { onRequest: jest.fn() }
+      const drupal = new NextDrupalBase(BASE_URL, {
+        middleware: [middleware],
+      })
+      expect(drupal.middleware).toEqual([middleware])
+    })
+  })
+
+  describe("retry", () => {
+    test("defaults to a single attempt", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.retry.maxAttempts).toBe(1)
+    })
+
+    test("uses the default retry policy when `true`", () => {
+      const drupal = new NextDrupalBase(BASE_URL, { retry: true })
+      expect(drupal.retry).toEqual({
+        maxAttempts: 3,
+        baseDelay: 500,
+        maxDelay: 10000,
+        statusCodes: [408, 429, 500, 502, 503, 504],
+        methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+      })
+    })
+
+    test("merges custom retry options with the defaults", () => {
+      const drupal = new NextDrupalBase(BASE_URL, {
+        retry: { maxAttempts: 5, statusCodes: [503] },
+      })
+      expect(drupal.retry).toMatchObject({
+        maxAttempts: 5,
+        baseDelay: 500,
+        statusCodes: [503],
+      })
+    })
+  })
+
+  describe("timeout", () => {
+    test("defaults to `undefined`", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.timeout).toBeUndefined()
+    })
+
+    test("sets the timeout", () => {
+      const drupal = new NextDrupalBase(BASE_URL, { timeout: 5000 })
+      expect(drupal.timeout).toBe(5000)
+    })
+  })
+
+  describe("tokenRefreshWindow", () => {
+    test("defaults to 30 seconds", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.tokenRefreshWindow).toBe(30)
+    })
+
+    test("sets the tokenRefreshWindow", () => {
+      const drupal = new NextDrupalBase(BASE_URL, {
+        tokenRefreshWindow: 120,
+      })
+      expect(drupal.tokenRefreshWindow).toBe(120)
+    })
+  })
+
+  describe("tokenStore", () => {
+    test("defaults to a MemoryTokenStore", () => {
+      const drupal = new NextDrupalBase(BASE_URL)
+      expect(drupal.tokenStore).toBeInstanceOf(MemoryTokenStore)
+    })
+
+    test("sets a custom tokenStore", () => {
+      const tokenStore = new MemoryTokenStore()
+      const drupal = new NextDrupalBase(BASE_URL, {
+        tokenStore,
+      })
+      expect(drupal.tokenStore).toBe(tokenStore)
+    })
+  })
+
   describe("withAuth", () => {
     test("defaults to `false`", () => {
       const drupal = new NextDrupalBase(BASE_URL)
@@ -1,5 +1,10 @@
 import { afterEach, describe, expect, jest, test } from "@jest/globals"
-import { FetchOptions, NextDrupalBase } from "../../src"
+import {
+  FetchOptions,
+  MemoryTokenStore,
+  NextDrupalBase,
+  NextDrupalTimeoutError,
+} from "../../src"
 import {
   BASE_URL,
   mockLogger,
@@ -179,6 +184,527 @@ describe("fetch()", () => {
       authHeader
     )
   })
+
+  test("does not retry requests by default", async () => {
+    const fetchSpy = spyOnFetch({ status: 503 })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(503)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("retries requests with a retryable status code", async () => {
+    spyOnFetchOnce({ status: 503 })
+    spyOnFetchOnce({ status: 429 })
+    const fetchSpy = spyOnFetchOnce({ responseBody: { success: true } })
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+      debug: true,
+      logger,
+    })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(200)
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Request failed with status 503. Retrying in 0ms (attempt 2 of 3)."
+    )
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Request failed with status 429. Retrying in 0ms (attempt 3 of 3)."
+    )
+  })
+
+  test("cancels the body of retried responses", async () => {
+    const retried = new Response("Service unavailable", { status: 503 })
+    const cancelSpy = jest.spyOn(retried.body, "cancel")
+    jest
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(retried)
+      .mockResolvedValueOnce(new Response("{}"))
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+    })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(200)
+    expect(cancelSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("returns the last response after the maximum number of attempts", async () => {
+    const fetchSpy = spyOnFetch({ status: 500 })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0, maxAttempts: 2 },
+    })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(500)
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test("retries network errors", async () => {
+    spyOnFetchOnce({ throwErrorMessage: "socket hang up" })
+    const fetchSpy = spyOnFetchOnce({ responseBody: { success: true } })
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+      debug: true,
+      logger,
+    })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(200)
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Request failed with "socket hang up". Retrying in 0ms (attempt 2 of 3).'
+    )
+  })
+
+  test("throws the network error after the maximum number of attempts", async () => {
+    const fetchSpy = spyOnFetch({ throwErrorMessage: "socket hang up" })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+    })
+
+    await expect(drupal.fetch(mockUrl)).rejects.toThrow("socket hang up")
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test("does not retry non-idempotent methods by default", async () => {
+    const fetchSpy = spyOnFetch({ status: 503 })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+    })
+
+    const response = await drupal.fetch(mockUrl, { method: "POST" })
+
+    expect(response.status).toBe(503)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("does not retry other status codes", async () => {
+    const fetchSpy = spyOnFetch({ status: 404 })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+    })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(404)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("retries the configured methods and status codes", async () => {
+    spyOnFetchOnce({ status: 409 })
+    const fetchSpy = spyOnFetchOnce({ status: 201 })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0, methods: ["POST"], statusCodes: [409] },
+    })
+
+    const response = await drupal.fetch(mockUrl, { method: "post" })
+
+    expect(response.status).toBe(201)
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("fetch() concurrency", () => {
+  const { host } = new URL(BASE_URL)
+
+  // Returns a fetch mock that resolves requests when release() is called.
+  function spyOnDeferredFetch() {
+    const pending: (() => void)[] = []
+    const fetchSpy = jest.spyOn(global, "fetch").mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          pending.push(() => resolve(new Response("{}")))
+        })
+    )
+
+    return {
+      fetchSpy,
+      release: async () => {
+        pending.shift()()
+        // Let the queued request start.
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      },
+    }
+  }
+
+  test("does not limit concurrent requests by default", async () => {
+    const { fetchSpy, release } = spyOnDeferredFetch()
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    const requests = [1, 2, 3].map(() => drupal.fetch(`${BASE_URL}/foo`))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(drupal.getRequestQueueMetrics()).toEqual({})
+
+    await release()
+    await release()
+    await release()
+    await Promise.all(requests)
+  })
+
+  test("queues requests over maxConcurrentRequests", async () => {
+    const { fetchSpy, release } = spyOnDeferredFetch()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      maxConcurrentRequests: 2,
+    })
+
+    const requests = [1, 2, 3].map(() => drupal.fetch(`${BASE_URL}/foo`))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(drupal.getRequestQueueMetrics()).toMatchObject({
+      [host]: { limit: 2, active: 2, queued: 1 },
+    })
+
+    await release()
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+
+    await release()
+    await release()
+    await Promise.all(requests)
+
+    expect(drupal.getRequestQueueMetrics()).toMatchObject({
+      [host]: { active: 0, queued: 0, requests: 3 },
+    })
+  })
+
+  test("limits concurrent requests per host", async () => {
+    const { fetchSpy, release } = spyOnDeferredFetch()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      maxConcurrentRequests: { [host]: 1, "*": 2 },
+    })
+
+    const requests = [
+      drupal.fetch(`${BASE_URL}/foo`),
+      drupal.fetch(`${BASE_URL}/bar`),
+      drupal.fetch("https://cdn.example.com/foo"),
+      drupal.fetch("https://cdn.example.com/bar"),
+    ]
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(drupal.getRequestQueueMetrics()).toMatchObject({
+      [host]: { limit: 1, active: 1, queued: 1 },
+      "cdn.example.com": { limit: 2, active: 2, queued: 0 },
+    })
+
+    for (let i = 0; i < 4; i++) {
+      await release()
+    }
+    await Promise.all(requests)
+  })
+
+  test("does not limit hosts without a limit", async () => {
+    spyOnFetch()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      maxConcurrentRequests: { "cdn.example.com": 1 },
+    })
+
+    await drupal.fetch(`${BASE_URL}/foo`)
+
+    expect(drupal.getRequestQueue(`${BASE_URL}/foo`)).toBeNull()
+    expect(drupal.getRequestQueueMetrics()).toEqual({})
+  })
+
+  test("does not limit relative urls of custom fetchers", async () => {
+    const fetcher = jest.fn(async () => new Response("{}"))
+    const drupal = new NextDrupalBase(BASE_URL, {
+      fetcher,
+      maxConcurrentRequests: 1,
+    })
+
+    await drupal.fetch("foo")
+
+    expect(fetcher).toHaveBeenCalledWith("foo", expect.anything())
+    expect(drupal.getRequestQueue("foo")).toBeNull()
+    expect(drupal.getRequestQueueMetrics()).toEqual({})
+  })
+
+  test("releases the slot when a request fails", async () => {
+    spyOnFetch({ throwErrorMessage: "socket hang up" })
+    const drupal = new NextDrupalBase(BASE_URL, {
+      maxConcurrentRequests: 1,
+    })
+
+    await expect(drupal.fetch(`${BASE_URL}/foo`)).rejects.toThrow()
+    await expect(drupal.fetch(`${BASE_URL}/foo`)).rejects.toThrow()
+
+    expect(drupal.getRequestQueueMetrics()).toMatchObject({
+      [host]: { active: 0, requests: 2 },
+    })
+  })
+})
+
+describe("fetch() middleware", () => {
+  const mockUrl = "https://example.com/mock-url"
+
+  test("runs onRequest middleware in order", async () => {
+    const fetchSpy = spyOnFetch()
+    const calls: string[] = []
+    const drupal = new NextDrupalBase(BASE_URL, {
+      auth: mocks.auth.customAuthenticationHeader,
+      middleware: [
+        {
+          onRequest: (request) => {
+            const headers = request.init.headers as Headers
+            headers.set("X-Tenant", "foo")
+            calls.push("first")
+          },
+        },
+      ],
+    })
+    drupal.use({
+      onRequest: ({ init }) => {
+        calls.push("second")
+        return {
+          input: `${mockUrl}?traced=1`,
+          init: {
+            ...init,
+            headers: {
+              "X-Trace-Id": "abc",
+              "X-Tenant": (init.headers as Headers).get("X-Tenant"),
+              Authorization: (init.headers as Headers).get("Authorization"),
+            },
+          },
+        }
+      },
+    })
+
+    await drupal.fetch(mockUrl, { withAuth: true })
+
+    expect(calls).toEqual(["first", "second"])
+    expect(fetchSpy).toHaveBeenCalledWith(`${mockUrl}?traced=1`, {
+      credentials: "include",
+      headers: {
+        "X-Trace-Id": "abc",
+        "X-Tenant": "foo",
+        Authorization: mocks.auth.customAuthenticationHeader,
+      },
+    })
+  })
+
+  test("runs onResponse middleware in order", async () => {
+    spyOnFetch({ responseBody: { version: 1 } })
+    const onResponse = jest.fn(() => undefined)
+    const drupal = new NextDrupalBase(BASE_URL)
+      .use({
+        onResponse: async (response) =>
+          new Response(
+            JSON.stringify({ version: (await response.json()).version + 1 })
+          ),
+      })
+      .use({ onResponse })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(await response.json()).toEqual({ version: 2 })
+    expect(onResponse).toHaveBeenCalledWith(expect.any(Response), {
+      input: mockUrl,
+      init: expect.objectContaining({ credentials: "include" }),
+    })
+  })
+
+  test("rethrows the error if no onError middleware recovers", async () => {
+    spyOnFetch({ throwErrorMessage: "socket hang up" })
+    const onError = jest.fn(() => undefined)
+    const drupal = new NextDrupalBase(BASE_URL).use({ onError })
+
+    await expect(drupal.fetch(mockUrl)).rejects.toThrow("socket hang up")
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), {
+      input: mockUrl,
+      init: expect.anything(),
+    })
+  })
+
+  test("recovers from errors with an onError middleware", async () => {
+    spyOnFetch({ throwErrorMessage: "socket hang up" })
+    const onResponse = jest.fn(() => undefined)
+    const drupal = new NextDrupalBase(BASE_URL)
+      .use({ onError: () => new Response(null, { status: 503 }) })
+      .use({ onError: () => new Response(null, { status: 500 }), onResponse })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(503)
+    expect(onResponse).not.toHaveBeenCalled()
+  })
+
+  test("passes timeout errors to onError middleware", async () => {
+    jest.spyOn(global, "fetch").mockImplementation(
+      (input, init) =>
+        new Promise((resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("This operation was aborted", "AbortError"))
+          )
+        })
+    )
+    const onError = jest.fn(() => undefined)
+    const drupal = new NextDrupalBase(BASE_URL, { timeout: 10 }).use({
+      onError,
+    })
+
+    await expect(drupal.fetch(mockUrl)).rejects.toThrow(NextDrupalTimeoutError)
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(NextDrupalTimeoutError),
+      expect.anything()
+    )
+  })
+})
+
+describe("fetch() timeouts", () => {
+  const mockUrl = "https://example.com/mock-url"
+
+  // Returns a fetch mock that only settles when the request is aborted.
+  function spyOnHangingFetch() {
+    return jest.spyOn(global, "fetch").mockImplementation(
+      (input, init) =>
+        new Promise((resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("This operation was aborted", "AbortError"))
+          )
+        })
+    )
+  }
+
+  test("does not add a signal by default", async () => {
+    const fetchSpy = spyOnFetch()
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    await drupal.fetch(mockUrl)
+
+    expect(fetchSpy.mock.lastCall[1].signal).toBeUndefined()
+  })
+
+  test("throws a NextDrupalTimeoutError using the timeout from constructor", async () => {
+    spyOnHangingFetch()
+    const drupal = new NextDrupalBase(BASE_URL, { timeout: 10 })
+
+    const request = drupal.fetch(mockUrl)
+
+    await expect(request).rejects.toThrow(NextDrupalTimeoutError)
+    await expect(request).rejects.toMatchObject({
+      message: `Request timed out after 10ms: ${mockUrl}`,
+      timeout: 10,
+      url: mockUrl,
+    })
+  })
+
+  test("uses the timeout from init", async () => {
+    spyOnHangingFetch()
+    const drupal = new NextDrupalBase(BASE_URL, { timeout: 60000 })
+
+    await expect(drupal.fetch(mockUrl, { timeout: 10 })).rejects.toThrow(
+      "Request timed out after 10ms"
+    )
+  })
+
+  test("does not throw for requests that complete in time", async () => {
+    spyOnFetch({ responseBody: { success: true } })
+    const drupal = new NextDrupalBase(BASE_URL, { timeout: 1000 })
+
+    const response = await drupal.fetch(mockUrl)
+
+    expect(response.status).toBe(200)
+  })
+
+  test("aborts requests using the signal from init", async () => {
+    spyOnHangingFetch()
+    const drupal = new NextDrupalBase(BASE_URL, { timeout: 60000 })
+    const controller = new AbortController()
+
+    const request = drupal.fetch(mockUrl, { signal: controller.signal })
+    controller.abort()
+
+    await expect(request).rejects.toThrow("This operation was aborted")
+    await expect(request).rejects.not.toBeInstanceOf(NextDrupalTimeoutError)
+  })
+
+  test("does not retry aborted requests", async () => {
+    const fetchSpy = spyOnHangingFetch()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 0 },
+      timeout: 10,
+    })
+
+    await expect(drupal.fetch(mockUrl)).rejects.toThrow(NextDrupalTimeoutError)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("getRetryDelay()", () => {
+  test("uses exponential backoff with jitter", () => {
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 100, maxDelay: 1000 },
+    })
+    jest.spyOn(Math, "random").mockReturnValue(1)
+
+    expect(drupal.getRetryDelay(1)).toBe(100)
+    expect(drupal.getRetryDelay(2)).toBe(200)
+    expect(drupal.getRetryDelay(3)).toBe(400)
+    expect(drupal.getRetryDelay(10)).toBe(1000)
+
+    jest.spyOn(Math, "random").mockReturnValue(0)
+
+    expect(drupal.getRetryDelay(3)).toBe(200)
+  })
+
+  test("honors the Retry-After header in seconds", () => {
+    const drupal = new NextDrupalBase(BASE_URL, { retry: true })
+    const response = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "2" },
+    })
+
+    expect(drupal.getRetryDelay(1, response)).toBe(2000)
+  })
+
+  test("honors the Retry-After header as an HTTP date", () => {
+    const drupal = new NextDrupalBase(BASE_URL, { retry: true })
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT")
+    jest.spyOn(Date, "now").mockReturnValue(now)
+    const response = new Response(null, {
+      status: 503,
+      headers: { "Retry-After": "Wed, 21 Oct 2026 07:28:03 GMT" },
+    })
+
+    expect(drupal.getRetryDelay(1, response)).toBe(3000)
+  })
+
+  test("caps the Retry-After header at maxDelay", () => {
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { maxDelay: 5000 },
+    })
+    const response = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "120" },
+    })
+
+    expect(drupal.getRetryDelay(1, response)).toBe(5000)
+  })
+
+  test("ignores an invalid Retry-After header", () => {
+    const drupal = new NextDrupalBase(BASE_URL, {
+      retry: { baseDelay: 100 },
+    })
+    jest.spyOn(Math, "random").mockReturnValue(1)
+    const response = new Response(null, {
+      status: 429,
+      headers: { "Retry-After": "soon" },
+    })
+
+    expect(drupal.getRetryDelay(1, response)).toBe(100)
+  })
 })
 
 describe("getAccessToken()", () => {
@@ -441,6 +967,337 @@ describe("getAccessToken()", () => {
     )
     expect(fetchSpy).toHaveBeenCalledTimes(2)
   })
+
+  test("stores the access token in the tokenStore", async () => {
+    spyOnFetch({
+      responseBody: accessToken,
+    })
+    const tokenStore = new MemoryTokenStore()
+    const setSpy = jest.spyOn(tokenStore, "set")
+    const drupal = new NextDrupalBase(BASE_URL, { tokenStore })
+
+    await drupal.getAccessToken({ ...clientIdSecret, scope: "admin" })
+
+    expect(setSpy).toHaveBeenCalledWith(
+      `${BASE_URL}:/oauth/token:${clientIdSecret.clientId}:admin`,
+      {
+        token: accessToken,
+        expiresOn: expect.any(Number),
+      }
+    )
+  })
+
+  test("re-uses an access token from a shared tokenStore", async () => {
+    const fetchSpy = spyOnFetch({
+      responseBody: accessToken,
+    })
+    const tokenStore = new MemoryTokenStore()
+    const drupal1 = new NextDrupalBase(BASE_URL, { tokenStore })
+    const drupal2 = new NextDrupalBase(BASE_URL, { tokenStore })
+
+    const token1 = await drupal1.getAccessToken(clientIdSecret)
+    const token2 = await drupal2.getAccessToken(clientIdSecret)
+
+    expect(token2).toEqual(token1)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test("does not re-use access tokens of other sites or token urls", async () => {
+    const fetchSpy = spyOnFetch({
+      responseBody: accessToken,
+    })
+    const tokenStore = new MemoryTokenStore()
+    const drupal1 = new NextDrupalBase(BASE_URL, { tokenStore })
+    const drupal2 = new NextDrupalBase("https://other.example.com", {
+      tokenStore,
+    })
+
+    await drupal1.getAccessToken(clientIdSecret)
+    await drupal2.getAccessToken(clientIdSecret)
+    await drupal1.getAccessToken({ ...clientIdSecret, url: "/other/token" })
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  test("fetches a new access token within the tokenRefreshWindow", async () => {
+    const fetchSpy = spyOnFetch({
+      responseBody: accessToken,
+    })
+    const tokenStore = new MemoryTokenStore()
+    const deleteSpy = jest.spyOn(tokenStore, "delete")
+    const drupal = new NextDrupalBase(BASE_URL, {
+      tokenStore,
+      tokenRefreshWindow: 60,
+    })
+
+    await drupal.getAccessToken(clientIdSecret)
+
+    const now = Date.now()
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(now + (accessToken.expires_in - 59) * 1000)
+
+    await drupal.getAccessToken(clientIdSecret)
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(deleteSpy).toHaveBeenCalledWith(
+      `${BASE_URL}:/oauth/token:${clientIdSecret.clientId}:`
+    )
+  })
+
+  test("shares a pending access token request", async () => {
+    const fetchSpy = spyOnFetch({
+      responseBody: accessToken,
+    })
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, { debug: true, logger })
+
+    const [token1, token2] = await Promise.all([
+      drupal.getAccessToken(clientIdSecret),
+      drupal.getAccessToken(clientIdSecret),
+    ])
+
+    expect(token2).toEqual(token1)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Waiting for pending access token request."
+    )
+  })
+
+  test("does not store a failed access token request", async () => {
+    spyOnFetchOnce({
+      responseBody: { message: "Invalid client." },
+      status: 401,
+    })
+    const fetchSpy = spyOnFetchOnce({
+      responseBody: accessToken,
+    })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    await expect(drupal.getAccessToken(clientIdSecret)).rejects.toThrow(
+      "Invalid client."
+    )
+    await expect(drupal.getAccessToken(clientIdSecret)).resolves.toEqual(
+      accessToken
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("getUserAccessToken()", () => {
+  const {
+    passwordGrant,
+    authorizationCodeGrant,
+    refreshTokenGrant,
+    userToken,
+  } = mocks.auth
+  const basicAuthHeader = `Basic ${Buffer.from(
+    `${passwordGrant.clientId}:${passwordGrant.clientSecret}`
+  ).toString("base64")}`
+
+  function getRequest(fetchSpy: ReturnType<typeof spyOnFetch>, call = 0) {
+    const [url, init] = fetchSpy.mock.calls[call]
+    return {
+      url,
+      body: Object.fromEntries((init.body as URLSearchParams).entries()),
+      headers: init.headers as Headers,
+    }
+  }
+
+  test("fetches an access token using the password grant", async () => {
+    const fetchSpy = spyOnFetch({ responseBody: userToken })
+    const onTokenChange = jest.fn<NextDrupalBase["onTokenChange"]>()
+    const drupal = new NextDrupalBase(BASE_URL, { onTokenChange })
+
+    const token = await drupal.getUserAccessToken(passwordGrant)
+
+    expect(token).toEqual(userToken)
+    expect(onTokenChange).toHaveBeenCalledWith(userToken, passwordGrant)
+
+    const request = getRequest(fetchSpy)
+    expect(request.url).toBe(`${BASE_URL}/oauth/token`)
+    expect(request.body).toEqual({
+      grant_type: "password",
+      username: passwordGrant.username,
+      password: passwordGrant.password,
+    })
+    expect(request.headers.get("Authorization")).toBe(basicAuthHeader)
+  })
+
+  test("re-uses an unexpired access token", async () => {
+    const fetchSpy = spyOnFetch({ responseBody: userToken })
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, { debug: true, logger })
+
+    const token1 = await drupal.getUserAccessToken(passwordGrant)
+    const token2 = await drupal.getUserAccessToken(passwordGrant)
+
+    expect(token2).toBe(token1)
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(logger.debug).toHaveBeenLastCalledWith(
+      "Using existing user access token."
+    )
+  })
+
+  test("refreshes an expired access token", async () => {
+    const refreshedToken = {
+      ...userToken,
+      access_token: "refreshed-access-token",
+      refresh_token: "rotated-refresh-token",
+    }
+    const fetchSpy = spyOnFetchOnce({ responseBody: userToken })
+    spyOnFetchOnce({ responseBody: refreshedToken })
+    const onTokenChange = jest.fn<NextDrupalBase["onTokenChange"]>()
+    const drupal = new NextDrupalBase(BASE_URL, { onTokenChange })
+
+    await drupal.getUserAccessToken(passwordGrant)
+
+    const now = Date.now()
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(now + userToken.expires_in * 1000 + 1)
+
+    const token = await drupal.getUserAccessToken(passwordGrant)
+
+    expect(token).toEqual(refreshedToken)
+    expect(getRequest(fetchSpy, 1).body).toEqual({
+      grant_type: "refresh_token",
+      refresh_token: userToken.refresh_token,
+    })
+    expect(onTokenChange).toHaveBeenLastCalledWith(
+      refreshedToken,
+      passwordGrant
+    )
+  })
+
+  test("shares a pending refresh between concurrent requests", async () => {
+    const refreshedToken = {
+      ...userToken,
+      access_token: "refreshed-access-token",
+      refresh_token: "rotated-refresh-token",
+    }
+    const fetchSpy = spyOnFetchOnce({ responseBody: userToken })
+    spyOnFetchOnce({ responseBody: refreshedToken })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    await drupal.getUserAccessToken(passwordGrant)
+
+    const now = Date.now()
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(now + userToken.expires_in * 1000 + 1)
+
+    const tokens = await Promise.all([
+      drupal.getUserAccessToken(passwordGrant),
+      drupal.getUserAccessToken(passwordGrant),
+      drupal.getUserAccessToken(passwordGrant),
+    ])
+
+    expect(tokens).toEqual([refreshedToken, refreshedToken, refreshedToken])
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(getRequest(fetchSpy, 1).body).toEqual({
+      grant_type: "refresh_token",
+      refresh_token: userToken.refresh_token,
+    })
+  })
+
+  test("uses the password grant if refreshing fails", async () => {
+    const fetchSpy = spyOnFetchOnce({ responseBody: userToken })
+    spyOnFetchOnce({
+      responseBody: { message: "The refresh token is invalid." },
+      status: 400,
+    })
+    spyOnFetchOnce({ responseBody: userToken })
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, { debug: true, logger })
+
+    await drupal.getUserAccessToken(passwordGrant)
+
+    const now = Date.now()
+    jest
+      .spyOn(Date, "now")
+      .mockReturnValue(now + userToken.expires_in * 1000 + 1)
+
+    const token = await drupal.getUserAccessToken(passwordGrant)
+
+    expect(token).toEqual(userToken)
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(getRequest(fetchSpy, 2).body).toMatchObject({
+      grant_type: "password",
+    })
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Could not refresh user access token: Error while fetching new access token:  The refresh token is invalid."
+    )
+  })
+
+  test("fetches an access token using the authorization_code grant with PKCE", async () => {
+    const fetchSpy = spyOnFetch({ responseBody: userToken })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    const token = await drupal.getUserAccessToken(authorizationCodeGrant)
+
+    expect(token).toEqual(userToken)
+
+    const request = getRequest(fetchSpy)
+    expect(request.body).toEqual({
+      grant_type: "authorization_code",
+      code: authorizationCodeGrant.code,
+      redirect_uri: authorizationCodeGrant.redirectUri,
+      code_verifier: authorizationCodeGrant.codeVerifier,
+      client_id: authorizationCodeGrant.clientId,
+    })
+    expect(request.headers.has("Authorization")).toBe(false)
+  })
+
+  test("fetches an access token using the authorization_code grant without PKCE", async () => {
+    const fetchSpy = spyOnFetch({ responseBody: userToken })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    await drupal.getUserAccessToken({
+      ...authorizationCodeGrant,
+      codeVerifier: undefined,
+      clientSecret: passwordGrant.clientSecret,
+      scope: "editor",
+      url: "/custom/token",
+    })
+
+    const request = getRequest(fetchSpy)
+    expect(request.url).toBe(`${BASE_URL}/custom/token`)
+    expect(request.body).toEqual({
+      grant_type: "authorization_code",
+      code: authorizationCodeGrant.code,
+      redirect_uri: authorizationCodeGrant.redirectUri,
+      scope: "editor",
+    })
+    expect(request.headers.get("Authorization")).toBe(basicAuthHeader)
+  })
+
+  test("fetches an access token using the refresh_token grant", async () => {
+    const fetchSpy = spyOnFetch({ responseBody: userToken })
+    const drupal = new NextDrupalBase(BASE_URL)
+
+    const token = await drupal.getUserAccessToken(refreshTokenGrant)
+
+    expect(token).toEqual(userToken)
+    expect(getRequest(fetchSpy).body).toEqual({
+      grant_type: "refresh_token",
+      refresh_token: refreshTokenGrant.refreshToken,
+    })
+  })
+
+  test("throws if the refresh_token grant fails", async () => {
+    spyOnFetch({
+      responseBody: { message: "The refresh token is invalid." },
+      status: 400,
+    })
+    const onTokenChange = jest.fn<NextDrupalBase["onTokenChange"]>()
+    const drupal = new NextDrupalBase(BASE_URL, { onTokenChange })
+
+    await expect(drupal.getUserAccessToken(refreshTokenGrant)).rejects.toThrow(
+      "Error while fetching new access token:  The refresh token is invalid."
+    )
+    expect(onTokenChange).not.toHaveBeenCalled()
+  })
 })
 
 describe("getAuthorizationHeader()", () => {
@@ -470,6 +1327,20 @@ describe("getAuthorizationHeader()", () => {
     )
   })
 
+  test("returns Basic Auth without Buffer", async () => {
+    const drupal = new NextDrupalBase(BASE_URL)
+    const expected = `Basic ${Buffer.from("admin:pässwörd").toString("base64")}`
+    const from = jest.spyOn(Buffer, "from")
+
+    const header = await drupal.getAuthorizationHeader({
+      username: "admin",
+      password: "pässwörd",
+    })
+
+    expect(header).toBe(expected)
+    expect(from).not.toHaveBeenCalled()
+  })
+
   test("returns Client Id/Secret", async () => {
     const auth: NextDrupalAuth = clientIdSecret
     const logger = mockLogger()
@@ -490,6 +1361,25 @@ describe("getAuthorizationHeader()", () => {
     )
   })
 
+  test("returns user grant access token", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupalBase(BASE_URL, {
+      auth: "is not used",
+      debug: true,
+      logger,
+    })
+    jest
+      .spyOn(drupal, "getUserAccessToken")
+      .mockImplementation(async () => mocks.auth.userToken)
+
+    const header = await drupal.getAuthorizationHeader(mocks.auth.passwordGrant)
+
+    expect(header).toBe(`Bearer ${mocks.auth.userToken.access_token}`)
+    expect(logger.debug).toHaveBeenLastCalledWith(
+      "Using access token authorization header retrieved from the password grant."
+    )
+  })
+
   test("returns Access Token", async () => {
     const auth: NextDrupalAuth = accessToken
     const logger = mockLogger()
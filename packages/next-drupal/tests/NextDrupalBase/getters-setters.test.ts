@@ -108,6 +108,60 @@ describe("auth", () => {
     })
   })
 
+  describe("throws an error if invalid user grant", () => {
+    test("unsupported grantType", () => {
+      expect(() => {
+        const drupal = new NextDrupalBase(BASE_URL)
+        drupal.auth = {
+          ...mocks.auth.passwordGrant,
+          // @ts-expect-error
+          grantType: "implicit",
+        }
+      }).toThrow(
+        "'implicit' is not a supported grantType. See https://next-drupal.org/docs/client/auth"
+      )
+    })
+
+    test("missing password", () => {
+      expect(() => {
+        const drupal = new NextDrupalBase(BASE_URL)
+        drupal.auth = {
+          ...mocks.auth.passwordGrant,
+          password: "",
+        }
+      }).toThrow(
+        "'clientId', 'username', 'password' are required for the password grant. See https://next-drupal.org/docs/client/auth"
+      )
+    })
+
+    test("missing redirectUri", () => {
+      expect(() => {
+        const drupal = new NextDrupalBase(BASE_URL)
+        // @ts-expect-error
+        drupal.auth = {
+          grantType: "authorization_code",
+          clientId: mocks.auth.authorizationCodeGrant.clientId,
+          code: mocks.auth.authorizationCodeGrant.code,
+        }
+      }).toThrow(
+        "'clientId', 'code', 'redirectUri' are required for the authorization_code grant. See https://next-drupal.org/docs/client/auth"
+      )
+    })
+
+    test("missing refreshToken", () => {
+      expect(() => {
+        const drupal = new NextDrupalBase(BASE_URL)
+        // @ts-expect-error
+        drupal.auth = {
+          grantType: "refresh_token",
+          clientId: mocks.auth.refreshTokenGrant.clientId,
+        }
+      }).toThrow(
+        "'clientId', 'refreshToken' are required for the refresh_token grant. See https://next-drupal.org/docs/client/auth"
+      )
+    })
+  })
+
   test("get auth", () => {
     const drupal = new NextDrupalBase(BASE_URL, {
       auth: mocks.auth.customAuthenticationHeader,
@@ -165,6 +219,15 @@ describe("auth", () => {
     expect(drupal.auth.url).toBe("/oauth/token")
   })
 
+  test("sets a default access token url for user grants", () => {
+    const drupal = new NextDrupalBase(BASE_URL)
+    drupal.auth = { ...mocks.auth.passwordGrant }
+    expect(drupal.auth).toMatchObject({
+      ...mocks.auth.passwordGrant,
+      url: "/oauth/token",
+    })
+  })
+
   test("can override the default access token url", () => {
     const clientIdSecret = {
       ...mocks.auth.clientIdSecret,
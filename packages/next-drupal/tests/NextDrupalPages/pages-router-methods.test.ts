@@ -7,6 +7,7 @@ import {
   mocks,
   spyOnDrupalFetch,
   spyOnFetch,
+  spyOnFetchOnce,
 } from "../utils"
 import type {
   DrupalNode,
@@ -1078,6 +1079,36 @@ describe("getStaticPathsFromContext()", () => {
     })
   })
 
+  test("returns static paths from every page", async () => {
+    const drupal = new NextDrupalPages(BASE_URL, {
+      useDefaultResourceTypeEntry: true,
+    })
+    const { pageOne, pageTwo } = mocks.collections.paginated
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+    spyOnFetchOnce({ responseBody: pageOne })
+    spyOnFetchOnce({ responseBody: pageTwo })
+
+    const paths = await drupal.getStaticPathsFromContext("node--article", {})
+
+    expect(paths).toEqual(
+      ["first", "second", "third"].map((segment) => ({
+        params: { slug: ["articles", segment] },
+      }))
+    )
+
+    const localizedPaths = await drupal.getStaticPathsFromContext(
+      "node--article",
+      { locales: ["en"], defaultLocale: "en" }
+    )
+
+    expect(localizedPaths).toHaveLength(3)
+    expect(localizedPaths[2]).toEqual({
+      params: { slug: ["articles", "third"] },
+      locale: "en",
+    })
+  })
+
   test("makes authenticated requests with withAuth option", async () => {
     const drupal = new NextDrupalPages(BASE_URL, {
       useDefaultResourceTypeEntry: true,
@@ -0,0 +1,72 @@
+import { describe, expect, jest, test } from "@jest/globals"
+import { RequestQueue } from "../../src"
+
+describe("RequestQueue", () => {
+  test("throws an error for an invalid limit", () => {
+    expect(() => new RequestQueue(0)).toThrow(
+      "The request concurrency limit must be a positive integer."
+    )
+  })
+
+  test("runs requests up to the limit", async () => {
+    const queue = new RequestQueue(2)
+
+    await expect(queue.acquire()).resolves.toBe(0)
+    await expect(queue.acquire()).resolves.toBe(0)
+
+    expect(queue.metrics).toMatchObject({
+      limit: 2,
+      active: 2,
+      queued: 0,
+      requests: 2,
+    })
+  })
+
+  test("queues requests over the limit", async () => {
+    const queue = new RequestQueue(1)
+    const order: string[] = []
+
+    await queue.acquire()
+    const second = queue.acquire().then(() => order.push("second"))
+    const third = queue.acquire().then(() => order.push("third"))
+
+    expect(queue.metrics).toMatchObject({ active: 1, queued: 2 })
+
+    queue.release()
+    await second
+    expect(order).toEqual(["second"])
+
+    queue.release()
+    await third
+    expect(order).toEqual(["second", "third"])
+
+    queue.release()
+    expect(queue.metrics).toMatchObject({
+      active: 0,
+      queued: 0,
+      requests: 3,
+    })
+  })
+
+  test("records the queue wait time", async () => {
+    const queue = new RequestQueue(1)
+    const now = Date.now()
+    const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now)
+
+    await queue.acquire()
+    const waiting = queue.acquire()
+
+    dateSpy.mockReturnValue(now + 300)
+    queue.release()
+
+    await expect(waiting).resolves.toBe(300)
+    expect(queue.metrics).toMatchObject({
+      requests: 2,
+      totalWaitTime: 300,
+      maxWaitTime: 300,
+      averageWaitTime: 150,
+    })
+
+    dateSpy.mockRestore()
+  })
+})
@@ -0,0 +1,306 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  getCacheTags,
+  JsonApiErrors,
+  NextDrupal,
+  ResourceLoader,
+} from "../../src"
+import { BASE_URL, mockLogger, mocks, spyOnDrupalFetch } from "../utils"
+import type { DrupalNode, JsonApiResponse } from "../../src"
+
+const collection = mocks.collections.paginated.pageOne
+const [first, second] = collection.data.map(({ id }) => id)
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+function getFetchedParams(fetchSpy, call = 0) {
+  return Object.fromEntries(
+    new URL(fetchSpy.mock.calls[call][0] as string).searchParams
+  )
+}
+
+describe("constructor", () => {
+  test("defaults the maximum batch size to 50", () => {
+    const loader = new ResourceLoader(new NextDrupal(BASE_URL))
+
+    expect(loader.maxBatchSize).toBe(50)
+  })
+
+  test("throws an error if the maximum batch size is not a positive integer", () => {
+    const drupal = new NextDrupal(BASE_URL)
+
+    expect(() => new ResourceLoader(drupal, { maxBatchSize: 0 })).toThrow(
+      "The maximum batch size must be a positive integer."
+    )
+    expect(() => new ResourceLoader(drupal, { maxBatchSize: 1.5 })).toThrow(
+      "The maximum batch size must be a positive integer."
+    )
+  })
+
+  test("can be created using drupal.createLoader()", () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader({ maxBatchSize: 10 })
+
+    expect(loader).toBeInstanceOf(ResourceLoader)
+    expect(loader.drupal).toBe(drupal)
+    expect(loader.maxBatchSize).toBe(10)
+  })
+})
+
+describe("load()", () => {
+  test("batches loads made in the same tick into one request", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    const [firstNode, secondNode] = await Promise.all([
+      loader.load<DrupalNode>("node--article", first),
+      loader.load<DrupalNode>("node--article", second),
+    ])
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(fetchSpy.mock.calls[0][0]).toMatch(
+      `${BASE_URL}/jsonapi/node/article?`
+    )
+    expect(getFetchedParams(fetchSpy)).toMatchObject({
+      "filter[id][condition][path]": "id",
+      "filter[id][condition][operator]": "IN",
+      "filter[id][condition][value][0]": first,
+      "filter[id][condition][value][1]": second,
+      "page[limit]": "2",
+    })
+    expect(firstNode).toMatchObject({ id: first, title: "First article" })
+    expect(secondNode).toMatchObject({ id: second, title: "Second article" })
+  })
+
+  test("deduplicates loads of the same resource", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await Promise.all([
+      loader.load("node--article", first),
+      loader.load("node--article", first),
+    ])
+    await loader.load("node--article", first)
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(getFetchedParams(fetchSpy)).toMatchObject({
+      "filter[id][condition][value][0]": first,
+      "page[limit]": "1",
+    })
+  })
+
+  test("makes a request per type and options", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await Promise.all([
+      loader.load("node--article", first),
+      loader.load("node--article", second, {
+        params: { include: "uid" },
+      }),
+      loader.load("node--page", first),
+    ])
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(getFetchedParams(fetchSpy, 1)).toMatchObject({
+      include: "uid",
+      "filter[id][condition][value][0]": second,
+    })
+    expect(fetchSpy.mock.calls[2][0]).toMatch(`${BASE_URL}/jsonapi/node/page?`)
+  })
+
+  test("splits batches larger than the maximum batch size", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader({ maxBatchSize: 1 })
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await loader.loadMany("node--article", [first, second])
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(getFetchedParams(fetchSpy, 0)).toMatchObject({
+      "filter[id][condition][value][0]": first,
+      "page[limit]": "1",
+    })
+    expect(getFetchedParams(fetchSpy, 1)).toMatchObject({
+      "filter[id][condition][value][0]": second,
+      "page[limit]": "1",
+    })
+  })
+
+  test("rejects resources missing from the response", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    const [found, missing] = await Promise.allSettled([
+      loader.load("node--article", first),
+      loader.load("node--article", "missing"),
+    ])
+
+    expect(found.status).toBe("fulfilled")
+    expect(missing.status).toBe("rejected")
+    const { reason } = missing as PromiseRejectedResult
+    expect(reason).toBeInstanceOf(JsonApiErrors)
+    expect(reason.statusCode).toBe(404)
+    expect(reason.message).toBe(
+      "Error while fetching resource: Resource of type 'node--article' with id 'missing' not found."
+    )
+  })
+
+  test("rejects every load in a batch if the request fails", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    spyOnDrupalFetch(drupal, {
+      responseBody: mocks.resources.node.forbidden,
+      status: 403,
+    })
+
+    const results = await Promise.allSettled([
+      loader.load("node--article", first),
+      loader.load("node--article", second),
+    ])
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "rejected",
+      "rejected",
+    ])
+    expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+      JsonApiErrors
+    )
+  })
+
+  test("loads a resource again after a failed request", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    spyOnDrupalFetch(drupal, { throwErrorMessage: "Network error" })
+
+    await expect(loader.load("node--article", first)).rejects.toThrow(
+      "Network error"
+    )
+
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    expect(await loader.load("node--article", first)).toMatchObject({
+      id: first,
+    })
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  test("aborts only the loads of an aborted signal", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+    const controller = new AbortController()
+
+    const loads = Promise.allSettled([
+      loader.load("node--article", first, { signal: controller.signal }),
+      loader.load("node--article", first),
+      loader.load("node--article", second),
+    ])
+    controller.abort(new Error("Aborted"))
+    const results = await loads
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "rejected",
+      "fulfilled",
+      "fulfilled",
+    ])
+    expect((results[0] as PromiseRejectedResult).reason).toEqual(
+      new Error("Aborted")
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(fetchSpy.mock.calls[0][1].signal).toBeUndefined()
+
+    await expect(
+      loader.load("node--article", first, { signal: controller.signal })
+    ).rejects.toThrow("Aborted")
+  })
+
+  test("returns raw documents with their cache tags", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    spyOnDrupalFetch(drupal, {
+      responseBody: collection,
+      headers: { "X-Drupal-Cache-Tags": "node:1 node:2 node_list" },
+    })
+
+    const json = await loader.load<JsonApiResponse>("node--article", second, {
+      deserialize: false,
+    })
+
+    expect(json.data).toEqual(collection.data[1])
+    expect(json.links).toEqual(collection.links)
+    expect(getCacheTags(json)).toEqual(["node:1", "node:2", "node_list"])
+  })
+
+  test("loads resource versions one at a time", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, {
+      responseBody: mocks.resources.node.ok,
+    })
+
+    await loader.loadMany("node--recipe", ["1", "2"], {
+      params: { resourceVersion: "rel:latest-version" },
+    })
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(fetchSpy.mock.calls[0][0]).toMatch(
+      `${BASE_URL}/jsonapi/node/recipe/1?resourceVersion=rel%3Alatest-version`
+    )
+    expect(fetchSpy.mock.calls[1][0]).toMatch(
+      `${BASE_URL}/jsonapi/node/recipe/2?resourceVersion=rel%3Alatest-version`
+    )
+  })
+
+  test("logs the size of each batch", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { debug: true, logger })
+    const loader = drupal.createLoader()
+    spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await loader.loadMany("node--article", [first, second])
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "Loading 2 resources of type node--article."
+    )
+  })
+})
+
+describe("clear()", () => {
+  test("loads a cleared resource again", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await loader.loadMany("node--article", [first, second])
+    loader.clear("node--article", first)
+    await loader.loadMany("node--article", [first, second])
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(getFetchedParams(fetchSpy, 1)).toMatchObject({
+      "filter[id][condition][value][0]": first,
+      "page[limit]": "1",
+    })
+  })
+
+  test("clearAll() loads every resource again", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const loader = drupal.createLoader()
+    const fetchSpy = spyOnDrupalFetch(drupal, { responseBody: collection })
+
+    await loader.loadMany("node--article", [first, second])
+    loader.clearAll()
+    await loader.loadMany("node--article", [first, second])
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(getFetchedParams(fetchSpy, 1)).toMatchObject({
+      "page[limit]": "2",
+    })
+  })
+})
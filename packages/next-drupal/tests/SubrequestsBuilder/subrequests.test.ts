@@ -0,0 +1,346 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  createSubrequestReplacement,
+  getCacheTags,
+  JsonApiErrors,
+  NextDrupal,
+  SubrequestsBuilder,
+} from "../../src"
+import { BASE_URL, mockLogger, mocks, spyOnDrupalFetch } from "../utils"
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+function subresponse(
+  body: unknown,
+  {
+    status = 200,
+    contentType = "application/vnd.api+json",
+    cacheTags,
+  }: { status?: number; contentType?: string; cacheTags?: string } = {}
+) {
+  return {
+    headers: {
+      status: [status],
+      "content-type": [contentType],
+      ...(cacheTags && { "x-drupal-cache-tags": [cacheTags] }),
+    },
+    body: JSON.stringify(body),
+  }
+}
+
+const translatedPath = mocks.resources.translatePath.ok
+const node = mocks.resources.node.ok
+
+describe("createSubrequestReplacement()", () => {
+  test("returns a replacement", () => {
+    expect(createSubrequestReplacement("router", "$.entity.uuid")).toBe(
+      "{{router.body@$.entity.uuid}}"
+    )
+  })
+})
+
+describe("subrequests()", () => {
+  test("creates a builder", () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const builder = drupal.subrequests()
+
+    expect(builder).toBeInstanceOf(SubrequestsBuilder)
+    expect(builder.drupal).toBe(drupal)
+  })
+})
+
+describe("add()", () => {
+  test("throws an error for duplicate request ids", () => {
+    const builder = new NextDrupal(BASE_URL)
+      .subrequests()
+      .translatePath("router", "/about")
+
+    expect(() => builder.translatePath("router", "/contact")).toThrow(
+      "A subrequest with the id 'router' already exists."
+    )
+  })
+
+  test("throws an error for unknown requests to wait for", () => {
+    const builder = new NextDrupal(BASE_URL).subrequests()
+
+    expect(() => builder.resourceByPath("page", "router")).toThrow(
+      "The subrequest 'page' waits for an unknown subrequest 'router'."
+    )
+  })
+})
+
+describe("send()", () => {
+  test("sends the blueprint in one request", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {},
+    })
+
+    await drupal
+      .subrequests()
+      .translatePath("router", "/recipes/deep-mediterranean-quiche")
+      .resourceByPath("page", "router", {
+        params: { include: "uid" },
+      })
+      .resource(
+        "author",
+        "user--user",
+        createSubrequestReplacement("page", "$.data.relationships.uid.data.id"),
+        { waitFor: ["page"] }
+      )
+      .resourceCollection("blocks", "block_content--basic", {
+        params: { "filter[status]": 1 },
+      })
+      .menu("menu", "main")
+      .add("login", {
+        action: "create",
+        uri: "/user/login?_format=json",
+        body: { name: "admin" },
+        headers: { "Content-Type": "application/json" },
+      })
+      .add("raw", { action: "update", uri: "/custom", body: "raw" })
+      .send()
+
+    expect(fetchSpy).toHaveBeenCalledWith(
+      `${BASE_URL}/subrequests?_format=json`,
+      expect.objectContaining({ method: "POST" })
+    )
+    expect(JSON.parse(fetchSpy.mock.calls[0][1].body as string)).toEqual([
+      {
+        requestId: "router",
+        action: "view",
+        uri: "/router/translate-path?path=%2Frecipes%2Fdeep-mediterranean-quiche&_format=json",
+      },
+      {
+        requestId: "page",
+        action: "view",
+        uri: "{{router.body@$.jsonapi.individual}}?include=uid",
+        waitFor: ["router"],
+      },
+      {
+        requestId: "author",
+        action: "view",
+        uri: "/jsonapi/user/user/{{page.body@$.data.relationships.uid.data.id}}",
+        waitFor: ["page"],
+      },
+      {
+        requestId: "blocks",
+        action: "view",
+        uri: "/jsonapi/block_content/basic?filter%5Bstatus%5D=1",
+      },
+      {
+        requestId: "menu",
+        action: "view",
+        uri: "/jsonapi/menu_items/main",
+      },
+      {
+        requestId: "login",
+        action: "create",
+        uri: "/user/login?_format=json",
+        body: JSON.stringify({ name: "admin" }),
+        headers: { "Content-Type": "application/json" },
+      },
+      { requestId: "raw", action: "update", uri: "/custom", body: "raw" },
+    ])
+  })
+
+  test("returns the results by request id", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {
+        router: subresponse(translatedPath, {
+          contentType: "application/json",
+        }),
+        "page#uri{0}": subresponse(node, { cacheTags: "node:1 user:1" }),
+      },
+    })
+
+    const { results, errors } = await drupal
+      .subrequests()
+      .translatePath("router", "/recipes/deep-mediterranean-quiche")
+      .resourceByPath("page", "router")
+      .send()
+
+    expect(results.router).toEqual(translatedPath)
+    expect(results.page.id).toBe(node.data.id)
+    expect(results.page.title).toBe(node.data.attributes.title)
+    expect(getCacheTags(results.page)).toEqual(["node:1", "user:1"])
+    expect(errors).toEqual({})
+  })
+
+  test("returns raw documents", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: { menu: subresponse(mocks.menus.menuItems) },
+    })
+
+    const { results } = await drupal
+      .subrequests()
+      .menu("menu", "main")
+      .send({ deserialize: false })
+
+    expect(results.menu).toEqual(mocks.menus.menuItems)
+  })
+
+  test("returns every result of requests with many results", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {
+        router: subresponse(translatedPath),
+        "blocks#uri{0}": subresponse({ id: 1 }, { contentType: "text/json" }),
+        "blocks#uri{1}": subresponse({ id: 2 }, { contentType: "text/json" }),
+      },
+    })
+
+    const { results } = await drupal
+      .subrequests()
+      .translatePath("router", "/")
+      .add<"blocks", { id: number }[]>("blocks", {
+        uri: "/blocks/{{router.body@$.blocks[*]}}",
+        waitFor: ["router"],
+        many: true,
+      })
+      .send()
+
+    expect(results.blocks).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  test("returns the errors by request id", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {
+        router: subresponse(
+          { message: "Unable to resolve path /missing." },
+          { status: 404, contentType: "application/json" }
+        ),
+        article: subresponse(mocks.resources.node.forbidden, { status: 403 }),
+        text: {
+          headers: { status: [500] },
+          body: "Internal server error",
+        },
+        empty: { headers: { status: [502] } },
+      },
+    })
+
+    const { results, errors } = await drupal
+      .subrequests()
+      .translatePath("router", "/missing")
+      .resourceByPath("page", "router")
+      .resource("article", "node--article", "1")
+      .add("text", { uri: "/text" })
+      .add("empty", { uri: "/empty" })
+      .send()
+
+    expect(results).toEqual({})
+    expect(errors.router).toEqual(
+      new JsonApiErrors(
+        "Unable to resolve path /missing.",
+        404,
+        "Error while fetching subrequest router:"
+      )
+    )
+    expect(errors.router.statusCode).toBe(404)
+    expect(errors.page).toEqual(
+      new JsonApiErrors(
+        "The request was not sent, since a request it waits for failed.",
+        424,
+        "Error while fetching subrequest page:"
+      )
+    )
+    expect(errors.article).toEqual(
+      new JsonApiErrors(
+        mocks.resources.node.forbidden.errors,
+        403,
+        "Error while fetching subrequest article:"
+      )
+    )
+    expect(errors.text.message).toBe(
+      "Error while fetching subrequest text: Internal server error"
+    )
+    expect(errors.empty.message).toBe(
+      "Error while fetching subrequest empty: 502"
+    )
+  })
+
+  test("returns results without status headers", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: { custom: { body: JSON.stringify({ ok: true }) } },
+    })
+
+    const { results } = await drupal
+      .subrequests()
+      .add("custom", { uri: "/custom" })
+      .send()
+
+    expect(results.custom).toEqual({ ok: true })
+  })
+
+  test("throws an error if the subrequests fail", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    spyOnDrupalFetch(drupal, {
+      status: 500,
+      statusText: "Internal server error",
+      responseBody: "500 Internal server error",
+    })
+
+    await expect(
+      drupal.subrequests().translatePath("router", "/").send()
+    ).rejects.toThrow("Error while fetching subrequests: Internal server error")
+  })
+
+  test("fetches localized resources", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const fetchSpy = spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {},
+    })
+
+    await drupal
+      .subrequests()
+      .resource("article", "node--article", "1")
+      .send({ locale: "es", defaultLocale: "en" })
+
+    expect(fetchSpy.mock.calls[0][0]).toBe(
+      `${BASE_URL}/es/subrequests?_format=json`
+    )
+    expect(JSON.parse(fetchSpy.mock.calls[0][1].body as string)).toEqual([
+      {
+        requestId: "article",
+        action: "view",
+        uri: "/es/jsonapi/node/article/1",
+      },
+    ])
+  })
+
+  test("makes requests using the client withAuth option", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, {
+      withAuth: true,
+      debug: true,
+      logger,
+    })
+    const fetchSpy = spyOnDrupalFetch(drupal, {
+      status: 207,
+      responseBody: {},
+    })
+
+    await drupal.subrequests().translatePath("router", "/").send()
+    await drupal
+      .subrequests()
+      .translatePath("router", "/")
+      .send({ withAuth: false })
+
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({ withAuth: true })
+    expect(fetchSpy.mock.calls[1][1]).toMatchObject({ withAuth: false })
+    expect(logger.debug).toHaveBeenCalledWith("Fetching 1 subrequests.")
+  })
+})
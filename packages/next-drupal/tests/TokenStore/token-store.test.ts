@@ -0,0 +1,84 @@
+import { describe, expect, test } from "@jest/globals"
+import { DataCacheTokenStore, MemoryTokenStore } from "../../src"
+import { mockDataCache, mocks } from "../utils"
+import type { TokenStoreEntry } from "../../src"
+
+const entry: TokenStoreEntry = {
+  token: mocks.auth.accessToken,
+  expiresOn: Date.now() + mocks.auth.accessToken.expires_in * 1000,
+}
+
+describe("MemoryTokenStore", () => {
+  test("stores, retrieves and deletes entries", async () => {
+    const tokenStore = new MemoryTokenStore()
+
+    expect(await tokenStore.get("client:scope")).toBeUndefined()
+
+    await tokenStore.set("client:scope", entry)
+    expect(await tokenStore.get("client:scope")).toBe(entry)
+
+    await tokenStore.delete("client:scope")
+    expect(await tokenStore.get("client:scope")).toBeUndefined()
+  })
+})
+
+describe("DataCacheTokenStore", () => {
+  test("stores serialized entries with a ttl", async () => {
+    const cache = mockDataCache()
+    const tokenStore = new DataCacheTokenStore(cache)
+
+    await tokenStore.set("client:scope", entry)
+
+    expect(cache.set).toHaveBeenCalledWith(
+      "next-drupal:token:client:scope",
+      JSON.stringify(entry),
+      mocks.auth.accessToken.expires_in
+    )
+    expect(await tokenStore.get("client:scope")).toEqual(entry)
+  })
+
+  test("stores expired entries with the minimum ttl", async () => {
+    const cache = mockDataCache()
+    const tokenStore = new DataCacheTokenStore(cache)
+
+    await tokenStore.set("client:scope", { ...entry, expiresOn: 0 })
+
+    expect(cache.set).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      1
+    )
+  })
+
+  test("retrieves unserialized entries", async () => {
+    const cache = mockDataCache()
+    await cache.set("next-drupal:token:client:scope", entry)
+    const tokenStore = new DataCacheTokenStore(cache)
+
+    expect(await tokenStore.get("client:scope")).toBe(entry)
+  })
+
+  test("returns undefined for missing entries", async () => {
+    const tokenStore = new DataCacheTokenStore(mockDataCache())
+
+    expect(await tokenStore.get("client:scope")).toBeUndefined()
+  })
+
+  test("deletes entries", async () => {
+    const cache = mockDataCache()
+    const tokenStore = new DataCacheTokenStore(cache, { prefix: "token:" })
+
+    await tokenStore.set("client:scope", entry)
+    await tokenStore.delete("client:scope")
+
+    expect(cache.del).toHaveBeenCalledWith("token:client:scope")
+    expect(await tokenStore.get("client:scope")).toBeUndefined()
+  })
+
+  test("ignores deletes if the cache cannot delete", async () => {
+    const { get, set } = mockDataCache()
+    const tokenStore = new DataCacheTokenStore({ get, set })
+
+    await expect(tokenStore.delete("client:scope")).resolves.toBeUndefined()
+  })
+})
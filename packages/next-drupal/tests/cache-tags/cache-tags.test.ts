@@ -0,0 +1,63 @@
+import { describe, expect, test } from "@jest/globals"
+import {
+  getCacheTags,
+  getCacheTagsFromResponse,
+  parseCacheTags,
+  setCacheTags,
+} from "../../src"
+
+describe("parseCacheTags()", () => {
+  test("parses a space-separated list of tags", () => {
+    expect(parseCacheTags("node:1  node_list\nconfig:system.site")).toEqual([
+      "node:1",
+      "node_list",
+      "config:system.site",
+    ])
+  })
+
+  test("removes duplicate tags", () => {
+    expect(parseCacheTags("node:1 node:1")).toEqual(["node:1"])
+  })
+
+  test("returns an empty array without tags", () => {
+    expect(parseCacheTags(null)).toEqual([])
+    expect(parseCacheTags("")).toEqual([])
+  })
+})
+
+describe("getCacheTagsFromResponse()", () => {
+  test("returns the tags from the X-Drupal-Cache-Tags header", () => {
+    const response = new Response("{}", {
+      headers: { "X-Drupal-Cache-Tags": "node:1 node_list" },
+    })
+
+    expect(getCacheTagsFromResponse(response)).toEqual(["node:1", "node_list"])
+  })
+
+  test("returns an empty array without the header", () => {
+    expect(getCacheTagsFromResponse(new Response("{}"))).toEqual([])
+  })
+})
+
+describe("setCacheTags() and getCacheTags()", () => {
+  test("attaches tags that are not serialized", () => {
+    const data = setCacheTags({ id: "1" }, ["node:1"])
+
+    expect(getCacheTags(data)).toEqual(["node:1"])
+    expect(data).toEqual({ id: "1" })
+    expect(JSON.stringify(data)).toBe(`{"id":"1"}`)
+  })
+
+  test("replaces existing tags", () => {
+    const data = setCacheTags(setCacheTags([], ["node:1"]), ["node:2"])
+
+    expect(getCacheTags(data)).toEqual(["node:2"])
+  })
+
+  test("ignores empty tags and values that are not objects", () => {
+    expect(getCacheTags(setCacheTags({}, []))).toEqual([])
+    expect(setCacheTags(null, ["node:1"])).toBeNull()
+    expect(getCacheTags(null)).toEqual([])
+    expect(getCacheTags("node:1")).toEqual([])
+  })
+})
@@ -0,0 +1,189 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { runCli } from "../../src/cli"
+import { BASE_URL } from "../utils"
+import { schemas } from "../generate-types/schemas"
+
+let dir: string
+const env = process.env
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "next-drupal-"))
+  process.env = { ...env }
+  delete process.env.NEXT_PUBLIC_DRUPAL_BASE_URL
+  delete process.env.DRUPAL_CLIENT_ID
+  delete process.env.DRUPAL_CLIENT_SECRET
+})
+
+afterEach(async () => {
+  jest.restoreAllMocks()
+  process.env = env
+  await rm(dir, { recursive: true })
+})
+
+function spyOnConsole() {
+  return {
+    log: jest.spyOn(console, "log").mockImplementation(() => null),
+    error: jest.spyOn(console, "error").mockImplementation(() => null),
+  }
+}
+
+// Responds with the index, the schemas and an access token.
+function spyOnDrupal() {
+  return jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+    const url = input.toString()
+    const json = url.endsWith("/oauth/token")
+      ? { access_token: "token", expires_in: 300 }
+      : url.endsWith("/jsonapi")
+        ? {
+            links: {
+              "user--user": { href: `${BASE_URL}/jsonapi/user/user` },
+            },
+          }
+        : schemas["user--user"]
+
+    return new Response(JSON.stringify(json), {
+      headers: { "content-type": "application/json" },
+    })
+  })
+}
+
+describe("runCli()", () => {
+  test("shows the help", async () => {
+    const console = spyOnConsole()
+
+    expect(await runCli(["generate-types", "--help"])).toBe(0)
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("Usage: next-drupal generate-types [options]")
+    )
+  })
+
+  test("fails for unknown commands", async () => {
+    const console = spyOnConsole()
+
+    expect(await runCli(["generate"])).toBe(1)
+    expect(await runCli([])).toBe(1)
+    expect(console.error).toHaveBeenNthCalledWith(
+      1,
+      expect.stringMatching(/^Unknown command 'generate'\.\n\nUsage:/)
+    )
+    expect(console.error).toHaveBeenNthCalledWith(
+      2,
+      expect.stringMatching(/^Missing command\.\n\nUsage:/)
+    )
+  })
+
+  test("fails for unknown options", async () => {
+    const console = spyOnConsole()
+
+    expect(await runCli(["generate-types", "--output", "types.ts"])).toBe(1)
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Unknown option '--output'")
+    )
+  })
+})
+
+describe("generate-types", () => {
+  test("generates the types of a snapshot", async () => {
+    const console = spyOnConsole()
+    const schema = join(dir, "schema.json")
+    const out = join(dir, "types", "drupal.d.ts")
+    await writeFile(schema, JSON.stringify(schemas))
+
+    expect(
+      await runCli([
+        "generate-types",
+        "--schema",
+        schema,
+        "--out",
+        out,
+        "--prefix",
+        "Site",
+      ])
+    ).toBe(0)
+    expect(await readFile(out, "utf8")).toContain(
+      "export interface SiteNodeArticle {"
+    )
+    expect(console.error).toHaveBeenCalledWith(
+      `Generated the types of 3 resource types in ${out}.`
+    )
+  })
+
+  test("fetches the schemas", async () => {
+    const console = spyOnConsole()
+    const fetchSpy = spyOnDrupal()
+    const write = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true)
+    const saveSchema = join(dir, "schema.json")
+
+    expect(
+      await runCli([
+        "generate-types",
+        "--base-url",
+        BASE_URL,
+        "--save-schema",
+        saveSchema,
+      ])
+    ).toBe(0)
+    expect(console.error).not.toHaveBeenCalled()
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(
+      new Headers(fetchSpy.mock.calls[1][1].headers).has("Authorization")
+    ).toBe(false)
+    expect(write).toHaveBeenCalledWith(
+      expect.stringContaining("export interface DrupalUserUser {")
+    )
+    expect(JSON.parse(await readFile(saveSchema, "utf8"))).toEqual({
+      "user--user": schemas["user--user"],
+    })
+  })
+
+  test("fetches the schemas using the environment variables", async () => {
+    spyOnConsole()
+    const fetchSpy = spyOnDrupal()
+    jest.spyOn(process.stdout, "write").mockImplementation(() => true)
+    process.env.NEXT_PUBLIC_DRUPAL_BASE_URL = BASE_URL
+    process.env.DRUPAL_CLIENT_ID = "id"
+    process.env.DRUPAL_CLIENT_SECRET = "secret"
+
+    expect(await runCli(["generate-types"])).toBe(0)
+    expect(fetchSpy).toHaveBeenCalledWith(
+      `${BASE_URL}/oauth/token`,
+      expect.anything()
+    )
+    expect(fetchSpy.mock.lastCall[0]).toBe(
+      `${BASE_URL}/jsonapi/user/user/resource/schema`
+    )
+    expect(
+      new Headers(fetchSpy.mock.lastCall[1].headers).get("Authorization")
+    ).toBe("Bearer token")
+  })
+
+  test("fails without a base URL", async () => {
+    const console = spyOnConsole()
+
+    expect(await runCli(["generate-types"])).toBe(1)
+    expect(console.error).toHaveBeenCalledWith(
+      "Missing the base URL. Set --base-url or NEXT_PUBLIC_DRUPAL_BASE_URL."
+    )
+  })
+
+  test("fails without resource types", async () => {
+    const console = spyOnConsole()
+    const schema = join(dir, "schema.json")
+    await writeFile(schema, JSON.stringify({ openapi: "3.0.0" }))
+
+    expect(await runCli(["generate-types", "--schema", schema])).toBe(1)
+    expect(console.error).toHaveBeenCalledWith("No resource types found.")
+  })
+})
@@ -13,6 +13,7 @@ import {
   DRAFT_DATA_COOKIE_NAME,
   DRAFT_MODE_COOKIE_NAME,
   NextDrupalBase,
+  createSignature,
 } from "../../src"
 import { BASE_URL, spyOnFetch } from "../utils"
 import {
@@ -108,6 +109,34 @@ describe("enableDraftMode()", () => {
     })
   })
 
+  test("enables draft mode for signed draft urls", async () => {
+    const drupal = new NextDrupalBase(BASE_URL, {
+      previewSecret: "very-secret-key",
+    })
+    const signedSearchParams = new URLSearchParams({
+      path: "/example",
+      resourceVersion: "id:1",
+    })
+    signedSearchParams.set(
+      "signature",
+      await createSignature("very-secret-key", {
+        path: "/api/draft",
+        searchParams: signedSearchParams,
+      })
+    )
+    spyOnFetch({ responseBody: validationPayload })
+
+    await enableDraftMode(
+      new NextRequest(`https://example.com/api/draft?${signedSearchParams}`),
+      drupal
+    )
+
+    expect(draftMode().enable).toHaveBeenCalled()
+    expect(cookies().get(DRAFT_DATA_COOKIE_NAME)?.value).toBe(
+      JSON.stringify({ path: "/example", resourceVersion: "id:1" })
+    )
+  })
+
   test("redirects to the given path", async () => {
     spyOnFetch({ responseBody: validationPayload })
 
@@ -0,0 +1,221 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals"
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { NextDrupal, NextDrupalFixtureError } from "../../src"
+import { createFixtureFetcher } from "../../src/testing"
+import { BASE_URL, mocks, spyOnFetch } from "../utils"
+import type { Fetcher } from "../../src"
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "next-drupal-fixtures-"))
+})
+
+afterEach(async () => {
+  jest.restoreAllMocks()
+  await rm(dir, { recursive: true })
+})
+
+async function readFixtures() {
+  const files = (await readdir(dir)).sort()
+
+  return Promise.all(
+    files.map(async (file) => ({
+      file,
+      ...JSON.parse(await readFile(join(dir, file), "utf8")),
+    }))
+  )
+}
+
+// Fails if a request is sent.
+const offline: Fetcher = async (input) => {
+  throw new Error(`Unexpected request to ${input}`)
+}
+
+describe("createFixtureFetcher()", () => {
+  test("records responses and replays them", async () => {
+    const fetcher = jest.fn<Fetcher>(
+      async () =>
+        new Response(JSON.stringify(mocks.resources.node.ok), {
+          headers: {
+            "content-type": "application/vnd.api+json",
+            "set-cookie": "SESS=secret",
+          },
+        })
+    )
+    const recorder = new NextDrupal(BASE_URL, {
+      fetcher: createFixtureFetcher({ dir, mode: "record", fetcher }),
+    })
+
+    const recorded = await recorder.getResource(
+      "node--recipe",
+      "71e04ead-4cc7-416c-b9ca-60b635fdc50f"
+    )
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    const [fixture] = await readFixtures()
+    expect(fixture.file).toMatch(
+      /^get-jsonapi-node-recipe-71e04ead-4cc7-416c-b9ca-60b635fdc50f-[0-9a-f]{8}\.json$/
+    )
+    expect(fixture.request).toEqual({
+      method: "GET",
+      url: `${BASE_URL}/jsonapi/node/recipe/71e04ead-4cc7-416c-b9ca-60b635fdc50f`,
+    })
+    expect(fixture.response).toEqual({
+      status: 200,
+      statusText: "",
+      headers: { "content-type": "application/vnd.api+json" },
+      json: mocks.resources.node.ok,
+    })
+
+    const replayer = new NextDrupal(BASE_URL, {
+      fetcher: createFixtureFetcher({ dir, fetcher: offline }),
+    })
+
+    expect(
+      await replayer.getResource(
+        "node--recipe",
+        "71e04ead-4cc7-416c-b9ca-60b635fdc50f"
+      )
+    ).toEqual(recorded)
+  })
+
+  test("throws an error for requests that were not recorded", async () => {
+    const drupal = new NextDrupal(BASE_URL, {
+      fetcher: createFixtureFetcher({ dir, fetcher: offline }),
+    })
+
+    const request = drupal.getResource("node--article", "missing")
+
+    await expect(request).rejects.toThrow(NextDrupalFixtureError)
+    await expect(request).rejects.toThrow(
+      `No fixture recorded for GET ${BASE_URL}/jsonapi/node/article/missing. Record it with the "record" mode to create ${dir}/get-jsonapi-node-article-missing-`
+    )
+  })
+
+  test("matches requests by method, URL and body", async () => {
+    const fetcher = jest.fn<Fetcher>(async (input: Request) => {
+      return new Response(`${input.method} ${await input.text()}`)
+    })
+    const record = createFixtureFetcher({ dir, mode: "record", fetcher })
+    const replay = createFixtureFetcher({ dir, fetcher: offline })
+    const url = `${BASE_URL}/jsonapi/node/article`
+
+    await record(url, { method: "POST", body: "a" })
+    await record(url, { method: "POST", body: "b" })
+    await record(new Request(url, { method: "PATCH", body: "a" }))
+
+    expect(await readFixtures()).toHaveLength(3)
+    expect(
+      await (await replay(url, { method: "POST", body: "b" })).text()
+    ).toBe("POST b")
+    expect(
+      await (
+        await replay(new Request(url, { method: "PATCH", body: "a" }))
+      ).text()
+    ).toBe("PATCH a")
+    await expect(replay(url, { method: "POST", body: "c" })).rejects.toThrow(
+      NextDrupalFixtureError
+    )
+  })
+
+  test("does not save credentials of form bodies and tokens", async () => {
+    const fetcher = jest.fn<Fetcher>(
+      async () =>
+        new Response(
+          JSON.stringify({ ...mocks.auth.accessToken, refresh_token: "r" }),
+          { headers: { "content-type": "application/json" } }
+        )
+    )
+    const auth = {
+      grantType: "password" as const,
+      clientId: "id",
+      username: "admin",
+    }
+    const recorder = new NextDrupal(BASE_URL, {
+      fetcher: createFixtureFetcher({ dir, mode: "record", fetcher }),
+    })
+
+    await recorder.getUserAccessToken({ ...auth, password: "secret" })
+
+    const [fixture] = await readFixtures()
+    expect(fixture.request.body).toBe(
+      "grant_type=password&username=admin&client_id=id"
+    )
+    expect(fixture.response.json).toEqual({
+      ...mocks.auth.accessToken,
+      access_token: "redacted",
+      refresh_token: "redacted",
+    })
+
+    const replayer = new NextDrupal(BASE_URL, {
+      fetcher: createFixtureFetcher({ dir, fetcher: offline }),
+    })
+
+    expect(
+      await replayer.getUserAccessToken({ ...auth, password: "other" })
+    ).toMatchObject({ access_token: "redacted" })
+  })
+
+  test("replays responses without a JSON body", async () => {
+    const record = createFixtureFetcher({
+      dir,
+      mode: "record",
+      fetcher: async (input: Request) =>
+        input.url.endsWith("/empty")
+          ? new Response(null, { status: 204 })
+          : new Response("<h1>Error</h1>", {
+              status: 500,
+              statusText: "Internal Server Error",
+              headers: { "content-type": "text/html" },
+            }),
+    })
+    const replay = createFixtureFetcher({ dir })
+
+    await record(`${BASE_URL}/empty`)
+    await record(`${BASE_URL}/error`)
+
+    const empty = await replay(`${BASE_URL}/empty`)
+    expect(empty.status).toBe(204)
+    expect(await empty.text()).toBe("")
+
+    const error = await replay(`${BASE_URL}/error`)
+    expect(error.status).toBe(500)
+    expect(error.statusText).toBe("Internal Server Error")
+    expect(error.headers.get("content-type")).toBe("text/html")
+    expect(await error.text()).toBe("<h1>Error</h1>")
+  })
+
+  test("records responses using fetch by default", async () => {
+    spyOnFetch({ responseBody: { ok: true } })
+    const record = createFixtureFetcher({ dir, mode: "record" })
+
+    expect(await (await record(`${BASE_URL}/ok`)).json()).toEqual({ ok: true })
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  test("throws an error for invalid fixtures", async () => {
+    const record = createFixtureFetcher({
+      dir,
+      mode: "record",
+      fetcher: async () => new Response("ok"),
+    })
+    await record(`${BASE_URL}/ok`)
+    const [fixture] = await readFixtures()
+    await writeFile(join(dir, fixture.file), "{")
+
+    await expect(
+      createFixtureFetcher({ dir })(`${BASE_URL}/ok`)
+    ).rejects.toThrow(SyntaxError)
+  })
+})
@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  fetchResourceSchemas,
+  generateTypes,
+  getResourceSchemas,
+  JsonApiErrors,
+  NextDrupal,
+} from "../../src"
+import { BASE_URL, mockLogger } from "../utils"
+import { schemas } from "./schemas"
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("fetchResourceSchemas()", () => {
+  test("fetches the schemas of the resource types of the index", async () => {
+    const logger = mockLogger()
+    const drupal = new NextDrupal(BASE_URL, { debug: true, logger })
+    jest.spyOn(drupal, "getIndex").mockResolvedValue({
+      links: {
+        self: { href: `${BASE_URL}/jsonapi` },
+        "node--article": { href: `${BASE_URL}/jsonapi/node/article` },
+        "user--user": `${BASE_URL}/jsonapi/user/user`,
+      },
+    } as never)
+    const fetchSpy = jest
+      .spyOn(drupal, "fetch")
+      .mockImplementation(
+        async (input) =>
+          new Response(JSON.stringify({ $id: input }), { status: 200 })
+      )
+
+    expect(await fetchResourceSchemas(drupal, { withAuth: true })).toEqual({
+      "node--article": {
+        $id: `${BASE_URL}/jsonapi/node/article/resource/schema`,
+      },
+      "user--user": {
+        $id: `${BASE_URL}/jsonapi/user/user/resource/schema`,
+      },
+    })
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(fetchSpy).toHaveBeenCalledWith(
+      `${BASE_URL}/jsonapi/node/article/resource/schema`,
+      { withAuth: true, signal: undefined, timeout: undefined }
+    )
+    expect(logger.debug).toHaveBeenCalledWith("Fetching 2 resource schemas.")
+  })
+
+  test("throws an error if a schema cannot be fetched", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    jest.spyOn(drupal, "getIndex").mockResolvedValue({
+      links: {
+        "node--article": { href: `${BASE_URL}/jsonapi/node/article` },
+      },
+    } as never)
+    jest
+      .spyOn(drupal, "fetch")
+      .mockResolvedValue(
+        new Response(null, { status: 404, statusText: "Not Found" })
+      )
+
+    await expect(fetchResourceSchemas(drupal)).rejects.toEqual(
+      new JsonApiErrors(
+        "Not Found",
+        404,
+        "Error while fetching schema of node--article:"
+      )
+    )
+  })
+
+  test("returns no schemas for an index without resource types", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    jest.spyOn(drupal, "getIndex").mockResolvedValue({} as never)
+
+    expect(await fetchResourceSchemas(drupal)).toEqual({})
+  })
+})
+
+describe("getResourceSchemas()", () => {
+  test("returns the schemas of a snapshot", () => {
+    expect(getResourceSchemas(schemas)).toBe(schemas)
+  })
+
+  test("returns the schemas of an OpenAPI document", () => {
+    const definitions = {
+      "node--page": {
+        type: "object",
+        properties: {
+          attributes: { $ref: "#/definitions/node--page--attributes" },
+        },
+      },
+      "node--page--attributes": {
+        type: "object",
+        properties: { title: { type: "string" } },
+      },
+      jsonapi: { type: "object" },
+    }
+
+    const result = getResourceSchemas({ swagger: "2.0", definitions })
+
+    expect(Object.keys(result)).toEqual(["node--page"])
+    expect(generateTypes(result)).toContain(
+      `export interface DrupalNodePage {
+  id: string
+  type: "node--page"
+  title: string | null
+}`
+    )
+  })
+
+  test("returns the schemas of the components of an OpenAPI 3 document", () => {
+    const components = {
+      schemas: {
+        "node--page": {
+          properties: {
+            attributes: {
+              $ref: "#/components/schemas/node--page--attributes",
+            },
+          },
+        },
+        "node--page--attributes": {
+          properties: { title: { type: "string" } },
+          required: ["title"],
+        },
+      },
+    }
+
+    const result = getResourceSchemas({ openapi: "3.0.0", components })
+
+    expect(Object.keys(result)).toEqual(["node--page"])
+    expect(generateTypes(result)).toContain("  title: string\n")
+  })
+
+  test("returns no schemas for an OpenAPI document without schemas", () => {
+    expect(getResourceSchemas({ openapi: "3.0.0" })).toEqual({})
+  })
+})
+
+describe("generateTypes()", () => {
+  test("generates the interfaces of resource types", () => {
+    expect(generateTypes(schemas)).toMatchInlineSnapshot(`
+"// This file is generated by \`next-drupal generate-types\`. Do not edit it,
+// run the command again to update it.
+
+import type { JsonApiResource } from "next-drupal"
+
+/** Article content item */
+export interface DrupalNodeArticle {
+  id: string
+  type: "node--article"
+  /** ID */
+  drupal_internal__nid: number | null
+  langcode: {
+    value?: string
+  } | null
+  /** Title */
+  title: string
+  /** Published */
+  status: boolean
+  /**
+   * Body
+   *
+   * The body of the *\\/ article.
+   */
+  body: {
+    /** Text */
+    value: string
+    format?: string | null
+    summary?: string
+  } | null
+  "field-rating": 1 | 2 | 3 | null
+  field_kind: "news" | "blog" | null
+  field_links: {
+    uri?: string
+    options?: Record<string, unknown>
+  }[]
+  field_dates: (string | null)[]
+  field_any: unknown
+  field_address: {
+    country_code?: string
+  } | null
+  field_subtitle: string | null
+  field_mixed: {
+    a?: string
+  } & (string | number) | null
+  field_list: unknown[]
+  field_unknown: unknown
+  field_missing: unknown
+  field_cycle: unknown
+  field_escaped: string | null
+  uid: DrupalUserUser
+  field_tags: (DrupalTaxonomyTermTags | JsonApiResource)[]
+  field_media: JsonApiResource | null
+  field_owner: JsonApiResource | null
+  field_related: JsonApiResource[]
+}
+
+/** Tags taxonomy term */
+export interface DrupalTaxonomyTermTags {
+  id: string
+  type: "taxonomy_term--tags"
+  name: string
+}
+
+export interface DrupalUserUser {
+  id: string
+  type: "user--user"
+}
+
+declare module "next-drupal" {
+  interface DrupalResourceTypes {
+    "node--article": DrupalNodeArticle
+    "taxonomy_term--tags": DrupalTaxonomyTermTags
+    "user--user": DrupalUserUser
+  }
+}
+"
+`)
+  })
+
+  test("adds a prefix to the interface names", () => {
+    const types = generateTypes(
+      { "user--user": { title: "User" } },
+      { prefix: "" }
+    )
+
+    expect(types).toContain("export interface UserUser {")
+    expect(types).toContain(`"user--user": UserUser`)
+  })
+
+  test("generates a module without resource types", () => {
+    expect(generateTypes({}))
+      .toBe(`// This file is generated by \`next-drupal generate-types\`. Do not edit it,
+// run the command again to update it.
+
+export {}
+
+declare module "next-drupal" {
+  interface DrupalResourceTypes {
+  }
+}
+`)
+  })
+})
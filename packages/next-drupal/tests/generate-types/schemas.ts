@@ -0,0 +1,153 @@
+import type { DrupalResourceSchemas } from "../../src"
+
+// Resource schemas of the JSON:API Schema module.
+export const schemas: DrupalResourceSchemas = {
+  "node--article": {
+    $schema: "https://json-schema.org/draft/2019-09/hyper-schema",
+    $id: "https://example.com/jsonapi/node/article/resource/schema",
+    allOf: [
+      {
+        type: "object",
+        properties: {
+          attributes: { $ref: "#/definitions/attributes" },
+          relationships: { $ref: "#/definitions/relationships" },
+        },
+      },
+      { $ref: "https://jsonapi.org/schema#/definitions/resource" },
+    ],
+    title: "Article content item",
+    definitions: {
+      attributes: {
+        type: "object",
+        properties: {
+          drupal_internal__nid: { type: "integer", title: "ID" },
+          langcode: {
+            type: "object",
+            properties: {
+              value: { type: "string" },
+            },
+          },
+          title: {
+            type: "string",
+            title: "Title",
+            maxLength: 255,
+          },
+          status: { type: "boolean", title: "Published" },
+          body: {
+            type: "object",
+            title: "Body",
+            description: "The body of the */ article.",
+            properties: {
+              value: { type: "string", title: "Text" },
+              format: { type: ["string", "null"] },
+              summary: { type: "string" },
+            },
+            required: ["value"],
+          },
+          "field-rating": { type: "number", enum: [1, 2, 3] },
+          field_kind: { anyOf: [{ const: "news" }, { const: "blog" }] },
+          field_links: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                uri: { type: "string" },
+                options: { type: "object" },
+              },
+            },
+          },
+          field_dates: {
+            type: "array",
+            items: { type: ["string", "null"] },
+          },
+          field_any: {},
+          field_address: {
+            properties: { country_code: { type: "string" } },
+          },
+          field_subtitle: { type: ["string", "null"] },
+          field_mixed: {
+            allOf: [
+              { type: "object", properties: { a: { type: "string" } } },
+              { oneOf: [{ type: "string" }, { type: "number" }] },
+            ],
+          },
+          field_list: { type: "array" },
+          field_unknown: { type: "custom" },
+          field_missing: { $ref: "#/definitions/missing" },
+          field_cycle: { $ref: "#/definitions/cycle" },
+          field_escaped: { $ref: "#/definitions/a~1b~0c" },
+        },
+        required: ["title", "status"],
+      },
+      cycle: { $ref: "#/definitions/cycle" },
+      "a/b~c": { type: "string" },
+      relationships: {
+        type: "object",
+        properties: {
+          uid: {
+            type: "object",
+            properties: {
+              data: {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["user--user"] },
+                  id: { type: "string", format: "uuid" },
+                },
+              },
+            },
+          },
+          field_tags: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    type: {
+                      type: "string",
+                      enum: ["taxonomy_term--tags", "taxonomy_term--topics"],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          field_media: {
+            type: "object",
+            properties: {
+              data: {
+                oneOf: [
+                  { type: "null" },
+                  {
+                    type: "object",
+                    properties: { type: { const: "media--image" } },
+                  },
+                ],
+              },
+            },
+          },
+          field_owner: { type: "object" },
+          field_related: {
+            type: "object",
+            properties: {
+              data: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+        required: ["uid"],
+      },
+    },
+  },
+  "taxonomy_term--tags": {
+    title: "Tags taxonomy term",
+    properties: {
+      attributes: {
+        type: "object",
+        properties: { name: { type: "string" } },
+        required: ["name"],
+      },
+    },
+  },
+  "user--user": {},
+}
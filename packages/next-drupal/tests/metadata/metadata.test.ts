@@ -0,0 +1,244 @@
+import { describe, expect, test } from "@jest/globals"
+import { createElement, Fragment } from "react"
+import { renderToStaticMarkup } from "react-dom/server"
+import { toHeadElements, toNextMetadata } from "../../src"
+import type { DrupalMetatag } from "../../src"
+
+const BASE_URL = "https://example.com"
+
+function meta(
+  name: string,
+  content: string,
+  attribute = name.startsWith("og:") || name.startsWith("article:")
+    ? "property"
+    : "name"
+): DrupalMetatag {
+  return { tag: "meta", attributes: { [attribute]: name, content } }
+}
+
+function link(rel: string, href: string, hreflang?: string): DrupalMetatag {
+  return {
+    tag: "link",
+    attributes: { rel, href, ...(hreflang && { hreflang }) },
+  }
+}
+
+const metatag: DrupalMetatag[] = [
+  meta("title", "About | Example"),
+  meta("description", "About us."),
+  meta("keywords", "about, company"),
+  meta("robots", "index, follow"),
+  meta("abstract", "About the company."),
+  link("canonical", "/about"),
+  link("alternate", "https://example.com/es/sobre", "es"),
+  link("alternate", "/about", "x-default"),
+  link("shortlink", "/node/1"),
+  meta("og:title", "About"),
+  meta("og:description", "About the company."),
+  meta("og:url", "/about"),
+  meta("og:site_name", "Example"),
+  meta("og:type", "article"),
+  meta("og:locale", "en_US"),
+  meta("og:locale:alternate", "es_ES"),
+  meta("og:image", "/sites/default/files/about.jpg"),
+  meta("og:image:width", "1200"),
+  meta("og:image:height", "630"),
+  meta("og:image:alt", "The team"),
+  meta("og:image:url", "https://cdn.example.com/logo.png"),
+  meta("og:image:secure_url", "//cdn.example.com/logo.png"),
+  meta("og:image:type", "image/png"),
+  meta("og:audio", "/about.mp3"),
+  meta("article:published_time", "2024-01-01T10:00:00+00:00"),
+  meta("article:modified_time", "2024-02-01T10:00:00+00:00"),
+  meta("article:section", "Company"),
+  meta("article:tag", "about"),
+  meta("article:tag", "team"),
+  meta("twitter:card", "summary_large_image"),
+  meta("twitter:title", "About"),
+  meta("twitter:site", "@example"),
+  meta("twitter:creator:id", "1234"),
+  meta("twitter:image", "/sites/default/files/about.jpg"),
+  meta("twitter:image:alt", "The team"),
+  meta("twitter:label1", "Reading time"),
+]
+
+describe("toNextMetadata()", () => {
+  test("converts metatags to metadata", () => {
+    expect(
+      toNextMetadata({ title: "About", metatag }, { baseUrl: BASE_URL })
+    ).toEqual({
+      title: "About | Example",
+      description: "About us.",
+      keywords: ["about", "company"],
+      robots: "index, follow",
+      alternates: {
+        canonical: `${BASE_URL}/about`,
+        languages: {
+          es: `${BASE_URL}/es/sobre`,
+          "x-default": `${BASE_URL}/about`,
+        },
+      },
+      openGraph: {
+        title: "About",
+        description: "About the company.",
+        url: `${BASE_URL}/about`,
+        siteName: "Example",
+        type: "article",
+        locale: "en_US",
+        alternateLocale: ["es_ES"],
+        images: [
+          {
+            url: `${BASE_URL}/sites/default/files/about.jpg`,
+            width: 1200,
+            height: 630,
+            alt: "The team",
+          },
+          {
+            url: "https://cdn.example.com/logo.png",
+            secureUrl: "//cdn.example.com/logo.png",
+            type: "image/png",
+          },
+        ],
+        publishedTime: "2024-01-01T10:00:00+00:00",
+        modifiedTime: "2024-02-01T10:00:00+00:00",
+        section: "Company",
+        tags: ["about", "team"],
+      },
+      twitter: {
+        card: "summary_large_image",
+        title: "About",
+        site: "@example",
+        creatorId: "1234",
+        images: [
+          {
+            url: `${BASE_URL}/sites/default/files/about.jpg`,
+            alt: "The team",
+          },
+        ],
+      },
+      other: {
+        abstract: "About the company.",
+      },
+    })
+  })
+
+  test("returns the title of resources without metatags", () => {
+    expect(toNextMetadata({ title: "About" })).toEqual({ title: "About" })
+    expect(toNextMetadata({ title: "About", metatag: null })).toEqual({
+      title: "About",
+    })
+  })
+
+  test("does not change URLs without a base URL", () => {
+    expect(
+      toNextMetadata({
+        metatag: [link("canonical", "/about"), meta("og:image", "/about.jpg")],
+      })
+    ).toEqual({
+      title: undefined,
+      alternates: { canonical: "/about" },
+      openGraph: { images: [{ url: "/about.jpg" }] },
+    })
+  })
+
+  test("resolves URLs against the base path of the base URL", () => {
+    for (const baseUrl of [`${BASE_URL}/site`, `${BASE_URL}/site/`]) {
+      expect(
+        toNextMetadata(
+          {
+            metatag: [
+              link("canonical", "/node/1"),
+              link("alternate", "/", "x-default"),
+              meta("og:image", "about.jpg"),
+              meta("og:url", `${BASE_URL}/about`),
+            ],
+          },
+          { baseUrl }
+        )
+      ).toEqual({
+        title: undefined,
+        alternates: {
+          canonical: `${BASE_URL}/site/node/1`,
+          languages: { "x-default": `${BASE_URL}/site/` },
+        },
+        openGraph: {
+          url: `${BASE_URL}/about`,
+          images: [{ url: `${BASE_URL}/site/about.jpg` }],
+        },
+      })
+    }
+  })
+
+  test("ignores invalid metatags", () => {
+    expect(
+      toNextMetadata({
+        title: "About",
+        metatag: [
+          link("alternate", "/feed.xml"),
+          { tag: "script", attributes: { src: "/script.js" } },
+          { tag: "meta", attributes: { charset: "utf-8" } },
+          { tag: "meta", attributes: { name: "description" } },
+          meta("og:image:width", "1200"),
+          meta("twitter:image:alt", "The team"),
+        ],
+      })
+    ).toEqual({ title: "About" })
+  })
+})
+
+describe("toHeadElements()", () => {
+  test("converts metatags to head elements", () => {
+    const elements = toHeadElements(
+      {
+        title: "About",
+        metatag: [
+          meta("title", "About | Example"),
+          meta("description", "About us."),
+          link("canonical", "/about"),
+          link("alternate", "/es/sobre", "es"),
+          meta("og:image", "/about.jpg"),
+          meta("og:image", "https://cdn.example.com/logo.png"),
+          meta("og:image", "/team.jpg"),
+          {
+            tag: "meta",
+            attributes: { "http-equiv": "refresh", content: "30" },
+          },
+          { tag: "script", attributes: { src: "/script.js" } },
+        ],
+      },
+      { baseUrl: `${BASE_URL}/` }
+    )
+
+    expect(elements.map(({ key }) => key)).toEqual([
+      "title",
+      "description",
+      "canonical",
+      "alternate:es",
+      "og:image",
+      "og:image_2",
+      "og:image_3",
+      "refresh",
+    ])
+    expect(renderToStaticMarkup(createElement(Fragment, null, elements))).toBe(
+      [
+        `<title>About | Example</title>`,
+        `<meta name="description" content="About us."/>`,
+        `<link rel="canonical" href="${BASE_URL}/about"/>`,
+        `<link rel="alternate" href="${BASE_URL}/es/sobre" hrefLang="es"/>`,
+        `<meta property="og:image" content="${BASE_URL}/about.jpg"/>`,
+        `<meta property="og:image" content="https://cdn.example.com/logo.png"/>`,
+        `<meta property="og:image" content="${BASE_URL}/team.jpg"/>`,
+        `<meta http-equiv="refresh" content="30"/>`,
+      ].join("")
+    )
+  })
+
+  test("returns the title of resources without metatags", () => {
+    expect(
+      renderToStaticMarkup(
+        createElement(Fragment, null, toHeadElements({ title: "About" }))
+      )
+    ).toBe("<title>About</title>")
+    expect(toHeadElements({})).toEqual([])
+  })
+})
@@ -0,0 +1,289 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import { NextRequest } from "next/server"
+import { NextDrupal } from "../../src"
+import { createRedirectMiddleware } from "../../src/middleware"
+import { MockDrupalServer } from "../../src/testing"
+import { BASE_URL, mockLogger } from "../utils"
+import { options } from "../MockDrupalServer/resources"
+import type { Fetcher, RedirectMiddlewareOptions } from "../../src"
+
+const SITE_URL = "https://example.com"
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+const server = new MockDrupalServer({
+  ...options,
+  resources: [
+    ...options.resources,
+    {
+      type: "node--page",
+      id: "no-alias",
+      attributes: { drupal_internal__nid: 10, status: true, langcode: "en" },
+    },
+    { type: "node--page", id: "no-id", attributes: { status: true } },
+  ],
+  redirects: [
+    { from: "/old", to: "/articles/first" },
+    { from: "/old.html", to: "/articles/first" },
+    { from: "/temporary", to: "/articles/second?from=old", status: 302 },
+    { from: "/multiple", to: "/articles/first", status: 300 },
+    { from: "/external", to: "https://example.org/first" },
+  ],
+})
+
+function createMiddleware(
+  middlewareOptions?: RedirectMiddlewareOptions,
+  drupalFetcher: Fetcher = server.fetch
+) {
+  const fetcher = jest.fn(drupalFetcher)
+  const logger = mockLogger()
+  const drupal = new NextDrupal(BASE_URL, {
+    fetcher,
+    logger,
+  })
+
+  return {
+    middleware: createRedirectMiddleware(drupal, middlewareOptions),
+    fetcher,
+    logger,
+  }
+}
+
+function request(
+  path: string,
+  init?: ConstructorParameters<typeof Request>[1]
+) {
+  return new NextRequest(`${SITE_URL}${path}`, init)
+}
+
+function getRedirect(response: Response | undefined) {
+  return response && [response.status, response.headers.get("Location")]
+}
+
+describe("createRedirectMiddleware()", () => {
+  test("redirects paths of the Redirect module", async () => {
+    const { middleware } = createMiddleware()
+
+    expect(getRedirect(await middleware(request("/old?a=1")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first?a=1`,
+    ])
+    expect(getRedirect(await middleware(request("/temporary?a=1")))).toEqual([
+      302,
+      `${SITE_URL}/articles/second?from=old`,
+    ])
+    expect(getRedirect(await middleware(request("/multiple")))).toEqual([
+      302,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(getRedirect(await middleware(request("/external")))).toEqual([
+      301,
+      "https://example.org/first",
+    ])
+  })
+
+  test("redirects system paths to the alias", async () => {
+    const { middleware } = createMiddleware()
+
+    expect(getRedirect(await middleware(request("/node/1")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(getRedirect(await middleware(request("/es/node/1")))).toEqual([
+      301,
+      `${SITE_URL}/es/articulos/primero`,
+    ])
+  })
+
+  test("does not redirect aliases", async () => {
+    const { middleware } = createMiddleware()
+
+    for (const path of [
+      "/articles/first",
+      "/es/articulos/primero",
+      "/",
+      "/node/4",
+      "/node/10",
+      "/missing",
+    ]) {
+      expect(await middleware(request(path))).toBeUndefined()
+    }
+  })
+
+  test("does not redirect aliases if redirectAliases is false", async () => {
+    const { middleware } = createMiddleware({ redirectAliases: false })
+
+    expect(await middleware(request("/node/1"))).toBeUndefined()
+    expect(getRedirect(await middleware(request("/old")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+  })
+
+  test("does not redirect requests that are not GET or HEAD", async () => {
+    const { middleware, fetcher } = createMiddleware()
+
+    expect(
+      await middleware(request("/old", { method: "POST" }))
+    ).toBeUndefined()
+    expect(
+      getRedirect(await middleware(request("/old", { method: "HEAD" })))
+    ).toEqual([301, `${SITE_URL}/articles/first`])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  test("does not translate assets, API routes and files", async () => {
+    const { middleware, fetcher } = createMiddleware()
+
+    for (const path of [
+      "/_next/static/chunks/main.js",
+      "/api",
+      "/api/revalidate",
+      "/favicon.ico",
+      "/files/report.pdf",
+    ]) {
+      expect(await middleware(request(path))).toBeUndefined()
+    }
+    expect(fetcher).not.toHaveBeenCalled()
+  })
+
+  test("does not translate paths skipped by skipPath", async () => {
+    const { middleware, fetcher } = createMiddleware({
+      skipPath: (pathname) => pathname === "/old",
+    })
+
+    expect(await middleware(request("/old"))).toBeUndefined()
+    expect(getRedirect(await middleware(request("/old.html")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  test("keeps the trailing slash of the path", async () => {
+    // The mock server translates paths without their trailing slash.
+    const { middleware } = createMiddleware(undefined, async (input, init) =>
+      server.fetch(String(input).replace(/%2F(&|$)/, "$1"), init)
+    )
+
+    expect(getRedirect(await middleware(request("/node/1/")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first/`,
+    ])
+    expect(getRedirect(await middleware(request("/old/")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first/`,
+    ])
+    expect(await middleware(request("/articles/first/"))).toBeUndefined()
+  })
+
+  test("removes the base path of Drupal from aliases and redirects", async () => {
+    const redirects = {
+      "/old": "/drupal/articles/first",
+      "/front": "/drupal",
+    }
+    const middleware = createRedirectMiddleware(
+      new NextDrupal(`${BASE_URL}/drupal`, {
+        fetcher: async (input) => {
+          const path = new URL(String(input)).searchParams.get("path")
+
+          return Response.json({
+            resolved: `${BASE_URL}/drupal/articles/first`,
+            isHomePath: false,
+            entity: { type: "node", bundle: "article", id: "1" },
+            redirect: redirects[path] && [
+              { from: path, to: redirects[path], status: "301" },
+            ],
+          })
+        },
+      })
+    )
+
+    expect(getRedirect(await middleware(request("/node/1")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(getRedirect(await middleware(request("/old")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(getRedirect(await middleware(request("/front")))).toEqual([
+      301,
+      `${SITE_URL}/`,
+    ])
+    expect(await middleware(request("/articles/first"))).toBeUndefined()
+    expect(await middleware(request("/articles/first/"))).toBeUndefined()
+  })
+
+  test("adds the base path and locale", async () => {
+    const { middleware } = createMiddleware()
+    const nextConfig = {
+      basePath: "/docs",
+      i18n: { locales: ["en", "es"], defaultLocale: "en" },
+    }
+
+    expect(
+      getRedirect(
+        await middleware(
+          new NextRequest(`${SITE_URL}/docs/es/node/1`, { nextConfig })
+        )
+      )
+    ).toEqual([301, `${SITE_URL}/docs/es/articulos/primero`])
+    expect(
+      getRedirect(
+        await middleware(
+          new NextRequest(`${SITE_URL}/docs/old`, { nextConfig })
+        )
+      )
+    ).toEqual([301, `${SITE_URL}/docs/articles/first`])
+  })
+
+  test("caches the redirects of paths", async () => {
+    jest.useFakeTimers()
+    const { middleware, fetcher } = createMiddleware({
+      cacheSize: 2,
+      cacheTtl: 10,
+    })
+
+    await Promise.all([
+      middleware(request("/old")),
+      middleware(request("/old")),
+    ])
+    await middleware(request("/articles/first"))
+    await middleware(request("/old"))
+    expect(fetcher).toHaveBeenCalledTimes(2)
+
+    // The least recently used path is removed from the cache.
+    await middleware(request("/node/1"))
+    await middleware(request("/old"))
+    await middleware(request("/articles/first"))
+    expect(fetcher).toHaveBeenCalledTimes(4)
+
+    jest.advanceTimersByTime(10000)
+    expect(getRedirect(await middleware(request("/old")))).toEqual([
+      301,
+      `${SITE_URL}/articles/first`,
+    ])
+    expect(fetcher).toHaveBeenCalledTimes(5)
+  })
+
+  test("does not redirect paths that fail to translate", async () => {
+    const { middleware, fetcher, logger } = createMiddleware(
+      undefined,
+      async () => {
+        throw new Error("Network error")
+      }
+    )
+
+    expect(await middleware(request("/old"))).toBeUndefined()
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to resolve the redirect of /old: Network error"
+    )
+
+    // Failed translations are not cached.
+    expect(await middleware(request("/old"))).toBeUndefined()
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import { permanentRedirect, redirect } from "next/navigation"
+import {
+  getRedirect,
+  getRedirectProps,
+  NextDrupal,
+  NextDrupalPages,
+  RedirectError,
+} from "../../src"
+import { followRedirect } from "../../src/redirect"
+import { MockDrupalServer } from "../../src/testing"
+import { BASE_URL } from "../utils"
+import { options } from "../MockDrupalServer/resources"
+import type { DrupalTranslatedPath, MockDrupalRedirect } from "../../src"
+
+jest.mock("next/navigation", () => ({
+  permanentRedirect: jest.fn(),
+  redirect: jest.fn(),
+}))
+
+afterEach(() => {
+  jest.clearAllMocks()
+})
+
+const redirects: MockDrupalRedirect[] = [
+  { from: "/old", to: "/articles/first" },
+  { from: "/temporary", to: "/articles/second", status: 302 },
+  { from: "/external", to: "https://example.com/first" },
+]
+
+function createServer() {
+  return new MockDrupalServer({ ...options, redirects })
+}
+
+describe("RedirectError", () => {
+  test("has the redirect", () => {
+    const error = new RedirectError({ from: "/old", to: "/new", status: 301 })
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({
+      name: "RedirectError",
+      message: "/old redirects to /new with status 301.",
+      from: "/old",
+      to: "/new",
+      status: 301,
+    })
+  })
+})
+
+describe("getRedirect()", () => {
+  test("returns the redirect of a translated path", () => {
+    expect(
+      getRedirect({
+        redirect: [{ from: "/old", to: "/new", status: "302" }],
+      })
+    ).toEqual({ from: "/old", to: "/new", status: 302 })
+  })
+
+  test("returns a chain of redirects as one redirect", () => {
+    expect(
+      getRedirect({
+        redirect: [
+          { from: "/old", to: "/older", status: "301" },
+          { from: "/older", to: "/new", status: "302" },
+        ],
+      })
+    ).toEqual({ from: "/old", to: "/new", status: 301 })
+  })
+
+  test("returns null for paths without redirects", () => {
+    expect(getRedirect({ redirect: [] })).toBeNull()
+    expect(getRedirect({} as DrupalTranslatedPath)).toBeNull()
+    expect(getRedirect(null)).toBeNull()
+  })
+})
+
+describe("getRedirectProps()", () => {
+  test("returns the redirect props", () => {
+    expect(getRedirectProps({ from: "/old", to: "/new", status: 301 })).toEqual(
+      { redirect: { destination: "/new", statusCode: 301 } }
+    )
+    expect(getRedirectProps({ from: "/old", to: "/new", status: 307 })).toEqual(
+      { redirect: { destination: "/new", statusCode: 307 } }
+    )
+  })
+
+  test("sends unsupported status codes as 302", () => {
+    expect(getRedirectProps({ from: "/old", to: "/new", status: 300 })).toEqual(
+      { redirect: { destination: "/new", statusCode: 302 } }
+    )
+  })
+})
+
+describe("followRedirect()", () => {
+  test("redirects permanently", () => {
+    for (const status of [301, 308]) {
+      followRedirect({ from: "/old", to: "/new", status })
+    }
+
+    expect(permanentRedirect).toHaveBeenCalledTimes(2)
+    expect(permanentRedirect).toHaveBeenCalledWith("/new")
+  })
+
+  test("redirects temporarily", () => {
+    for (const status of [302, 303, 307]) {
+      followRedirect({ from: "/old", to: "/new", status })
+    }
+
+    expect(permanentRedirect).not.toHaveBeenCalled()
+    expect(redirect).toHaveBeenCalledTimes(3)
+    expect(redirect).toHaveBeenCalledWith("/new")
+  })
+})
+
+describe("redirects of the client", () => {
+  test("translates paths that redirect", async () => {
+    const drupal = new NextDrupal(BASE_URL, { fetcher: createServer().fetch })
+
+    expect(await drupal.translatePath("/temporary")).toMatchObject({
+      resolved: `${BASE_URL}/articles/second`,
+      redirect: [{ from: "/temporary", to: "/articles/second", status: "302" }],
+    })
+    expect(await drupal.translatePath("/external")).toEqual({
+      resolved: "https://example.com/first",
+      redirect: [
+        { from: "/external", to: "https://example.com/first", status: "301" },
+      ],
+    })
+  })
+
+  test("throws a RedirectError for paths that redirect", async () => {
+    const fetcher = createServer().fetch
+    const drupal = new NextDrupal(BASE_URL, { fetcher })
+    const subrequests = new NextDrupal(BASE_URL, {
+      fetcher,
+      useSubrequests: true,
+    })
+
+    for (const client of [drupal, subrequests]) {
+      await expect(client.getResourceByPath("/old")).rejects.toMatchObject({
+        name: "RedirectError",
+        from: "/old",
+        to: "/articles/first",
+        status: 301,
+      })
+      await expect(client.getResourceByPath("/external")).rejects.toThrow(
+        new RedirectError({
+          from: "/external",
+          to: "https://example.com/first",
+          status: 301,
+        })
+      )
+      expect(await client.getResourceByPath("/articles/first")).toMatchObject({
+        path: { alias: "/articles/first" },
+      })
+    }
+  })
+
+  test("throws a RedirectError for pages that redirect", async () => {
+    const drupal = new NextDrupalPages(BASE_URL, {
+      fetcher: createServer().fetch,
+    })
+    const context = { params: { slug: ["temporary"] } }
+
+    await expect(
+      drupal.getResourceFromContext(
+        await drupal.translatePathFromContext(context),
+        context
+      )
+    ).rejects.toMatchObject({ to: "/articles/second", status: 302 })
+    await expect(
+      drupal.getResourceFromContext("node--article", context)
+    ).rejects.toBeInstanceOf(RedirectError)
+  })
+})
@@ -0,0 +1,553 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import { revalidatePath, revalidateTag } from "next/cache"
+import { Readable } from "node:stream"
+import { createSignature, NextDrupal, SIGNATURE_HEADER } from "../../src"
+import { createRevalidateHandler, revalidateTags } from "../../src/revalidate"
+import { BASE_URL } from "../utils"
+import type { NextApiRequest, NextApiResponse } from "next"
+
+jest.mock("next/cache", () => ({
+  revalidatePath: jest.fn(),
+  revalidateTag: jest.fn(),
+}))
+
+afterEach(() => {
+  jest.clearAllMocks()
+  jest.restoreAllMocks()
+})
+
+const secret = "very-secret-key"
+
+function mockPagesRequest({
+  query = {},
+  body = "",
+  headers = {},
+}: {
+  query?: Record<string, string | string[]>
+  body?: unknown
+  headers?: NextApiRequest["headers"]
+}) {
+  const searchParams = new URLSearchParams(
+    Object.entries(query).flatMap(([name, values]) =>
+      [values].flat().map((value) => [name, value])
+    )
+  )
+  return {
+    method: "POST",
+    url: `/api/revalidate?${searchParams}`,
+    query,
+    body,
+    headers,
+  } as unknown as NextApiRequest
+}
+
+function mockPagesResponse() {
+  const response = {
+    statusCode: 200,
+    body: undefined,
+    status: jest.fn((statusCode: number) => {
+      response.statusCode = statusCode
+      return response
+    }),
+    json: jest.fn((body) => {
+      response.body = body
+    }),
+    revalidate: jest.fn(async (path: string) => {
+      if (path === "/missing") {
+        throw new Error("Failed to revalidate /missing")
+      }
+    }),
+  }
+  return response as unknown as NextApiResponse & {
+    body: unknown
+    revalidate: jest.Mock<NextApiResponse["revalidate"]>
+  }
+}
+
+describe("revalidateTags()", () => {
+  test("revalidates each tag once", async () => {
+    await expect(
+      revalidateTags(["node:1", "node_list", "node:1"])
+    ).resolves.toEqual(["node:1", "node_list"])
+
+    expect(revalidateTag).toHaveBeenCalledTimes(2)
+    expect(revalidateTag).toHaveBeenCalledWith("node:1")
+    expect(revalidateTag).toHaveBeenCalledWith("node_list")
+  })
+
+  test("invalidates the tags in the client cache", async () => {
+    const drupal = new NextDrupal(BASE_URL)
+    const invalidateTagsSpy = jest
+      .spyOn(drupal, "invalidateTags")
+      .mockResolvedValue([])
+
+    await revalidateTags(["node:1"], drupal)
+
+    expect(invalidateTagsSpy).toHaveBeenCalledWith(["node:1"])
+  })
+})
+
+describe("createRevalidateHandler()", () => {
+  describe("App Router", () => {
+    const handler = createRevalidateHandler({ secret })
+
+    test("rejects an invalid secret", async () => {
+      const response = await handler(
+        new Request(
+          `https://example.com/api/revalidate?secret=${secret}-foo&path=/`
+        )
+      )
+
+      expect(response.status).toBe(401)
+      await expect(response.text()).resolves.toBe("Invalid secret.")
+      expect(revalidatePath).not.toHaveBeenCalled()
+    })
+
+    test("rejects requests without a secret", async () => {
+      const response = await handler(
+        new Request("https://example.com/api/revalidate?path=/")
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    test("rejects requests if no secret is configured", async () => {
+      const response = await createRevalidateHandler({ secret: "" })(
+        new Request("https://example.com/api/revalidate?secret=&path=/")
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    test("uses the DRUPAL_REVALIDATE_SECRET environment variable", async () => {
+      process.env.DRUPAL_REVALIDATE_SECRET = secret
+
+      const response = await createRevalidateHandler()(
+        new Request(
+          `https://example.com/api/revalidate?secret=${secret}&path=/`
+        )
+      )
+
+      delete process.env.DRUPAL_REVALIDATE_SECRET
+
+      expect(response.status).toBe(200)
+    })
+
+    test("revalidates the path sent by the Path revalidator", async () => {
+      const now = Date.now()
+      jest.spyOn(Date, "now").mockReturnValue(now)
+
+      const response = await handler(
+        new Request(
+          `https://example.com/api/revalidate?path=/node/1&secret=${secret}`
+        )
+      )
+
+      expect(response.status).toBe(200)
+      await expect(response.json()).resolves.toEqual({
+        revalidated: true,
+        now,
+        paths: ["/node/1"],
+        tags: [],
+        errors: [],
+      })
+      expect(revalidatePath).toHaveBeenCalledWith("/node/1")
+    })
+
+    test("revalidates a batch of paths and tags", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const invalidateTagsSpy = jest
+        .spyOn(drupal, "invalidateTags")
+        .mockResolvedValue([])
+
+      const response = await createRevalidateHandler({ drupal, secret })(
+        new Request(
+          `https://example.com/api/revalidate?secret=${secret}&tags=node_list`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              path: "/",
+              paths: ["/node/1", "/blog", "/node/1"],
+              tags: ["node:1"],
+            }),
+          }
+        )
+      )
+
+      await expect(response.json()).resolves.toMatchObject({
+        revalidated: true,
+        paths: ["/", "/node/1", "/blog"],
+        tags: ["node_list", "node:1"],
+      })
+      expect(revalidatePath).toHaveBeenCalledTimes(3)
+      expect(revalidateTag).toHaveBeenCalledWith("node_list")
+      expect(revalidateTag).toHaveBeenCalledWith("node:1")
+      expect(invalidateTagsSpy).toHaveBeenCalledWith(["node:1"])
+    })
+
+    test("accepts a space-separated list of tags in the JSON body", async () => {
+      const response = await handler(
+        new Request(`https://example.com/api/revalidate?secret=${secret}`, {
+          method: "POST",
+          body: JSON.stringify({ tags: "node:1 node_list" }),
+        })
+      )
+
+      await expect(response.json()).resolves.toMatchObject({
+        tags: ["node:1", "node_list"],
+      })
+    })
+
+    test("accepts an empty POST body", async () => {
+      const response = await handler(
+        new Request(
+          `https://example.com/api/revalidate?secret=${secret}&path=/`,
+          { method: "POST" }
+        )
+      )
+
+      expect(response.status).toBe(200)
+    })
+
+    test("rejects an invalid JSON body", async () => {
+      const response = await handler(
+        new Request(`https://example.com/api/revalidate?secret=${secret}`, {
+          method: "POST",
+          body: "/node/1",
+        })
+      )
+
+      expect(response.status).toBe(400)
+      await expect(response.text()).resolves.toBe("Invalid JSON body.")
+    })
+
+    test("rejects requests without valid paths or tags", async () => {
+      const post = (body: unknown) =>
+        handler(
+          new Request(`https://example.com/api/revalidate?secret=${secret}`, {
+            method: "POST",
+            body: JSON.stringify(body),
+          })
+        )
+
+      const empty = await post(null)
+      const invalidPath = await post({ paths: ["node/1"] })
+      const invalidTag = await post({ tags: [1] })
+
+      expect(empty.status).toBe(400)
+      await expect(empty.text()).resolves.toBe("Invalid path or tags.")
+      expect(invalidPath.status).toBe(400)
+      await expect(invalidPath.text()).resolves.toBe("Invalid path.")
+      expect(invalidTag.status).toBe(400)
+      await expect(invalidTag.text()).resolves.toBe("Invalid tags.")
+    })
+
+    test("reports errors", async () => {
+      jest.mocked(revalidatePath).mockImplementationOnce(() => {
+        throw new Error("Failed to revalidate /node/1")
+      })
+      jest.mocked(revalidateTag).mockImplementationOnce(() => {
+        throw new Error("Failed to revalidate node:1")
+      })
+
+      const response = await handler(
+        new Request(`https://example.com/api/revalidate?secret=${secret}`, {
+          method: "POST",
+          body: JSON.stringify({
+            paths: ["/node/1", "/node/2"],
+            tags: ["node:1", "node:2"],
+          }),
+        })
+      )
+
+      expect(response.status).toBe(500)
+      await expect(response.json()).resolves.toMatchObject({
+        revalidated: false,
+        paths: ["/node/2"],
+        tags: ["node:2"],
+        errors: [
+          { path: "/node/1", message: "Failed to revalidate /node/1" },
+          { tag: "node:1", message: "Failed to revalidate node:1" },
+        ],
+      })
+    })
+
+    test("validates signed requests", async () => {
+      const handler = createRevalidateHandler({
+        secret,
+        signingSecret: secret,
+      })
+      const body = JSON.stringify({ paths: ["/node/1"] })
+      const signature = await createSignature(secret, {
+        method: "POST",
+        path: "/api/revalidate",
+        searchParams: "tags=node:1",
+        body,
+      })
+      const request = (signature: string) =>
+        new Request("https://example.com/api/revalidate?tags=node:1", {
+          method: "POST",
+          headers: { [SIGNATURE_HEADER]: signature },
+          body,
+        })
+
+      const signed = await handler(request(signature))
+      const tampered = await handler(
+        new Request("https://example.com/api/revalidate?tags=node:2", {
+          method: "POST",
+          headers: { [SIGNATURE_HEADER]: signature },
+          body,
+        })
+      )
+      const otherPath = await handler(
+        new Request("https://example.com/api/draft?tags=node:1", {
+          method: "POST",
+          headers: { [SIGNATURE_HEADER]: signature },
+          body,
+        })
+      )
+      const unsigned = await handler(
+        new Request(
+          `https://example.com/api/revalidate?secret=${secret}&path=/`
+        )
+      )
+
+      expect(signed.status).toBe(200)
+      await expect(signed.json()).resolves.toMatchObject({
+        paths: ["/node/1"],
+        tags: ["node:1"],
+      })
+      expect(tampered.status).toBe(401)
+      await expect(tampered.text()).resolves.toBe("Invalid signature.")
+      expect(unsigned.status).toBe(401)
+      expect(otherPath.status).toBe(401)
+    })
+
+    test("rejects replayed signed requests", async () => {
+      const handler = createRevalidateHandler({
+        signingSecret: secret,
+        signatureMaxAge: 60,
+      })
+      const signature = await createSignature(
+        secret,
+        { path: "/api/revalidate", searchParams: "path=/" },
+        Math.floor(Date.now() / 1000) - 61
+      )
+
+      const response = await handler(
+        new Request(
+          `https://example.com/api/revalidate?path=/&signature=${encodeURIComponent(signature)}`
+        )
+      )
+
+      expect(response.status).toBe(401)
+    })
+
+    test("adds the default locale to paths without a locale prefix", async () => {
+      const response = await createRevalidateHandler({
+        secret,
+        locales: ["en", "es"],
+        defaultLocale: "en",
+      })(
+        new Request(`https://example.com/api/revalidate?secret=${secret}`, {
+          method: "POST",
+          body: JSON.stringify({ paths: ["/", "/node/1", "/es/node/1"] }),
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(revalidatePath).toHaveBeenCalledWith("/en")
+      expect(revalidatePath).toHaveBeenCalledWith("/en/node/1")
+      expect(revalidatePath).toHaveBeenCalledWith("/es/node/1")
+    })
+  })
+
+  describe("Pages Router", () => {
+    const handler = createRevalidateHandler({ secret })
+
+    test("rejects an invalid secret", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({ query: { secret: "foo", path: "/" } }),
+        response
+      )
+
+      expect(response.statusCode).toBe(401)
+      expect(response.body).toEqual({ message: "Invalid secret." })
+      expect(response.revalidate).not.toHaveBeenCalled()
+    })
+
+    test("revalidates the path sent by the Path revalidator", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({ query: { secret, path: "/node/1" } }),
+        response
+      )
+
+      expect(response.statusCode).toBe(200)
+      expect(response.body).toMatchObject({
+        revalidated: true,
+        paths: ["/node/1"],
+      })
+      expect(response.revalidate).toHaveBeenCalledWith("/node/1")
+    })
+
+    test("revalidates a batch of paths", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({
+          query: { secret: [secret], path: ["/", "/blog"] },
+          body: { paths: ["/node/1"] },
+        }),
+        response
+      )
+
+      expect(response.body).toMatchObject({
+        paths: ["/", "/blog", "/node/1"],
+      })
+    })
+
+    test("parses JSON bodies sent without a content type", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({
+          query: { secret },
+          body: JSON.stringify({ paths: ["/node/1"] }),
+        }),
+        response
+      )
+
+      expect(response.revalidate).toHaveBeenCalledWith("/node/1")
+    })
+
+    test("rejects an invalid JSON body", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({ query: { secret }, body: "/node/1" }),
+        response
+      )
+
+      expect(response.statusCode).toBe(400)
+      expect(response.body).toEqual({ message: "Invalid JSON body." })
+    })
+
+    test("removes the default locale from paths", async () => {
+      const response = mockPagesResponse()
+
+      await createRevalidateHandler({
+        secret,
+        locales: ["en", "es"],
+        defaultLocale: "en",
+      })(
+        mockPagesRequest({
+          query: { secret },
+          body: { paths: ["/en", "/en/node/1", "/es/node/1"] },
+        }),
+        response
+      )
+
+      expect(response.revalidate).toHaveBeenCalledWith("/")
+      expect(response.revalidate).toHaveBeenCalledWith("/node/1")
+      expect(response.revalidate).toHaveBeenCalledWith("/es/node/1")
+    })
+
+    test("invalidates tags in the client cache", async () => {
+      const drupal = new NextDrupal(BASE_URL)
+      const invalidateTagsSpy = jest
+        .spyOn(drupal, "invalidateTags")
+        .mockResolvedValue([])
+      const response = mockPagesResponse()
+
+      await createRevalidateHandler({ drupal, secret })(
+        mockPagesRequest({ query: { secret, tags: "node:1 node_list" } }),
+        response
+      )
+
+      expect(response.body).toMatchObject({ tags: ["node:1", "node_list"] })
+      expect(invalidateTagsSpy).toHaveBeenCalledWith(["node:1"])
+      expect(invalidateTagsSpy).toHaveBeenCalledWith(["node_list"])
+      expect(revalidateTag).not.toHaveBeenCalled()
+    })
+
+    test("validates signed requests", async () => {
+      const handler = createRevalidateHandler({ signingSecret: secret })
+      const body = { paths: ["/node/1"] }
+      const signature = await createSignature(secret, {
+        method: "POST",
+        path: "/api/revalidate",
+        searchParams: "tags=node:1",
+        body: JSON.stringify(body),
+      })
+      const signed = mockPagesResponse()
+      const unsigned = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({
+          query: { tags: "node:1" },
+          headers: { [SIGNATURE_HEADER.toLowerCase()]: signature },
+          body,
+        }),
+        signed
+      )
+      await handler(
+        mockPagesRequest({ query: { secret, path: "/" } }),
+        unsigned
+      )
+
+      expect(signed.statusCode).toBe(500)
+      expect(signed.revalidate).toHaveBeenCalledWith("/node/1")
+      expect(unsigned.statusCode).toBe(401)
+      expect(unsigned.body).toEqual({ message: "Invalid signature." })
+    })
+
+    test("reads the raw body if the body parser is disabled", async () => {
+      const handler = createRevalidateHandler({ signingSecret: secret })
+      const body = `{ "paths": [ "\\/node\\/1" ] }`
+      const signature = await createSignature(secret, {
+        method: "POST",
+        path: "/api/revalidate",
+        body,
+      })
+      const request = Object.assign(Readable.from([body]), {
+        method: "POST",
+        url: "/api/revalidate",
+        query: {},
+        headers: { [SIGNATURE_HEADER.toLowerCase()]: signature },
+      }) as unknown as NextApiRequest
+      const response = mockPagesResponse()
+
+      await handler(request, response)
+
+      expect(response.statusCode).toBe(200)
+      expect(response.revalidate).toHaveBeenCalledWith("/node/1")
+    })
+
+    test("reports errors", async () => {
+      const response = mockPagesResponse()
+
+      await handler(
+        mockPagesRequest({
+          query: { secret, path: "/missing", tags: "node:1" },
+        }),
+        response
+      )
+
+      expect(response.statusCode).toBe(500)
+      expect(response.body).toMatchObject({
+        revalidated: false,
+        errors: [
+          { path: "/missing", message: "Failed to revalidate /missing" },
+          {
+            tag: "node:1",
+            message: "Tags can only be revalidated in the App Router.",
+          },
+        ],
+      })
+    })
+  })
+})
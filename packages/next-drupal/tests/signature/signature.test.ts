@@ -0,0 +1,228 @@
+import { createHmac } from "node:crypto"
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  createSignature,
+  SIGNATURE_HEADER,
+  timingSafeEqual,
+  verifyRequestSignature,
+  verifySignature,
+} from "../../src"
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+const secret = "very-secret-key"
+const timestamp = 1713195600
+
+function mockNow(seconds: number) {
+  jest.spyOn(Date, "now").mockReturnValue(seconds * 1000)
+}
+
+describe("createSignature()", () => {
+  test("signs the timestamp, method, path, sorted query and body", async () => {
+    const hmac = createHmac("sha256", secret)
+      .update(
+        `${timestamp}.POST./api/revalidate.b=2&path=%2Fnode%2F1.{"paths":["/"]}`
+      )
+      .digest("hex")
+
+    await expect(
+      createSignature(
+        secret,
+        {
+          method: "post",
+          path: "/api/revalidate",
+          searchParams: "path=/node/1&b=2&signature=foo",
+          body: `{"paths":["/"]}`,
+        },
+        timestamp
+      )
+    ).resolves.toBe(`t=${timestamp},v1=${hmac}`)
+  })
+
+  test("signs GET requests to / by default", async () => {
+    const hmac = createHmac("sha256", secret)
+      .update(`${timestamp}.GET./.path=%2Fnode%2F1.`)
+      .digest("hex")
+
+    await expect(
+      createSignature(secret, { searchParams: "path=/node/1" }, timestamp)
+    ).resolves.toBe(`t=${timestamp},v1=${hmac}`)
+  })
+
+  test("uses the current time", async () => {
+    mockNow(timestamp)
+
+    await expect(createSignature(secret, {})).resolves.toMatch(
+      new RegExp(`^t=${timestamp},v1=[0-9a-f]{64}$`)
+    )
+  })
+})
+
+describe("verifySignature()", () => {
+  const payload = {
+    method: "GET",
+    path: "/api/draft",
+    searchParams: new URLSearchParams({ path: "/node/1", plugin: "simple" }),
+    body: "",
+  }
+
+  test("accepts a valid signature", async () => {
+    mockNow(timestamp + 10)
+    const signature = await createSignature(secret, payload, timestamp)
+
+    await expect(verifySignature(secret, signature, payload)).resolves.toBe(
+      true
+    )
+  })
+
+  test("ignores the order of the query params", async () => {
+    mockNow(timestamp)
+    const signature = await createSignature(secret, payload, timestamp)
+
+    await expect(
+      verifySignature(secret, signature, {
+        ...payload,
+        searchParams: `plugin=simple&signature=${signature}&path=/node/1`,
+      })
+    ).resolves.toBe(true)
+  })
+
+  test("rejects a signature for other params or another body", async () => {
+    mockNow(timestamp)
+    const signature = await createSignature(secret, payload, timestamp)
+
+    await expect(
+      verifySignature(secret, signature, {
+        ...payload,
+        searchParams: "path=/node/2&plugin=simple",
+      })
+    ).resolves.toBe(false)
+    await expect(
+      verifySignature(secret, signature, { ...payload, body: "{}" })
+    ).resolves.toBe(false)
+    await expect(
+      verifySignature("other-secret", signature, payload)
+    ).resolves.toBe(false)
+  })
+
+  test("rejects a signature for another path or method", async () => {
+    mockNow(timestamp)
+    const signature = await createSignature(secret, payload, timestamp)
+
+    await expect(
+      verifySignature(secret, signature, {
+        ...payload,
+        path: "/api/revalidate",
+      })
+    ).resolves.toBe(false)
+    await expect(
+      verifySignature(secret, signature, { ...payload, method: "POST" })
+    ).resolves.toBe(false)
+  })
+
+  test("rejects signatures outside the replay window", async () => {
+    const signature = await createSignature(secret, payload, timestamp)
+
+    mockNow(timestamp + 301)
+    await expect(verifySignature(secret, signature, payload)).resolves.toBe(
+      false
+    )
+
+    mockNow(timestamp - 301)
+    await expect(verifySignature(secret, signature, payload)).resolves.toBe(
+      false
+    )
+
+    mockNow(timestamp + 301)
+    await expect(
+      verifySignature(secret, signature, payload, { maxAge: 600 })
+    ).resolves.toBe(true)
+  })
+
+  test("rejects malformed signatures", async () => {
+    mockNow(timestamp)
+    const signature = await createSignature(secret, payload, timestamp)
+
+    for (const invalid of [
+      null,
+      undefined,
+      "",
+      "foo",
+      `t=${timestamp}`,
+      signature.replace(`t=${timestamp}`, "t=foo"),
+    ]) {
+      await expect(verifySignature(secret, invalid, payload)).resolves.toBe(
+        false
+      )
+    }
+  })
+
+  test("rejects all signatures without a secret", async () => {
+    mockNow(timestamp)
+
+    await expect(
+      verifySignature("", `t=${timestamp},v1=foo`, payload)
+    ).resolves.toBe(false)
+  })
+})
+
+describe("verifyRequestSignature()", () => {
+  test("verifies the signature header", async () => {
+    mockNow(timestamp)
+    const body = JSON.stringify({ paths: ["/node/1"] })
+    const signature = await createSignature(
+      secret,
+      {
+        method: "POST",
+        path: "/api/revalidate",
+        searchParams: "foo=bar",
+        body,
+      },
+      timestamp
+    )
+    const request = new Request("https://example.com/api/revalidate?foo=bar", {
+      method: "POST",
+      headers: { [SIGNATURE_HEADER]: signature },
+      body,
+    })
+
+    await expect(verifyRequestSignature(request, secret)).resolves.toBe(true)
+    // The body can still be read.
+    await expect(request.text()).resolves.toBe(body)
+  })
+
+  test("verifies the signature param", async () => {
+    mockNow(timestamp)
+    const signature = await createSignature(
+      secret,
+      { path: "/api/draft", searchParams: "path=/node/1" },
+      timestamp
+    )
+    const query = `path=/node/1&signature=${encodeURIComponent(signature)}`
+    const request = new Request(`https://example.com/api/draft?${query}`)
+
+    await expect(verifyRequestSignature(request, secret)).resolves.toBe(true)
+    // The signed draft url cannot be replayed against another endpoint.
+    await expect(
+      verifyRequestSignature(
+        new Request(`https://example.com/api/revalidate?${query}`),
+        secret
+      )
+    ).resolves.toBe(false)
+    await expect(
+      verifyRequestSignature(request, secret, { maxAge: -1 })
+    ).resolves.toBe(false)
+  })
+})
+
+describe("timingSafeEqual()", () => {
+  test("compares strings", () => {
+    expect(timingSafeEqual("secret", "secret")).toBe(true)
+    expect(timingSafeEqual("secret", "secreT")).toBe(false)
+    expect(timingSafeEqual("secret", "secret2")).toBe(false)
+    expect(timingSafeEqual("secret2", "secret")).toBe(false)
+    expect(timingSafeEqual("", "secret")).toBe(false)
+  })
+})
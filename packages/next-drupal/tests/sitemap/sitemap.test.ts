@@ -0,0 +1,314 @@
+import { afterEach, describe, expect, jest, test } from "@jest/globals"
+import {
+  createSitemap,
+  createSitemapIndexXml,
+  createSitemapXml,
+  getSitemapEntries,
+  NextDrupal,
+  splitSitemapEntries,
+} from "../../src"
+import { MockDrupalServer } from "../../src/testing"
+import { BASE_URL } from "../utils"
+import type { MockDrupalResource, MockDrupalServerOptions } from "../../src"
+
+const SITE_URL = "https://example.com"
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+function createPage(
+  id: string,
+  alias: string,
+  attributes: Record<string, unknown> = {}
+): MockDrupalResource {
+  return {
+    type: "node--page",
+    id,
+    attributes: {
+      langcode: "en",
+      status: true,
+      changed: "2024-01-01T10:00:00+00:00",
+      path: { alias, langcode: "en" },
+      ...attributes,
+    },
+  }
+}
+
+const resources = [
+  createPage("home", "/home"),
+  createPage("home", "/home", { langcode: "es", default_langcode: false }),
+  createPage("about", "/about", { changed: "2024-02-01T10:00:00+00:00" }),
+  createPage("about", "/sobre", {
+    langcode: "es",
+    default_langcode: false,
+    path: { alias: "/sobre", langcode: "es" },
+  }),
+  createPage("contact", "/contact"),
+  createPage("draft", "/draft", { status: false }),
+  createPage("no-alias", null),
+  {
+    type: "node--article",
+    id: "article",
+    attributes: {
+      langcode: "en",
+      status: true,
+      path: { alias: "/articles/a&b", langcode: "en" },
+    },
+  },
+]
+
+function createClient(options: MockDrupalServerOptions = { resources }) {
+  return new NextDrupal(BASE_URL, {
+    fetcher: new MockDrupalServer(options).fetch,
+  })
+}
+
+describe("getSitemapEntries()", () => {
+  test("returns the entries of resources", async () => {
+    const drupal = createClient()
+
+    expect(
+      await getSitemapEntries(drupal, {
+        types: ["node--page", "node--article"],
+        baseUrl: `${SITE_URL}/`,
+      })
+    ).toEqual([
+      { url: `${SITE_URL}/`, lastModified: "2024-01-01T10:00:00+00:00" },
+      { url: `${SITE_URL}/about`, lastModified: "2024-02-01T10:00:00+00:00" },
+      { url: `${SITE_URL}/contact`, lastModified: "2024-01-01T10:00:00+00:00" },
+      { url: `${SITE_URL}/articles/a&b` },
+    ])
+  })
+
+  test("returns the translations of resources as alternates", async () => {
+    const drupal = createClient()
+    const about = {
+      en: `${SITE_URL}/about`,
+      es: `${SITE_URL}/es/sobre`,
+    }
+    const home = { en: `${SITE_URL}/`, es: `${SITE_URL}/es` }
+
+    expect(
+      await getSitemapEntries(drupal, {
+        types: ["node--page"],
+        baseUrl: SITE_URL,
+        locales: ["en", "es"],
+        defaultLocale: "en",
+      })
+    ).toEqual([
+      {
+        url: home.en,
+        lastModified: "2024-01-01T10:00:00+00:00",
+        alternates: { languages: home },
+      },
+      {
+        url: about.en,
+        lastModified: "2024-02-01T10:00:00+00:00",
+        alternates: { languages: about },
+      },
+      { url: `${SITE_URL}/contact`, lastModified: "2024-01-01T10:00:00+00:00" },
+      {
+        url: home.es,
+        lastModified: "2024-01-01T10:00:00+00:00",
+        alternates: { languages: home },
+      },
+      {
+        url: about.es,
+        lastModified: "2024-01-01T10:00:00+00:00",
+        alternates: { languages: about },
+      },
+    ])
+  })
+
+  test("returns the entries of every page", async () => {
+    const drupal = createClient({
+      resources: Array.from({ length: 120 }, (_, index) =>
+        createPage(String(index), `/page-${index}`)
+      ),
+    })
+
+    const entries = await getSitemapEntries(drupal, {
+      types: ["node--page"],
+      baseUrl: SITE_URL,
+    })
+
+    expect(entries).toHaveLength(120)
+    expect(entries[119].url).toBe(`${SITE_URL}/page-119`)
+  })
+
+  test("sends params and authenticated requests", async () => {
+    const drupal = createClient()
+
+    expect(
+      await getSitemapEntries(drupal, {
+        types: ["node--page"],
+        baseUrl: SITE_URL,
+        params: { "filter[changed][value]": "2024-01-01T10:00:00+00:00" },
+        withAuth: "Bearer token",
+      })
+    ).toEqual([
+      { url: `${SITE_URL}/`, lastModified: "2024-01-01T10:00:00+00:00" },
+      { url: `${SITE_URL}/contact`, lastModified: "2024-01-01T10:00:00+00:00" },
+      { url: `${SITE_URL}/draft`, lastModified: "2024-01-01T10:00:00+00:00" },
+    ])
+  })
+})
+
+describe("splitSitemapEntries()", () => {
+  test("splits entries into sitemaps", () => {
+    const entries = [1, 2, 3, 4, 5].map((id) => ({ url: `${SITE_URL}/${id}` }))
+
+    expect(
+      splitSitemapEntries(entries, 2).map((sitemap) => sitemap.length)
+    ).toEqual([2, 2, 1])
+    expect(splitSitemapEntries(entries)).toEqual([entries])
+    expect(splitSitemapEntries([])).toEqual([[]])
+  })
+})
+
+describe("createSitemapXml()", () => {
+  test("returns the XML of a sitemap", () => {
+    expect(
+      createSitemapXml([
+        {
+          url: `${SITE_URL}/about?a=1&b='2'`,
+          lastModified: "2024-02-01T10:00:00+00:00",
+          alternates: {
+            languages: { en: `${SITE_URL}/about`, es: `${SITE_URL}/es/sobre` },
+          },
+        },
+        {
+          url: `${SITE_URL}/contact`,
+          lastModified: new Date("2024-01-01T10:00:00Z"),
+          changeFrequency: "weekly",
+          priority: 0,
+        },
+        { url: `${SITE_URL}/<"b">` },
+      ])
+    ).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+<url>
+<loc>https://example.com/about?a=1&amp;b=&apos;2&apos;</loc>
+<xhtml:link rel="alternate" hreflang="en" href="https://example.com/about" />
+<xhtml:link rel="alternate" hreflang="es" href="https://example.com/es/sobre" />
+<lastmod>2024-02-01T10:00:00+00:00</lastmod>
+</url>
+<url>
+<loc>https://example.com/contact</loc>
+<lastmod>2024-01-01T10:00:00.000Z</lastmod>
+<changefreq>weekly</changefreq>
+<priority>0</priority>
+</url>
+<url>
+<loc>https://example.com/&lt;&quot;b&quot;&gt;</loc>
+</url>
+</urlset>
+`)
+  })
+})
+
+describe("createSitemapIndexXml()", () => {
+  test("returns the XML of a sitemap index", () => {
+    expect(
+      createSitemapIndexXml([
+        `${SITE_URL}/sitemap/0.xml`,
+        `${SITE_URL}/sitemap/1.xml`,
+      ])
+    ).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<sitemap>
+<loc>https://example.com/sitemap/0.xml</loc>
+</sitemap>
+<sitemap>
+<loc>https://example.com/sitemap/1.xml</loc>
+</sitemap>
+</sitemapindex>
+`)
+  })
+})
+
+describe("createSitemap()", () => {
+  test("returns the exports of the sitemap and robots files", async () => {
+    const { generateSitemaps, sitemap, robots } = createSitemap(
+      createClient(),
+      { types: ["node--page"], baseUrl: `${SITE_URL}/`, limit: 2 }
+    )
+
+    expect(await generateSitemaps()).toEqual([{ id: 0 }, { id: 1 }])
+    expect(await sitemap({ id: 1 })).toEqual([
+      { url: `${SITE_URL}/contact`, lastModified: "2024-01-01T10:00:00+00:00" },
+    ])
+    expect(await sitemap({ id: "2" as unknown as number })).toEqual([])
+    expect(await robots()).toEqual({
+      rules: { userAgent: "*", allow: "/" },
+      sitemap: [`${SITE_URL}/sitemap/0.xml`, `${SITE_URL}/sitemap/1.xml`],
+    })
+  })
+
+  test("returns the rules of robots", async () => {
+    const rules = { userAgent: "*", disallow: "/search" }
+    const { robots } = createSitemap(createClient(), {
+      types: ["node--page"],
+      baseUrl: SITE_URL,
+      rules,
+    })
+
+    expect(await robots()).toEqual({
+      rules,
+      sitemap: [`${SITE_URL}/sitemap/0.xml`],
+    })
+  })
+
+  test("returns the sitemap index", async () => {
+    const { sitemapIndex } = createSitemap(createClient(), {
+      types: ["node--page"],
+      baseUrl: SITE_URL,
+      limit: 2,
+    })
+
+    const response = await sitemapIndex()
+
+    expect(response.headers.get("Content-Type")).toBe("application/xml")
+    expect(await response.text()).toBe(
+      createSitemapIndexXml([
+        `${SITE_URL}/sitemap/0.xml`,
+        `${SITE_URL}/sitemap/1.xml`,
+      ])
+    )
+  })
+
+  test("shares the entries between exports for cacheTtl", async () => {
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] })
+    const fetcher = jest.fn(new MockDrupalServer({ resources }).fetch)
+    const drupal = new NextDrupal(BASE_URL, { fetcher })
+    const { generateSitemaps, sitemap, robots } = createSitemap(drupal, {
+      types: ["node--page"],
+      baseUrl: SITE_URL,
+      cacheTtl: 10,
+    })
+
+    await Promise.all([generateSitemaps(), sitemap({ id: 0 }), robots()])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    jest.advanceTimersByTime(10000)
+    await sitemap({ id: 0 })
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  test("does not cache failed requests", async () => {
+    const server = new MockDrupalServer({ resources })
+    const fetcher = jest
+      .fn(server.fetch)
+      .mockRejectedValueOnce(new Error("Network error"))
+    const drupal = new NextDrupal(BASE_URL, { fetcher })
+    const { sitemap } = createSitemap(drupal, {
+      types: ["node--page"],
+      baseUrl: SITE_URL,
+    })
+
+    await expect(sitemap({ id: 0 })).rejects.toThrow("Network error")
+    expect(await sitemap({ id: 0 })).toHaveLength(3)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+})
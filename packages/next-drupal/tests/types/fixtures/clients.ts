@@ -0,0 +1,35 @@
+// Type assertions of the clients accepted by helpers. This file is not run,
+// it is type-checked by resource-types.test.ts.
+import { NextDrupal, NextDrupalPages, ResourceLoader } from "../../../src"
+import {
+  createRevalidateHandler,
+  revalidateTags,
+} from "../../../src/revalidate"
+import type { JsonApiResource, NextDrupalClient } from "../../../src"
+
+interface Article extends JsonApiResource {
+  title: string
+}
+
+interface ResourceTypes {
+  "node--article": Article
+}
+
+export async function typedClients(
+  drupal: NextDrupal<ResourceTypes>,
+  pages: NextDrupalPages<ResourceTypes>
+) {
+  // Clients typed with resource types are accepted by helpers.
+  createRevalidateHandler({ drupal })
+  createRevalidateHandler({ drupal: pages })
+  await revalidateTags(["node:1"], drupal)
+  await revalidateTags(["node:1"], pages)
+  new ResourceLoader(drupal)
+
+  const clients: NextDrupalClient[] = [drupal, pages, new NextDrupal("")]
+
+  // Helpers fetch any resource type.
+  await clients[0].getResource("node--page", "1")
+
+  return clients
+}
@@ -0,0 +1,91 @@
+// Type assertions of the resource types of a client. This file is not run,
+// it is type-checked by resource-types.test.ts.
+import { NextDrupal } from "../../../src"
+import type { JsonApiResource } from "../../../src"
+
+interface User extends JsonApiResource {
+  name: string
+}
+
+interface Tag extends JsonApiResource {
+  name: string
+  vid: { id: string; type: string; name: string }
+}
+
+interface Article extends JsonApiResource {
+  title: string
+  uid: User
+  field_tags: Tag[]
+}
+
+interface ResourceTypes {
+  "node--article": Article
+  "taxonomy_term--tags": Tag
+  "user--user": User
+}
+
+// Fails to compile unless the types are the same.
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false
+
+function assertType<T extends true>(value?: T) {
+  return value
+}
+
+export async function typedClient(drupal: NextDrupal<ResourceTypes>) {
+  // Resources are inferred from the resource type.
+  const article = await drupal.getResource("node--article", "1")
+  assertType<Equal<typeof article, Article>>()
+
+  const tags = await drupal.getResourceCollection("taxonomy_term--tags")
+  assertType<Equal<typeof tags, Tag[]>>()
+
+  // @ts-expect-error Unknown resource types are rejected.
+  await drupal.getResource("node--articel", "1")
+
+  // @ts-expect-error Unknown resource types are rejected.
+  await drupal.getResourceCollection("node--page")
+
+  // Includes are the relationship paths of the resource.
+  await drupal.getResource("node--article", "1", {
+    params: { include: ["uid", "field_tags", "field_tags.vid"] },
+  })
+  await drupal.getResource("node--article", "1", {
+    params: { include: "uid" },
+  })
+
+  await drupal.getResource("node--article", "1", {
+    // @ts-expect-error Fields that are not relationships are rejected.
+    params: { include: "title" },
+  })
+
+  await drupal.getResource("node--article", "1", {
+    // @ts-expect-error Unknown relationships are rejected.
+    params: { include: ["uid", "field_image"] },
+  })
+
+  // Sparse fieldsets are the fields of each resource type.
+  await drupal.getResource("node--article", "1", {
+    params: {
+      fields: { "node--article": ["title", "uid"], "user--user": ["name"] },
+    },
+  })
+
+  await drupal.getResource("node--article", "1", {
+    // @ts-expect-error Unknown fields are rejected.
+    params: { fields: { "user--user": ["title"] } },
+  })
+}
+
+export async function untypedClient(drupal: NextDrupal) {
+  // Any resource type is accepted without resource types.
+  const resource = await drupal.getResource("node--article", "1")
+  assertType<Equal<typeof resource, JsonApiResource>>()
+
+  const article = await drupal.getResource<Article>("node--article", "1", {
+    params: { include: "anything" },
+  })
+  assertType<Equal<typeof article, Article>>()
+}
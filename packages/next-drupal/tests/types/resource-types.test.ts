@@ -0,0 +1,41 @@
+import { describe, expect, test } from "@jest/globals"
+import path from "node:path"
+import ts from "typescript"
+
+// Returns the type errors of a file, using the compiler options of the repo.
+function getTypeErrors(file: string) {
+  const configFile = ts.findConfigFile(__dirname, ts.sys.fileExists)
+  const { config } = ts.readConfigFile(configFile, ts.sys.readFile)
+  const { options } = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(configFile)
+  )
+  const program = ts.createProgram([file], { ...options, noEmit: true })
+
+  // Only the errors of the file: the sources are checked by tsc.
+  return ts
+    .getPreEmitDiagnostics(program, program.getSourceFile(file))
+    .map(({ start, messageText }) => {
+      const { line } = program
+        .getSourceFile(file)
+        .getLineAndCharacterOfPosition(start)
+      const message = ts.flattenDiagnosticMessageText(messageText, "\n")
+
+      return `${line + 1}: ${message}`
+    })
+}
+
+describe("resource types", () => {
+  test("type-checks the resources, includes and fields of resource types", () => {
+    expect(
+      getTypeErrors(path.join(__dirname, "fixtures/resource-types.ts"))
+    ).toEqual([])
+  }, 60000)
+
+  test("type-checks the clients accepted by helpers", () => {
+    expect(getTypeErrors(path.join(__dirname, "fixtures/clients.ts"))).toEqual(
+      []
+    )
+  }, 60000)
+})
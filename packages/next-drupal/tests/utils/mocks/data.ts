@@ -1,7 +1,11 @@
 import type {
+  AccessToken,
   DrupalClientAuthAccessToken,
   DrupalClientAuthClientIdSecret,
   DrupalClientAuthUsernamePassword,
+  NextDrupalAuthAuthorizationCodeGrant,
+  NextDrupalAuthPasswordGrant,
+  NextDrupalAuthRefreshTokenGrant,
 } from "../../../src"
 
 // Run all tests against this env until we configure CI to setup a Drupal instance.
@@ -26,6 +30,32 @@ const auth = {
     return "custom Authentication header from authFunction"
   },
   customAuthenticationHeader: "custom Authentication header from string",
+  passwordGrant: {
+    grantType: "password",
+    clientId: "7795065e-8ad0-45eb-a64d-73d9f3a5e943",
+    clientSecret: "d92Fm^ds",
+    username: "editor",
+    password: "example",
+  } as NextDrupalAuthPasswordGrant,
+  authorizationCodeGrant: {
+    grantType: "authorization_code",
+    clientId: "7795065e-8ad0-45eb-a64d-73d9f3a5e943",
+    code: "def50200b1e5c2a7",
+    redirectUri: "https://example.com/api/auth/callback",
+    codeVerifier: "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk",
+  } as NextDrupalAuthAuthorizationCodeGrant,
+  refreshTokenGrant: {
+    grantType: "refresh_token",
+    clientId: "7795065e-8ad0-45eb-a64d-73d9f3a5e943",
+    clientSecret: "d92Fm^ds",
+    refreshToken: "def502004b7d3f6a",
+  } as NextDrupalAuthRefreshTokenGrant,
+  userToken: {
+    access_token: "eyJ0eXAiOiJKV1QiLCJhbGciOiJSUzI1NiJ9",
+    token_type: "Bearer",
+    expires_in: 300,
+    refresh_token: "def50200e3b7c1d9",
+  } as AccessToken,
 }
 
 const resources = {
@@ -787,8 +817,70 @@ const menus = {
   },
 }
 
+const collections = {
+  paginated: {
+    pageOne: {
+      jsonapi: {
+        version: "1.0",
+        meta: { links: { self: { href: "http://jsonapi.org/format/1.0/" } } },
+      },
+      data: [
+        {
+          type: "node--article",
+          id: "1c4a0b41-3c4e-4e8e-9c6f-6d6a3c1b6f01",
+          attributes: {
+            title: "First article",
+            path: { alias: "/articles/first", pid: 1, langcode: "en" },
+          },
+        },
+        {
+          type: "node--article",
+          id: "1c4a0b41-3c4e-4e8e-9c6f-6d6a3c1b6f02",
+          attributes: {
+            title: "Second article",
+            path: { alias: "/articles/second", pid: 2, langcode: "en" },
+          },
+        },
+      ],
+      links: {
+        next: {
+          href: "https://example.com/jsonapi/node/article?page%5Boffset%5D=2&page%5Blimit%5D=2",
+        },
+        self: {
+          href: "https://example.com/jsonapi/node/article?page%5Blimit%5D=2",
+        },
+      },
+    },
+    pageTwo: {
+      jsonapi: {
+        version: "1.0",
+        meta: { links: { self: { href: "http://jsonapi.org/format/1.0/" } } },
+      },
+      data: [
+        {
+          type: "node--article",
+          id: "1c4a0b41-3c4e-4e8e-9c6f-6d6a3c1b6f03",
+          attributes: {
+            title: "Third article",
+            path: { alias: "/articles/third", pid: 3, langcode: "en" },
+          },
+        },
+      ],
+      links: {
+        prev: {
+          href: "https://example.com/jsonapi/node/article?page%5Boffset%5D=0&page%5Blimit%5D=2",
+        },
+        self: {
+          href: "https://example.com/jsonapi/node/article?page%5Boffset%5D=2&page%5Blimit%5D=2",
+        },
+      },
+    },
+  },
+}
+
 export const mocks = {
   auth,
   resources,
   menus,
+  collections,
 }
@@ -1,3 +1,4 @@
 export * from "./data"
 export * from "./spyOnFetch"
 export * from "./mockLogger"
+export * from "./mockDataCache"
@@ -0,0 +1,11 @@
+import { DataCache } from "../../../src"
+
+export function mockDataCache(): DataCache {
+  const store = new Map<string, unknown>()
+
+  return {
+    get: jest.fn(async (key: string) => store.get(key)),
+    set: jest.fn(async (key: string, value: unknown) => store.set(key, value)),
+    del: jest.fn(async (key: string) => store.delete(key)),
+  }
+}
@@ -1,7 +1,16 @@
 import { defineConfig } from "tsup"
 
 export const tsup = defineConfig({
-  entry: ["src/index.ts", "src/draft.ts", "src/navigation.ts"],
+  entry: [
+    "src/index.ts",
+    "src/bin.ts",
+    "src/draft.ts",
+    "src/middleware.ts",
+    "src/navigation.ts",
+    "src/redirect.ts",
+    "src/revalidate.ts",
+    "src/testing.ts",
+  ],
   // Enable experimental code splitting support in CommonJS.
   // splitting: true,
   // Use Rollup for tree shaking.
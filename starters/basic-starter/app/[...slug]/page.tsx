@@ -1,6 +1,8 @@
 import { draftMode } from "next/headers"
 import { notFound } from "next/navigation"
+import { getRedirect, toNextMetadata } from "next-drupal"
 import { getDraftData } from "next-drupal/draft"
+import { followRedirect } from "next-drupal/redirect"
 import { Article } from "@/components/drupal/Article"
 import { BasicPage } from "@/components/drupal/BasicPage"
 import { drupal } from "@/lib/drupal"
@@ -25,6 +27,12 @@ async function getNode(slug: string[]) {
     throw new Error("Resource not found", { cause: "NotFound" })
   }
 
+  // Redirect old paths, e.g. from the Redirect module, to their destination.
+  const redirect = getRedirect(translatedPath)
+  if (redirect) {
+    followRedirect(redirect)
+  }
+
   const type = translatedPath.jsonapi?.resourceName!
   const uuid = translatedPath.entity.uuid
 
@@ -68,9 +76,8 @@ export async function generateMetadata(
     return {}
   }
 
-  return {
-    title: node.title,
-  }
+  // Uses the metatags of the node, or its title.
+  return toNextMetadata(node)
 }
 
 const RESOURCE_TYPES = ["node--page", "node--article"]
@@ -1,28 +1,6 @@
-import { revalidatePath } from "next/cache"
-import type { NextRequest } from "next/server"
+import { createRevalidateHandler } from "next-drupal/revalidate"
+import { drupal } from "@/lib/drupal"
 
-async function handler(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams
-  const path = searchParams.get("path")
-  const secret = searchParams.get("secret")
-
-  // Validate secret.
-  if (secret !== process.env.DRUPAL_REVALIDATE_SECRET) {
-    return new Response("Invalid secret.", { status: 401 })
-  }
-
-  // Validate path.
-  if (!path) {
-    return new Response("Invalid path.", { status: 400 })
-  }
-
-  try {
-    revalidatePath(path)
-
-    return new Response("Revalidated.")
-  } catch (error) {
-    return new Response((error as Error).message, { status: 500 })
-  }
-}
+const handler = createRevalidateHandler({ drupal })
 
 export { handler as GET, handler as POST }
@@ -1,4 +1,5 @@
 import Head from "next/head"
+import { getRedirect, getRedirectProps } from "next-drupal"
 import { Article } from "@/components/drupal/Article"
 import { BasicPage } from "@/components/drupal/BasicPage"
 import { Layout } from "@/components/Layout"
@@ -28,6 +29,12 @@ export const getStaticProps = (async (context) => {
     }
   }
 
+  // Redirect old paths, e.g. from the Redirect module, to their destination.
+  const redirect = getRedirect(path)
+  if (redirect) {
+    return getRedirectProps(redirect)
+  }
+
   const type = path?.jsonapi?.resourceName
 
   let params = {}
@@ -77,6 +77,10 @@ export const docsConfig: DocsConfig = {
           title: "Deleting Resources (DELETE)",
           href: "/docs/deleting-resources",
         },
+        {
+          title: "Batch Operations",
+          href: "/docs/batch-operations",
+        },
       ],
     },
     {
@@ -94,6 +98,18 @@ export const docsConfig: DocsConfig = {
           title: "Advanced Example",
           href: "/docs/pages#advanced-example",
         },
+        {
+          title: "Sitemap",
+          href: "/docs/sitemap",
+        },
+        {
+          title: "Metadata",
+          href: "/docs/metadata",
+        },
+        {
+          title: "Redirects",
+          href: "/docs/redirects",
+        },
       ],
     },
     {
@@ -115,6 +131,14 @@ export const docsConfig: DocsConfig = {
           title: "Caching",
           href: "/docs/cache",
         },
+        {
+          title: "Signed Requests",
+          href: "/docs/signed-requests",
+        },
+        {
+          title: "Testing",
+          href: "/docs/testing",
+        },
       ],
     },
     {